@@ -0,0 +1,295 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { MIN_TOKEN_SECRET_LENGTH } from './utils/auth.js';
+import { LOG_LEVELS, LOG_FORMATS, LogLevel, LogFormat } from './utils/logger.js';
+
+/**
+ * Transports the server can be started with
+ */
+export type TransportType = 'stdio' | 'http';
+
+/**
+ * SQLite checks the readiness checks can run on the index database
+ */
+export const READINESS_CHECKS = ['full', 'quick'] as const;
+export type ReadinessCheckMode = typeof READINESS_CHECKS[number];
+
+/**
+ * Options for starting the Jane MCP server
+ */
+export interface CliOptions {
+  transport: TransportType;
+  port: number;
+  host: string;
+  janeDir?: string;      // Overrides the Jane directory lookup
+  dbPath?: string;       // Overrides the SQLite index location
+  apiKeysFile?: string;  // API keys accepted by the HTTP transport
+  tokenSecret?: string;  // HMAC secret for signed bearer tokens
+  sessionIdleTimeout: number;  // Seconds before an idle HTTP session expires (0 disables expiry)
+  maxSessions: number;   // Maximum number of concurrent HTTP sessions
+  eventRetention: number;  // Seconds HTTP session events are kept for resumption
+  maxEvents: number;     // Maximum number of HTTP session events kept
+  shutdownTimeout: number;  // Seconds to wait for tool calls in progress when shutting down
+  logLevel?: LogLevel;   // Minimum level logged (default: info, or debug when DEBUG is set)
+  logFormat: LogFormat;  // Colored text or JSON lines
+  logFile?: string;      // Append logs to this file instead of stderr
+  readinessCheck: ReadinessCheckMode;  // Full integrity check, or the quicker check that skips index consistency
+  watch: boolean;        // Re-index documents as they change on disk
+  forceReindex: boolean; // Re-index every document on startup
+  maxRemovalRatio: number;  // Largest share of the index a startup scan may remove for deleted documents
+  dryRun: boolean;       // Report what a scan would change in the index, then exit without serving
+  help: boolean;
+}
+
+/**
+ * Error raised when the command line or environment contains invalid options
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const DEFAULT_PORT = 9001;
+export const DEFAULT_HOST = '0.0.0.0';
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 1800;
+export const DEFAULT_MAX_SESSIONS = 100;
+export const DEFAULT_EVENT_RETENTION = 3600;
+export const DEFAULT_MAX_EVENTS = 10000;
+export const DEFAULT_SHUTDOWN_TIMEOUT = 10;
+export const DEFAULT_MAX_REMOVAL_RATIO = 0.5;
+
+/**
+ * Usage text printed for --help and after option errors
+ */
+export const USAGE = `Usage: node dist/index.js [options]
+
+Options:
+  --transport <stdio|http>  Transport to serve MCP over (env: JANE_TRANSPORT, default: stdio)
+  --port <number>           Port for the HTTP transport (env: JANE_PORT, default: ${DEFAULT_PORT})
+  --host <address>          Address for the HTTP transport to bind to (env: JANE_HOST, default: ${DEFAULT_HOST})
+  --jane-dir <path>         Directory containing stdlib/ and specs/ (env: JANE_DIR)
+  --db-path <path>          Location of the SQLite index (env: JANE_DB_PATH)
+  --api-keys <path>         JSON file of API keys for the HTTP transport (env: JANE_API_KEYS_FILE)
+  --session-idle-timeout <seconds>
+                            Close HTTP sessions idle for this long, 0 to keep them
+                            (env: JANE_SESSION_IDLE_TIMEOUT, default: ${DEFAULT_SESSION_IDLE_TIMEOUT})
+  --max-sessions <number>   Maximum concurrent HTTP sessions; the least recently used idle
+                            session is closed to make room (env: JANE_MAX_SESSIONS, default: ${DEFAULT_MAX_SESSIONS})
+  --event-retention <seconds>
+                            Keep HTTP session events this long so clients can resume
+                            after a restart (env: JANE_EVENT_RETENTION, default: ${DEFAULT_EVENT_RETENTION})
+  --max-events <number>     Maximum HTTP session events kept in the database
+                            (env: JANE_MAX_EVENTS, default: ${DEFAULT_MAX_EVENTS})
+  --shutdown-timeout <seconds>
+                            Wait this long for tool calls in progress on SIGINT/SIGTERM
+                            (env: JANE_SHUTDOWN_TIMEOUT, default: ${DEFAULT_SHUTDOWN_TIMEOUT})
+  --log-level <debug|info|warning|error>
+                            Minimum level of log entries (env: JANE_LOG_LEVEL, default: info,
+                            or debug when DEBUG is set)
+  --log-format <text|json>  Write colored text, or one JSON object per line with a timestamp,
+                            level and component (env: JANE_LOG_FORMAT, default: text)
+  --log-file <path>         Append logs to this file instead of stderr (env: JANE_LOG_FILE)
+  --readiness-check <full|quick>
+                            Run SQLite's full integrity check on readiness checks, or the quick
+                            check that skips index consistency (env: JANE_READINESS_CHECK, default: full)
+  --watch                   Watch the Jane directory and re-index documents as they change
+                            (env: JANE_WATCH=true)
+  --force                   Re-index every document on startup
+  --max-removal-ratio <ratio>
+                            Skip removing deleted documents from the index when they are more
+                            than this share of it, 0 to 1 (env: JANE_MAX_REMOVAL_RATIO,
+                            default: ${DEFAULT_MAX_REMOVAL_RATIO})
+  --dry-run                 Report the documents a scan would index and the orphaned index
+                            rows it would remove, then exit without changing the index
+  -h, --help                Show this help
+
+Signed bearer tokens are accepted when JANE_TOKEN_SECRET is set (at least ${MIN_TOKEN_SECRET_LENGTH} characters).
+`;
+
+/**
+ * Flags that take a value, mapped to the environment variable they override
+ */
+const VALUE_FLAGS: Record<string, string> = {
+  '--transport': 'JANE_TRANSPORT',
+  '--port': 'JANE_PORT',
+  '--host': 'JANE_HOST',
+  '--jane-dir': 'JANE_DIR',
+  '--db-path': 'JANE_DB_PATH',
+  '--api-keys': 'JANE_API_KEYS_FILE',
+  '--session-idle-timeout': 'JANE_SESSION_IDLE_TIMEOUT',
+  '--max-sessions': 'JANE_MAX_SESSIONS',
+  '--event-retention': 'JANE_EVENT_RETENTION',
+  '--max-events': 'JANE_MAX_EVENTS',
+  '--shutdown-timeout': 'JANE_SHUTDOWN_TIMEOUT',
+  '--log-level': 'JANE_LOG_LEVEL',
+  '--log-format': 'JANE_LOG_FORMAT',
+  '--log-file': 'JANE_LOG_FILE',
+  '--readiness-check': 'JANE_READINESS_CHECK',
+  '--max-removal-ratio': 'JANE_MAX_REMOVAL_RATIO'
+};
+
+/**
+ * Parse and validate command line arguments, falling back to environment variables
+ * Command line flags take precedence over the environment
+ * @param argv Arguments after the script name (e.g. process.argv.slice(2))
+ * @param env Environment variables
+ * @returns The validated options
+ * @throws CliUsageError if an option is unknown, missing a value or invalid
+ */
+export function parseCliOptions(argv: string[], env: NodeJS.ProcessEnv = process.env): CliOptions {
+  const values: Record<string, string | undefined> = {};
+  for (const variable of Object.values(VALUE_FLAGS)) {
+    values[variable] = env[variable] || undefined;
+  }
+
+  const watchValue = env.JANE_WATCH?.toLowerCase();
+  let watch = watchValue === '1' || watchValue === 'true' || watchValue === 'yes';
+  let forceReindex = false;
+  let dryRun = false;
+  let help = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '-h' || arg === '--help') {
+      help = true;
+      continue;
+    }
+    if (arg === '--watch') {
+      watch = true;
+      continue;
+    }
+    if (arg === '--force') {
+      forceReindex = true;
+      continue;
+    }
+    if (arg === '--dry-run') {
+      dryRun = true;
+      continue;
+    }
+
+    // Accept both "--flag value" and "--flag=value"
+    const separator = arg.indexOf('=');
+    const flag = separator === -1 ? arg : arg.slice(0, separator);
+    const inlineValue = separator === -1 ? undefined : arg.slice(separator + 1);
+    const variable = VALUE_FLAGS[flag];
+    if (!variable) {
+      throw new CliUsageError(`Unknown option: ${arg}`);
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined || value === '' || (inlineValue === undefined && value.startsWith('--'))) {
+      throw new CliUsageError(`Option ${flag} requires a value`);
+    }
+    values[variable] = value;
+  }
+
+  const transport = values.JANE_TRANSPORT ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new CliUsageError(`Invalid transport "${transport}": expected "stdio" or "http"`);
+  }
+
+  const portValue = values.JANE_PORT ?? String(DEFAULT_PORT);
+  const port = Number(portValue);
+  if (!/^\d+$/.test(portValue) || port < 1 || port > 65535) {
+    throw new CliUsageError(`Invalid port "${portValue}": expected an integer between 1 and 65535`);
+  }
+
+  const timeoutValue = values.JANE_SESSION_IDLE_TIMEOUT ?? String(DEFAULT_SESSION_IDLE_TIMEOUT);
+  if (!/^\d+$/.test(timeoutValue)) {
+    throw new CliUsageError(`Invalid session idle timeout "${timeoutValue}": expected a number of seconds`);
+  }
+
+  const maxSessionsValue = values.JANE_MAX_SESSIONS ?? String(DEFAULT_MAX_SESSIONS);
+  if (!/^\d+$/.test(maxSessionsValue) || Number(maxSessionsValue) < 1) {
+    throw new CliUsageError(`Invalid maximum sessions "${maxSessionsValue}": expected a positive integer`);
+  }
+
+  const retentionValue = values.JANE_EVENT_RETENTION ?? String(DEFAULT_EVENT_RETENTION);
+  if (!/^\d+$/.test(retentionValue) || Number(retentionValue) < 1) {
+    throw new CliUsageError(`Invalid event retention "${retentionValue}": expected a positive number of seconds`);
+  }
+
+  const maxEventsValue = values.JANE_MAX_EVENTS ?? String(DEFAULT_MAX_EVENTS);
+  if (!/^\d+$/.test(maxEventsValue) || Number(maxEventsValue) < 1) {
+    throw new CliUsageError(`Invalid maximum events "${maxEventsValue}": expected a positive integer`);
+  }
+
+  const shutdownTimeoutValue = values.JANE_SHUTDOWN_TIMEOUT ?? String(DEFAULT_SHUTDOWN_TIMEOUT);
+  if (!/^\d+$/.test(shutdownTimeoutValue)) {
+    throw new CliUsageError(`Invalid shutdown timeout "${shutdownTimeoutValue}": expected a number of seconds`);
+  }
+
+  const logLevel = values.JANE_LOG_LEVEL;
+  if (logLevel !== undefined && !(LOG_LEVELS as readonly string[]).includes(logLevel)) {
+    throw new CliUsageError(`Invalid log level "${logLevel}": expected one of ${LOG_LEVELS.join(', ')}`);
+  }
+
+  const logFormat = values.JANE_LOG_FORMAT ?? 'text';
+  if (!(LOG_FORMATS as readonly string[]).includes(logFormat)) {
+    throw new CliUsageError(`Invalid log format "${logFormat}": expected "text" or "json"`);
+  }
+
+  const readinessCheck = values.JANE_READINESS_CHECK ?? 'full';
+  if (!(READINESS_CHECKS as readonly string[]).includes(readinessCheck)) {
+    throw new CliUsageError(`Invalid readiness check "${readinessCheck}": expected "full" or "quick"`);
+  }
+
+  const removalRatioValue = values.JANE_MAX_REMOVAL_RATIO ?? String(DEFAULT_MAX_REMOVAL_RATIO);
+  const maxRemovalRatio = Number(removalRatioValue);
+  if (!/^\d*\.?\d+$/.test(removalRatioValue) || maxRemovalRatio > 1) {
+    throw new CliUsageError(`Invalid maximum removal ratio "${removalRatioValue}": expected a number between 0 and 1`);
+  }
+
+  const logFile = values.JANE_LOG_FILE ? path.resolve(values.JANE_LOG_FILE) : undefined;
+  if (logFile && fs.existsSync(logFile) && fs.statSync(logFile).isDirectory()) {
+    throw new CliUsageError(`Invalid log file "${logFile}": is a directory`);
+  }
+
+  const janeDir = values.JANE_DIR ? path.resolve(values.JANE_DIR) : undefined;
+  if (janeDir && fs.existsSync(janeDir) && !fs.statSync(janeDir).isDirectory()) {
+    throw new CliUsageError(`Invalid Jane directory "${janeDir}": not a directory`);
+  }
+
+  const dbPath = values.JANE_DB_PATH ? path.resolve(values.JANE_DB_PATH) : undefined;
+  if (dbPath && fs.existsSync(dbPath) && fs.statSync(dbPath).isDirectory()) {
+    throw new CliUsageError(`Invalid database path "${dbPath}": is a directory`);
+  }
+
+  const apiKeysFile = values.JANE_API_KEYS_FILE ? path.resolve(values.JANE_API_KEYS_FILE) : undefined;
+  if (apiKeysFile && !(fs.existsSync(apiKeysFile) && fs.statSync(apiKeysFile).isFile())) {
+    throw new CliUsageError(`Invalid API keys file "${apiKeysFile}": not a file`);
+  }
+
+  // The secret is only read from the environment so it does not show up in process listings
+  const tokenSecret = env.JANE_TOKEN_SECRET || undefined;
+  if (tokenSecret && tokenSecret.length < MIN_TOKEN_SECRET_LENGTH) {
+    throw new CliUsageError(`Invalid JANE_TOKEN_SECRET: must be at least ${MIN_TOKEN_SECRET_LENGTH} characters`);
+  }
+
+  return {
+    transport,
+    port,
+    host: values.JANE_HOST ?? DEFAULT_HOST,
+    janeDir,
+    dbPath,
+    apiKeysFile,
+    tokenSecret,
+    sessionIdleTimeout: Number(timeoutValue),
+    maxSessions: Number(maxSessionsValue),
+    eventRetention: Number(retentionValue),
+    maxEvents: Number(maxEventsValue),
+    shutdownTimeout: Number(shutdownTimeoutValue),
+    logLevel: logLevel as LogLevel | undefined,
+    logFormat: logFormat as LogFormat,
+    logFile,
+    readinessCheck: readinessCheck as ReadinessCheckMode,
+    watch,
+    forceReindex,
+    maxRemovalRatio,
+    dryRun,
+    help
+  };
+}
@@ -1,66 +1,391 @@
 import express from 'express';
+import { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { Socket } from 'node:net';
 import { randomUUID } from 'node:crypto';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { InMemoryEventStore } from '@modelcontextprotocol/sdk/examples/shared/inMemoryEventStore.js';
-import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { isInitializeRequest, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { Authenticator, AuthError, hasScope } from './utils/auth.js';
+import { SessionRegistry, SessionStats } from './http-sessions.js';
+import { SQLiteEventStore } from './utils/sqlite-event-store.js';
+import { ShutdownCoordinator, shutdownCoordinator } from './utils/shutdown.js';
+import { metrics, CollectedMetric } from './utils/metrics.js';
+import { checkReadiness } from './utils/readiness.js';
 import logger from './utils/logger.js';
 
+/**
+ * Options for the HTTP server
+ */
+export interface HttpServerOptions {
+  port?: number;  // Port to listen on (default 9001)
+  host?: string;  // Address to bind to (default 0.0.0.0)
+  auth?: Authenticator;  // Credentials required for /mcp (default: none)
+  sessionIdleTimeout?: number;  // Milliseconds before an idle session expires (default 30 minutes, 0 disables)
+  maxSessions?: number;  // Maximum number of concurrent sessions (default 100)
+  eventStore?: SQLiteEventStore;  // Persists sessions and their events across restarts (default: in memory)
+  shutdown?: ShutdownCoordinator;  // Coordinates stopping the server (default: the application's)
+}
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+export const DEFAULT_MAX_SESSIONS = 100;
+
+/**
+ * Milliseconds between removing old events from the event store
+ */
+const EVENT_PRUNE_INTERVAL = 60_000;
+
+const log = logger.child('http');
+
+/**
+ * Report the session counts of the health check as metrics
+ */
+function sessionMetrics(stats: SessionStats): CollectedMetric[] {
+  return [
+    { name: 'jane_http_sessions_active', help: 'Open HTTP sessions', type: 'gauge', samples: [{ value: stats.active }] },
+    { name: 'jane_http_sessions_max', help: 'Maximum number of concurrent HTTP sessions', type: 'gauge', samples: [{ value: stats.max }] },
+    { name: 'jane_http_sessions_expired_total', help: 'HTTP sessions closed for being idle', type: 'counter', samples: [{ value: stats.expired }] },
+    { name: 'jane_http_sessions_evicted_total', help: 'HTTP sessions closed to make room for new ones', type: 'counter', samples: [{ value: stats.evicted }] }
+  ];
+}
+
+/**
+ * Creates a new MCP server instance for a session opened by an authenticated
+ * principal (or by anyone, when authentication is disabled)
+ */
+export type McpServerFactory = (authInfo?: AuthInfo) => McpServer | Promise<McpServer>;
+
 /**
  * Create and start an HTTP server for Jane MCP
  * This enables remote connections to the MCP server
  * 
- * @param server - The configured MCP server instance
- * @param port - The port number to listen on
+ * Every session gets its own MCP server from the factory, since a server
+ * instance can only be connected to one transport at a time
+ * 
+ * With a persistent event store, a session the client opened before a
+ * restart is restored on its next request, so the client can resume its
+ * streams with Last-Event-ID instead of initializing a new session
+ * 
+ * @param createServer - Factory for the per-session MCP server instances
+ * @param options - The port and host to listen on, the credentials to accept, the session limits and the event store
+ * @returns The underlying HTTP server
  */
-export function startHttpServer(server: McpServer, port: number = 9001): void {
+export function startHttpServer(createServer: McpServerFactory, options: HttpServerOptions = {}): Server {
+  const {
+    port = 9001,
+    host = '0.0.0.0',
+    auth,
+    sessionIdleTimeout = DEFAULT_SESSION_IDLE_TIMEOUT,
+    maxSessions = DEFAULT_MAX_SESSIONS,
+    eventStore,
+    shutdown = shutdownCoordinator
+  } = options;
   const app = express();
   app.use(express.json());
   
-  logger.header('HTTP Server Setup');
-  logger.info(`Setting up HTTP server for remote connections on port ${port}...`);
+  log.header('HTTP Server Setup');
+  log.info(`Setting up HTTP server for remote connections on ${host}:${port}...`);
+
+  // Store transports by session ID, along with the principal that opened
+  // each session and when it was last used
+  const sessions = new SessionRegistry<StreamableHTTPServerTransport>({ idleTimeout: sessionIdleTimeout, maxSessions });
+
+  const restoring = new Map<string, Promise<StreamableHTTPServerTransport | undefined>>();
+
+  if (eventStore) {
+    log.info('Persisting session events in the SQLite database');
+  }
+
+  /**
+   * Create the transport for a session, storing its events in the event
+   * store if there is one
+   */
+  const createTransport = (
+    sessionId: string,
+    onsessioninitialized?: (sessionId: string) => void
+  ): StreamableHTTPServerTransport => new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => sessionId,
+    eventStore: eventStore ? eventStore.forSession(sessionId) : new InMemoryEventStore(), // Enable resumability
+    onsessioninitialized
+  });
+
+  /**
+   * Connect a session's transport to a new MCP server
+   * Closing the transport also closes the server it is connected to
+   */
+  const connectServer = async (
+    transport: StreamableHTTPServerTransport,
+    sessionId: string,
+    authInfo?: AuthInfo
+  ): Promise<void> => {
+    const server = await createServer(authInfo);
+    await server.connect(transport);
+
+    // Connecting replaces the transport's onclose handler, so clean up the
+    // session after the server's own handler runs
+    const closeServer = transport.onclose;
+    transport.onclose = () => {
+      closeServer?.();
+      if (sessions.get(sessionId) === transport) {
+        log.info(`Transport closed for session ${sessionId}, removing it from the session registry`, { sessionId });
+        sessions.remove(sessionId);
+      }
+      // Persisted sessions outlive the process, so they are kept when the
+      // transports close because the server is shutting down
+      if (!shutdown.stopping) {
+        eventStore?.deleteSession(sessionId);
+      }
+    };
+  };
+
+  /**
+   * Replay the initialize request of a session through a new transport, so
+   * the transport and its server are initialized the way the client left
+   * them. The response goes nowhere: the client received it when it opened
+   * the session.
+   * @returns True if the transport accepted the request
+   */
+  const replayInitialize = async (
+    transport: StreamableHTTPServerTransport,
+    initializeRequest: JSONRPCMessage,
+    authInfo?: AuthInfo
+  ): Promise<boolean> => {
+    const req = Object.assign(new IncomingMessage(new Socket()), {
+      method: 'POST',
+      headers: { accept: 'application/json, text/event-stream', 'content-type': 'application/json' },
+      auth: authInfo
+    });
+    const res = new ServerResponse(req);
+
+    // A response without a socket never emits finish, so watch for end()
+    const ended = new Promise<void>(resolve => {
+      const end = res.end.bind(res);
+      res.end = ((...args: Parameters<typeof end>) => {
+        resolve();
+        return end(...args);
+      }) as typeof res.end;
+    });
+
+    await transport.handleRequest(req, res, initializeRequest);
+    await ended;
+    return res.statusCode === 200 && transport.sessionId !== undefined;
+  };
+
+  /**
+   * Restore a session opened before the server restarted from the event store
+   * @returns The transport of the restored session, or undefined if the
+   *   session is unknown, expired, owned by another principal, was recorded
+   *   without its initialize request or there is no room
+   */
+  const restoreSession = async (sessionId: string, authInfo?: AuthInfo): Promise<StreamableHTTPServerTransport | undefined> => {
+    const stored = eventStore?.getSession(sessionId);
+    if (!eventStore || !stored) return undefined;
+
+    if (stored.principal !== authInfo?.clientId) {
+      log.warning(`Not restoring session ${sessionId} for "${authInfo?.clientId ?? 'anonymous'}": it belongs to a different principal`, { sessionId });
+      return undefined;
+    }
+    if (sessionIdleTimeout > 0 && Date.now() - stored.lastActivity > sessionIdleTimeout) {
+      eventStore.deleteSession(sessionId);
+      return undefined;
+    }
+    if (!stored.initializeRequest) {
+      log.warning(`Not restoring session ${sessionId}: its initialize request was not recorded`, { sessionId });
+      return undefined;
+    }
+    if (!(await sessions.makeRoom(sessionId))) {
+      log.warning(`Not restoring session ${sessionId}: all ${maxSessions} sessions are busy`, { sessionId });
+      return undefined;
+    }
+
+    try {
+      // The transport's session ID generator returns the stored ID, so
+      // replaying the initialize request re-opens the same session
+      const transport = createTransport(sessionId);
+      await connectServer(transport, sessionId, authInfo);
+      if (!(await replayInitialize(transport, stored.initializeRequest, authInfo))) {
+        log.warning(`Not restoring session ${sessionId}: replaying its initialize request failed`, { sessionId });
+        await transport.close();
+        return undefined;
+      }
+
+      sessions.add(sessionId, transport, stored.principal);
+      eventStore.saveSession(sessionId, stored.principal);
+      log.info(`Restored session ${sessionId} from the event store`, { sessionId });
+      return transport;
+    } finally {
+      // Give the room back unless the session was added
+      sessions.release(sessionId);
+    }
+  };
+
+  /**
+   * Find the transport of a session, restoring the session from the event
+   * store if it was opened before a restart
+   */
+  const findSession = async (sessionId: string, authInfo?: AuthInfo): Promise<StreamableHTTPServerTransport | undefined> => {
+    const transport = sessions.get(sessionId);
+    if (transport || !eventStore) return transport;
+
+    // Concurrent requests for the same session share one restore
+    let pending = restoring.get(sessionId);
+    if (!pending) {
+      pending = restoreSession(sessionId, authInfo).finally(() => restoring.delete(sessionId));
+      restoring.set(sessionId, pending);
+    }
+    const restored = await pending;
+    return restored && sessions.getPrincipal(sessionId) === authInfo?.clientId ? restored : undefined;
+  };
+
+  if (auth?.enabled) {
+    log.info('Authentication enabled for MCP requests');
+  } else {
+    log.warning('Authentication is disabled: anyone who can reach the server can read and change documents');
+  }
+
+  // Refuse new MCP requests once shutdown has started
+  app.use('/mcp', (req, res, next) => {
+    if (!shutdown.stopping) {
+      next();
+      return;
+    }
+
+    res.status(503).set('Connection', 'close').json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32000,
+        message: 'Service Unavailable: server is shutting down',
+      },
+      id: null,
+    });
+  });
+
+  /**
+   * Check the credentials of a request, responding with 401 if they are
+   * missing or invalid
+   * @returns The auth info, or undefined if the request was rejected
+   */
+  const authenticate = (req: express.Request, res: express.Response): AuthInfo | undefined => {
+    try {
+      return auth!.authenticate(req.headers.authorization);
+    } catch (error) {
+      if (!(error instanceof AuthError)) throw error;
+
+      log.warning(`Rejected request to ${req.baseUrl || req.path}: ${error.message}`);
+      res.status(401).set('WWW-Authenticate', 'Bearer realm="jane"').json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32001,
+          message: `Unauthorized: ${error.message}`,
+        },
+        id: null,
+      });
+      return undefined;
+    }
+  };
+
+  // Authenticate MCP requests. The transport passes req.auth on to the tool
+  // handlers, which use its scopes to decide whether documents may be changed
+  app.use('/mcp', (req, res, next) => {
+    if (!auth?.enabled) {
+      next();
+      return;
+    }
+
+    const authInfo = authenticate(req, res);
+    if (!authInfo) return;
+    req.auth = authInfo;
+
+    // Credentials for scraping metrics cannot read documents
+    if (!hasScope(authInfo, 'read')) {
+      log.warning(`Rejected request from "${authInfo.clientId}" without the read scope`);
+      res.status(403).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32001,
+          message: 'Forbidden: the read scope is required',
+        },
+        id: null,
+      });
+      return;
+    }
+
+    // A session can only be used by the principal that opened it
+    const sessionId = req.headers['mcp-session-id'] as string;
+    const owner = sessionId ? sessions.getPrincipal(sessionId) : undefined;
+    if (owner !== undefined && owner !== req.auth.clientId) {
+      log.warning(`Rejected request from "${req.auth.clientId}" for session ${sessionId} owned by "${owner}"`, { sessionId });
+      res.status(403).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32001,
+          message: 'Forbidden: session belongs to a different principal',
+        },
+        id: null,
+      });
+      return;
+    }
 
-  // Store transports by session ID
-  const transports: Record<string, StreamableHTTPServerTransport> = {};
+    next();
+  });
 
   // MCP POST endpoint
   app.post('/mcp', async (req, res) => {
-    logger.debug(`Received MCP request: ${JSON.stringify(req.body)}`);
+    // Check for existing session ID
+    const sessionId = req.headers['mcp-session-id'] as string;
+    const fields = { sessionId, requestId: req.body?.id };
+    log.debug(`Received MCP request: ${JSON.stringify(req.body)}`, fields);
 
     try {
-      // Check for existing session ID
-      const sessionId = req.headers['mcp-session-id'] as string;
-      let transport: StreamableHTTPServerTransport;
+      const transport = sessionId ? await findSession(sessionId, req.auth) : undefined;
       
-      if (sessionId && transports[sessionId]) {
-        // Reuse existing transport
-        transport = transports[sessionId];
-      } else if (!sessionId && isInitializeRequest(req.body)) {
-        // New initialization request
-        const eventStore = new InMemoryEventStore();
-        
-        transport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: () => randomUUID(),
-          eventStore, // Enable resumability
-          onsessioninitialized: (sid) => {
-            // Store the transport by session ID when session is initialized
-            logger.info(`Session initialized with ID: ${sid}`);
-            transports[sid] = transport;
-          }
+      if (transport) {
+        // Reuse existing transport, restored from the event store after a restart if needed
+      } else if (sessionId) {
+        // Unknown, expired or evicted session; the client has to initialize a new one
+        res.status(404).json({
+          jsonrpc: '2.0',
+          error: {
+            code: -32001,
+            message: 'Session not found',
+          },
+          id: null,
         });
+        return;
+      } else if (isInitializeRequest(req.body)) {
+        // The session ID is chosen up front so the event store can be scoped to it
+        const newSessionId = randomUUID();
         
-        // Set up onclose handler to clean up transport when closed
-        transport.onclose = () => {
-          const sid = transport.sessionId;
-          if (sid && transports[sid]) {
-            logger.info(`Transport closed for session ${sid}, removing from transports map`);
-            delete transports[sid];
-          }
-        };
+        // New initialization request, evicting an idle session if the server is full
+        if (!(await sessions.makeRoom(newSessionId))) {
+          log.warning(`Rejected new session: all ${maxSessions} sessions are busy`);
+          res.status(503).json({
+            jsonrpc: '2.0',
+            error: {
+              code: -32000,
+              message: 'Service Unavailable: too many active sessions',
+            },
+            id: null,
+          });
+          return;
+        }
         
-        // Connect the transport to the MCP server BEFORE handling the request
-        await server.connect(transport);
-        await transport.handleRequest(req.body, req, res);
+        const newTransport: StreamableHTTPServerTransport = createTransport(newSessionId, (sid) => {
+          // Store the transport by session ID when session is initialized
+          log.info(`Session initialized with ID: ${sid}`, { sessionId: sid });
+          sessions.add(sid, newTransport, req.auth?.clientId);
+          eventStore?.saveSession(sid, req.auth?.clientId, req.body);
+        });
+        
+        try {
+          // Connect the transport to a new MCP server BEFORE handling the request
+          await connectServer(newTransport, newSessionId, req.auth);
+          await newTransport.handleRequest(req, res, req.body);
+        } finally {
+          // Give the room back if the session did not initialize
+          sessions.release(newSessionId);
+        }
         return; // Already handled
       } else {
         // Invalid request - no session ID or not initialization request
@@ -76,9 +401,9 @@ export function startHttpServer(server: McpServer, port: number = 9001): void {
       }
       
       // Handle the request with existing transport
-      await transport.handleRequest(req.body, req, res);
+      await sessions.track(sessionId, () => transport.handleRequest(req, res, req.body));
     } catch (error) {
-      logger.error(`Error handling MCP request: ${error instanceof Error ? error.message : String(error)}`);
+      log.error(`Error handling MCP request: ${error instanceof Error ? error.message : String(error)}`, { ...fields, error });
       if (!res.headersSent) {
         res.status(500).json({
           jsonrpc: '2.0',
@@ -96,20 +421,28 @@ export function startHttpServer(server: McpServer, port: number = 9001): void {
   app.get('/mcp', async (req, res) => {
     const sessionId = req.headers['mcp-session-id'] as string;
     
-    if (!sessionId || !transports[sessionId]) {
-      res.status(400).send('Invalid or missing session ID');
+    if (!sessionId) {
+      res.status(400).send('Missing session ID');
+      return;
+    }
+    const transport = await findSession(sessionId, req.auth);
+    if (!transport) {
+      res.status(404).send('Session not found');
       return;
     }
     
     // Check for Last-Event-ID header for resumability
     const lastEventId = req.headers['last-event-id'];
     if (lastEventId) {
-      logger.info(`Client reconnecting with Last-Event-ID: ${lastEventId}`);
+      log.info(`Client reconnecting with Last-Event-ID: ${lastEventId}`, { sessionId });
     } else {
-      logger.info(`Establishing new SSE stream for session ${sessionId}`);
+      log.info(`Establishing new SSE stream for session ${sessionId}`, { sessionId });
     }
     
-    const transport = transports[sessionId];
+    // The stream stays open while the client listens, so it only counts as
+    // activity when it is opened and closed
+    sessions.touch(sessionId);
+    res.on('close', () => sessions.touch(sessionId));
     await transport.handleRequest(req, res);
   });
   
@@ -117,18 +450,22 @@ export function startHttpServer(server: McpServer, port: number = 9001): void {
   app.delete('/mcp', async (req, res) => {
     const sessionId = req.headers['mcp-session-id'] as string;
     
-    if (!sessionId || !transports[sessionId]) {
-      res.status(400).send('Invalid or missing session ID');
+    if (!sessionId) {
+      res.status(400).send('Missing session ID');
+      return;
+    }
+    const transport = await findSession(sessionId, req.auth);
+    if (!transport) {
+      res.status(404).send('Session not found');
       return;
     }
     
-    logger.info(`Received session termination request for session ${sessionId}`);
+    log.info(`Received session termination request for session ${sessionId}`, { sessionId });
     
     try {
-      const transport = transports[sessionId];
-      await transport.handleRequest(req, res);
+      await sessions.track(sessionId, () => transport.handleRequest(req, res));
     } catch (error) {
-      logger.error(`Error handling session termination: ${error instanceof Error ? error.message : String(error)}`);
+      log.error(`Error handling session termination: ${error instanceof Error ? error.message : String(error)}`, { sessionId, error });
       if (!res.headersSent) {
         res.status(500).send('Error processing session termination');
       }
@@ -141,30 +478,109 @@ export function startHttpServer(server: McpServer, port: number = 9001): void {
       status: 'healthy',
       name: 'jane-mcp-server',
       version: '1.0.0',
-      transportCount: Object.keys(transports).length
+      transportCount: sessions.size,
+      sessions: sessions.stats()
     });
   });
   
+  // Readiness check for orchestration: unlike /health, this verifies the
+  // index and the Jane directory, and answers 503 if any check fails
+  app.get('/ready', async (req, res) => {
+    try {
+      const { ready, checks } = await checkReadiness();
+      res.status(ready ? 200 : 503).json({
+        status: ready ? 'ready' : 'not ready',
+        checks
+      });
+    } catch (error) {
+      log.error(`Error checking readiness: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(503).json({ status: 'not ready', checks: [] });
+    }
+  });
+  
+  // Report tool calls, search latencies, the index contents and sessions to
+  // Prometheus. Metrics name every project and language, whatever the ACL
+  // grants, so they need the metrics scope when authentication is enabled
+  app.get('/metrics', async (req, res) => {
+    if (auth?.enabled) {
+      const authInfo = authenticate(req, res);
+      if (!authInfo) return;
+      if (!hasScope(authInfo, 'metrics')) {
+        log.warning(`Rejected request for metrics from "${authInfo.clientId}" without the metrics scope`);
+        res.status(403).send('Forbidden: the metrics scope is required');
+        return;
+      }
+    }
+
+    try {
+      res.type('text/plain; version=0.0.4; charset=utf-8').send(await metrics.render());
+    } catch (error) {
+      log.error(`Error collecting metrics: ${error instanceof Error ? error.message : String(error)}`);
+      res.status(500).send('Error collecting metrics');
+    }
+  });
+  
   // Start the server
-  app.listen(port, '0.0.0.0', () => {
-    logger.success(`Jane MCP HTTP Server listening on port ${port}`);
+  const httpServer = app.listen(port, host, () => {
+    log.success(`Jane MCP HTTP Server listening on ${host}:${port}`);
+    log.startup('Jane MCP server is running and ready for connections');
+  });
+  httpServer.on('error', (error) => {
+    log.error(`HTTP server error: ${error.message}`);
+    process.exit(1);
   });
   
-  // Handle server shutdown
-  process.on('SIGINT', async () => {
-    logger.info('Shutting down HTTP server...');
-    
-    // Close all active transports to properly clean up resources
-    for (const sessionId in transports) {
+  // Close idle sessions, checking at least every minute
+  if (sessionIdleTimeout > 0) {
+    const expiryTimer = setInterval(() => {
+      sessions.expireIdle().catch(error => {
+        log.error(`Error expiring idle sessions: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, Math.min(sessionIdleTimeout / 2, 60_000));
+    expiryTimer.unref();
+    httpServer.on('close', () => clearInterval(expiryTimer));
+  }
+  
+  // Report session counts on /metrics while the server is running
+  const removeSessionMetrics = metrics.addCollector(() => sessionMetrics(sessions.stats()));
+  httpServer.on('close', removeSessionMetrics);
+  
+  // Remove events and sessions beyond the retention limits
+  if (eventStore) {
+    const pruneEvents = () => {
       try {
-        logger.info(`Closing transport for session ${sessionId}`);
-        await transports[sessionId].close();
-        delete transports[sessionId];
+        eventStore.prune();
       } catch (error) {
-        logger.error(`Error closing transport for session ${sessionId}: ${error instanceof Error ? error.message : String(error)}`);
+        log.error(`Error pruning the event store: ${error instanceof Error ? error.message : String(error)}`);
       }
+    };
+    pruneEvents();
+    const pruneTimer = setInterval(pruneEvents, EVENT_PRUNE_INTERVAL);
+    pruneTimer.unref();
+    httpServer.on('close', () => clearInterval(pruneTimer));
+  }
+  
+  // Stop accepting connections when shutdown starts. Once the tool calls in
+  // progress have finished, close the sessions (keeping persisted ones so
+  // clients can resume them after a restart) and the open SSE streams
+  const closed = new Promise<void>(resolve => httpServer.once('close', () => resolve()));
+  const removeStopStep = shutdown.onStop('stop HTTP listener', () => {
+    log.info('Shutting down HTTP server...');
+    httpServer.close();
+    httpServer.closeIdleConnections();
+  });
+  const removeCloseStep = shutdown.onClose('close HTTP sessions', async () => {
+    await sessions.closeAll();
+    httpServer.closeAllConnections();
+    await closed;
+    log.info('HTTP server shutdown complete');
+  });
+  httpServer.on('close', () => {
+    if (!shutdown.stopping) {
+      removeStopStep();
+      removeCloseStep();
     }
-    
-    logger.info('HTTP server shutdown complete');
   });
-}
\ No newline at end of file
+
+  return httpServer;
+}
@@ -0,0 +1,233 @@
+import logger from './utils/logger.js';
+
+const log = logger.child('http');
+
+/**
+ * The part of a session's transport the registry needs to close it
+ */
+export interface SessionTransport {
+  close(): Promise<void>;
+}
+
+/**
+ * Limits applied to HTTP sessions
+ */
+export interface SessionLimits {
+  idleTimeout: number;  // Milliseconds without requests before a session expires (0 disables expiry)
+  maxSessions: number;  // Maximum number of concurrent sessions
+}
+
+/**
+ * Session counts and ages reported by the health check
+ */
+export interface SessionStats {
+  active: number;
+  max: number;
+  idleTimeoutSeconds: number;
+  oldestAgeSeconds: number;    // Age of the oldest session (0 without sessions)
+  longestIdleSeconds: number;  // Time since the least recently used session was active
+  expired: number;             // Sessions closed for being idle since startup
+  evicted: number;             // Sessions closed to make room for new ones since startup
+}
+
+/**
+ * A session and its activity
+ */
+interface Session<T extends SessionTransport> {
+  transport: T;
+  principal?: string;
+  createdAt: number;
+  lastActivity: number;
+  pendingRequests: number;
+}
+
+/**
+ * Keeps track of the sessions of the HTTP server and closes the ones that
+ * are no longer used
+ *
+ * A session is idle while it has no requests in progress; long-lived SSE
+ * streams only count as activity when they are opened and closed. Idle
+ * sessions expire after the idle timeout, and when the registry is full the
+ * least recently used idle session is evicted to make room for a new one.
+ * Room is reserved for a session while it initializes, so sessions opened
+ * concurrently cannot exceed the limit.
+ */
+export class SessionRegistry<T extends SessionTransport> {
+  private sessions = new Map<string, Session<T>>();
+  private reserved = new Set<string>();
+  private expired = 0;
+  private evicted = 0;
+
+  constructor(
+    private readonly limits: SessionLimits,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Number of open sessions
+   */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Get the transport of a session
+   */
+  get(sessionId: string): T | undefined {
+    return this.sessions.get(sessionId)?.transport;
+  }
+
+  /**
+   * Get the principal that opened a session, if authentication is enabled
+   */
+  getPrincipal(sessionId: string): string | undefined {
+    return this.sessions.get(sessionId)?.principal;
+  }
+
+  /**
+   * Register a new session, taking over the room reserved for it
+   */
+  add(sessionId: string, transport: T, principal?: string): void {
+    const now = this.now();
+    this.reserved.delete(sessionId);
+    this.sessions.set(sessionId, { transport, principal, createdAt: now, lastActivity: now, pendingRequests: 0 });
+  }
+
+  /**
+   * Forget a session whose transport has closed
+   */
+  remove(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Record activity on a session without a request staying in progress
+   */
+  touch(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastActivity = this.now();
+    }
+  }
+
+  /**
+   * Run a request for a session, keeping the session from expiring or being
+   * evicted until the request completes
+   */
+  async track<R>(sessionId: string, handle: () => Promise<R>): Promise<R> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return handle();
+    }
+
+    session.pendingRequests++;
+    session.lastActivity = this.now();
+    try {
+      return await handle();
+    } finally {
+      session.pendingRequests--;
+      session.lastActivity = this.now();
+    }
+  }
+
+  /**
+   * Close sessions that have been idle for longer than the idle timeout
+   * @returns The number of sessions closed
+   */
+  async expireIdle(): Promise<number> {
+    if (this.limits.idleTimeout <= 0) return 0;
+
+    const cutoff = this.now() - this.limits.idleTimeout;
+    const idle = [...this.sessions.entries()]
+      .filter(([, session]) => session.pendingRequests === 0 && session.lastActivity <= cutoff);
+
+    for (const [sessionId] of idle) {
+      log.info(`Session ${sessionId} expired after ${Math.round(this.limits.idleTimeout / 1000)}s without activity`, { sessionId });
+      await this.close(sessionId);
+      this.expired++;
+    }
+    return idle.length;
+  }
+
+  /**
+   * Reserve room for a new session, evicting the least recently used idle
+   * session if the registry is full
+   * The room is reserved before anything is awaited and counts against the
+   * limit until the session is added, or released if it fails to initialize.
+   * @param sessionId The session the room is for
+   * @returns False if the registry is full and every session is busy
+   */
+  async makeRoom(sessionId: string): Promise<boolean> {
+    if (this.sessions.size + this.reserved.size < this.limits.maxSessions) {
+      this.reserved.add(sessionId);
+      return true;
+    }
+
+    let oldest: [string, Session<T>] | undefined;
+    for (const entry of this.sessions.entries()) {
+      if (entry[1].pendingRequests === 0 && (!oldest || entry[1].lastActivity < oldest[1].lastActivity)) {
+        oldest = entry;
+      }
+    }
+    if (!oldest) return false;
+
+    this.reserved.add(sessionId);
+    log.info(`Evicting idle session ${oldest[0]} to stay within ${this.limits.maxSessions} sessions`, { sessionId: oldest[0] });
+    await this.close(oldest[0]);
+    this.evicted++;
+    return true;
+  }
+
+  /**
+   * Give back the room reserved for a session that was not added
+   */
+  release(sessionId: string): void {
+    this.reserved.delete(sessionId);
+  }
+
+  /**
+   * Close every session
+   */
+  async closeAll(): Promise<void> {
+    for (const sessionId of [...this.sessions.keys()]) {
+      log.info(`Closing transport for session ${sessionId}`, { sessionId });
+      await this.close(sessionId);
+    }
+  }
+
+  /**
+   * Summarize the open sessions for the health check
+   */
+  stats(): SessionStats {
+    const now = this.now();
+    const sessions = [...this.sessions.values()];
+    const seconds = (ms: number) => Math.max(0, Math.round(ms / 1000));
+
+    return {
+      active: sessions.length,
+      max: this.limits.maxSessions,
+      idleTimeoutSeconds: seconds(this.limits.idleTimeout),
+      oldestAgeSeconds: seconds(Math.max(0, ...sessions.map(session => now - session.createdAt))),
+      longestIdleSeconds: seconds(Math.max(0, ...sessions.map(session =>
+        session.pendingRequests > 0 ? 0 : now - session.lastActivity
+      ))),
+      expired: this.expired,
+      evicted: this.evicted
+    };
+  }
+
+  /**
+   * Close a session's transport and forget the session
+   */
+  private async close(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.sessions.delete(sessionId);
+    try {
+      await session.transport.close();
+    } catch (error) {
+      log.error(`Error closing transport for session ${sessionId}: ${error instanceof Error ? error.message : String(error)}`, { sessionId, error });
+    }
+  }
+}
@@ -1,20 +1,113 @@
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { createServer } from './server.js';
-import logger from './utils/logger.js';
-import { fileURLToPath } from 'url';
-import path from 'path';
-
-// Get the directory name for ES modules
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { parseCliOptions, CliUsageError, USAGE } from './cli.js';
+import { Authenticator, loadApiKeys } from './utils/auth.js';
+import { shutdownCoordinator } from './utils/shutdown.js';
+import logger, { configureLogger } from './utils/logger.js';
 
 /**
  * Main entry point for Jane MCP server
  */
 async function main() {
+  let options;
+  try {
+    options = parseCliOptions(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      logger.error(error.message);
+      process.stderr.write(`\n${USAGE}`);
+      process.exit(2);
+    }
+    throw error;
+  }
+
+  if (options.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  try {
+    configureLogger({ level: options.logLevel, format: options.logFormat, file: options.logFile });
+  } catch (error) {
+    logger.error(`Cannot open log file ${options.logFile}: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(2);
+  }
+
+  // The Jane directory and index location are read when the server modules
+  // load, so they are set before the server is imported
+  if (options.janeDir) {
+    process.env.JANE_DIR = options.janeDir;
+  }
+  if (options.dbPath) {
+    process.env.JANE_DB_PATH = options.dbPath;
+  }
+  // Read by the server and the readiness checks when they start
+  process.env.JANE_WATCH = options.watch ? 'true' : 'false';
+  process.env.JANE_READINESS_CHECK = options.readinessCheck;
+
+  // Report what a scan would change in the index, without serving or writing to it
+  if (options.dryRun) {
+    try {
+      const { documentIndex } = await import('./utils/search.js');
+      const { scanAndIndexDocuments, formatDryRunReport } = await import('./utils/document-scanner.js');
+      await documentIndex.initialize();
+      const result = await scanAndIndexDocuments({ force: options.forceReindex, dryRun: true });
+      await documentIndex.close();
+      process.stdout.write(formatDryRunReport(result));
+      process.exitCode = result.errors.length > 0 ? 1 : 0;
+    } catch (error) {
+      logger.error(`Error scanning documents: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Shut down on SIGINT and SIGTERM, letting tool calls in progress finish
+  const shutdownTimeout = options.shutdownTimeout * 1000;
+  shutdownCoordinator.installSignalHandlers(shutdownTimeout);
+
   try {
-    // Create the server
-    const server = await createServer();
+    // Rebuild the whole index when started with --force
+    const { createServer, createMcpServer, initializeServer, closeServer } = await import('./server.js');
+    const serverOptions = { forceReindex: options.forceReindex, maxRemovalRatio: options.maxRemovalRatio };
+    
+    if (options.transport === 'http') {
+      // Serve remote clients over streamable HTTP, with a server per session
+      const auth = new Authenticator({
+        apiKeys: options.apiKeysFile ? await loadApiKeys(options.apiKeysFile) : undefined,
+        tokenSecret: options.tokenSecret
+      });
+      await initializeServer(serverOptions);
+      const { accessControl } = await import('./utils/access-control.js');
+      if (accessControl.enabled && !auth.enabled) {
+        logger.warning('The ACL only applies to authenticated clients; configure API keys or a token secret to enforce it');
+      }
+      // Session events live in the index database so clients can resume after a restart
+      const { documentIndex } = await import('./utils/search.js');
+      const { SQLiteEventStore } = await import('./utils/sqlite-event-store.js');
+      const eventStore = new SQLiteEventStore(await documentIndex.getDatabase(), {
+        maxAge: options.eventRetention * 1000,
+        maxEvents: options.maxEvents
+      });
+      const { startHttpServer } = await import('./http-server.js');
+      startHttpServer(createMcpServer, {
+        port: options.port,
+        host: options.host,
+        auth,
+        sessionIdleTimeout: options.sessionIdleTimeout * 1000,
+        maxSessions: options.maxSessions,
+        eventStore
+      });
+
+      // Closed after the HTTP sessions that use it
+      shutdownCoordinator.onClose('close document index', closeServer);
+      return;
+    }
+    
+    if (options.apiKeysFile || options.tokenSecret) {
+      logger.warning('Authentication settings only apply to the HTTP transport and are ignored for stdio');
+    }
+    
+    const server = await createServer(serverOptions);
     
     // Set up stdio transport for local tools
     logger.info('Connecting to stdin/stdout transport...');
@@ -23,6 +116,17 @@ async function main() {
     // Connect the server to the transport
     await server.connect(transport);
     
+    // Stop reading requests when shutting down, and shut down when the
+    // client closes stdin
+    shutdownCoordinator.onStop('stop reading stdin', () => {
+      process.stdin.pause();
+    });
+    shutdownCoordinator.onClose('close stdio transport', () => server.close());
+    shutdownCoordinator.onClose('close document index', closeServer);
+    process.stdin.once('end', () => {
+      shutdownCoordinator.shutdown('stdin closed', shutdownTimeout).then(process.exit);
+    });
+    
     logger.startup('Jane MCP server is running and ready for connections');
     
     // The server will keep running until the process is terminated
@@ -34,4 +138,4 @@ async function main() {
 }
 
 // Run the application
-main();
\ No newline at end of file
+main();
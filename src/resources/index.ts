@@ -1,29 +1,176 @@
 import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { listLanguages, listProjects, readDocument } from '../utils/filesystem.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourcesResult,
+  McpError
+} from '@modelcontextprotocol/sdk/types.js';
+import { DocumentType } from '../types.js';
+import { listDocuments, listLanguages, listProjects, readDocument } from '../utils/filesystem.js';
+import { PathValidationError } from '../utils/path-validation.js';
+import { documentIndex } from '../utils/search.js';
+import { toDocumentUri, decodeUriPath } from '../utils/document-uri.js';
+import { fuzzyRank } from '../utils/fuzzy-match.js';
+import { accessControl } from '../utils/access-control.js';
+
+/**
+ * Number of documents returned per resources/list page
+ */
+const RESOURCE_PAGE_SIZE = 100;
+
+/**
+ * Maximum number of path completions returned
+ */
+const MAX_PATH_COMPLETIONS = 20;
+
+/**
+ * Position in the document listing, encoded as an opaque cursor
+ */
+interface ListCursor {
+  type: DocumentType;
+  path: string;
+}
+
+/**
+ * Encode the last document of a page as a resources/list cursor
+ */
+function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a resources/list cursor
+ * @throws McpError if the cursor was not issued by this server
+ */
+function decodeCursor(cursor: string): ListCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if ((decoded.type === 'stdlib' || decoded.type === 'spec') && typeof decoded.path === 'string') {
+      return { type: decoded.type, path: decoded.path };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+}
+
+/**
+ * List one page of indexed documents as resources
+ * @param cursor Cursor returned with the previous page, if any
+ * @param authInfo The auth info of the request; documents it may not read are left out
+ * @returns The resources in the page and the cursor for the next page
+ */
+export async function listDocumentResources(cursor?: string, authInfo?: AuthInfo): Promise<ListResourcesResult> {
+  const after = cursor ? decodeCursor(cursor) : undefined;
+
+  // Fetch one extra document to find out whether another page follows
+  const documents = await documentIndex.listDocumentSummaries({
+    after,
+    limit: RESOURCE_PAGE_SIZE + 1,
+    filter: accessControl.readFilter(authInfo)
+  });
+  const page = documents.slice(0, RESOURCE_PAGE_SIZE);
+  const last = page[page.length - 1];
+
+  return {
+    resources: page.map(doc => ({
+      uri: toDocumentUri(doc.type, doc.path),
+      name: doc.path,
+      title: doc.title,
+      description: doc.description,
+      mimeType: 'text/markdown'
+    })),
+    ...(documents.length > RESOURCE_PAGE_SIZE && last
+      ? { nextCursor: encodeCursor({ type: last.type, path: last.path }) }
+      : {})
+  };
+}
+
+/**
+ * Complete a document path within a language or project directory
+ * Paths in nested directories are included, ranked by fuzzy match
+ * @param type Document type (stdlib or spec)
+ * @param directory The language or project chosen so far
+ * @param value The path typed so far
+ * @param authInfo The auth info of the session
+ * @returns Matching paths relative to the directory, best match first
+ */
+async function completeDocumentPath(
+  type: DocumentType,
+  directory: string | undefined,
+  value: string,
+  authInfo: AuthInfo | undefined
+): Promise<string[]> {
+  if (!directory || !accessControl.canAccess(authInfo, type, directory, 'read')) return [];
+
+  let documents: string[];
+  try {
+    documents = await listDocuments(type, directory);
+  } catch (error) {
+    if (error instanceof PathValidationError) return [];
+    throw error;
+  }
+
+  const prefix = `${directory.replace(/\/+$/, '')}/`;
+  const paths = documents.map(doc => doc.startsWith(prefix) ? doc.slice(prefix.length) : doc);
+  return fuzzyRank(value, paths, MAX_PATH_COMPLETIONS);
+}
+
+/**
+ * Build the error result for a document path that failed validation
+ * Any other error is rethrown
+ */
+function invalidPathResult(uri: URL, error: unknown) {
+  if (!(error instanceof PathValidationError)) {
+    throw error;
+  }
+  return {
+    contents: [{
+      uri: uri.href,
+      text: error.message
+    }],
+    isError: true
+  };
+}
+
+/**
+ * Build the error result for a document the client may not read
+ */
+function accessDeniedResult(uri: URL, authInfo: AuthInfo | undefined) {
+  return {
+    contents: [{
+      uri: uri.href,
+      text: `Access denied: "${authInfo?.clientId}" cannot read ${uri.href}`
+    }],
+    isError: true
+  };
+}
 
 /**
  * Implements all resources for the Jane server
  * @param server The MCP server instance
+ * @param sessionAuthInfo The auth info the session was opened with. Completion
+ *   callbacks do not receive the request's auth info, so completions are
+ *   filtered for the session's principal instead
  */
-export function implementResources(server: McpServer): void {
+export function implementResources(server: McpServer, sessionAuthInfo?: AuthInfo): void {
   // Resource for stdlib documents
   server.registerResource(
     'stdlib',
-    new ResourceTemplate('stdlib://{language}/{path}', {
+    new ResourceTemplate('stdlib://{language}/{+path}', {
+      // Listing is handled by the paginated resources/list handler below
       list: undefined,
       complete: {
         language: async (value) => {
           const languages = await listLanguages();
-          return languages.filter(lang => lang.toLowerCase().includes(value.toLowerCase()));
+          return languages.filter(lang =>
+            lang.toLowerCase().includes(value.toLowerCase()) &&
+            accessControl.canAccess(sessionAuthInfo, 'stdlib', lang, 'read')
+          );
         },
-        path: async (value, context) => {
-          if (!context?.arguments?.language) return [];
-          
-          // In a production application, we would implement a more sophisticated
-          // auto-completion system for paths. For the MVP, we'll just do basic filtering.
-          return ['README.md', 'index.md', 'getting-started.md']
-            .filter(p => p.toLowerCase().includes(value.toLowerCase()));
-        }
+        path: async (value, context) =>
+          completeDocumentPath('stdlib', context?.arguments?.language, value, sessionAuthInfo)
       }
     }),
     {
@@ -31,17 +178,22 @@ export function implementResources(server: McpServer): void {
       description: 'Access standard library documents for different programming languages',
       mimeType: 'text/markdown'
     },
-    async (uri, extra) => {
-      // Get the parameters from the template (TypeScript knows these are available from the template pattern)
-      const args = extra.arguments as unknown as { language: string; path: string };
-      const language = args.language;
-      const path = args.path;
+    async (uri, variables, extra) => {
+      // Get the parameters from the template; {+path} may span several segments
+      const args = variables as { language: string; path: string };
       
-      // Combine path parts and normalize
-      const documentPath = `${language}/${path}`;
-      
-      // Read the document
-      const document = await readDocument('stdlib', documentPath);
+      // Decode and combine path parts, then read the document
+      let documentPath;
+      let document;
+      try {
+        documentPath = `${decodeUriPath(args.language)}/${decodeUriPath(args.path)}`;
+        if (!accessControl.canAccess(extra.authInfo, 'stdlib', documentPath, 'read')) {
+          return accessDeniedResult(uri, extra.authInfo);
+        }
+        document = await readDocument('stdlib', documentPath);
+      } catch (error) {
+        return invalidPathResult(uri, error);
+      }
       
       if (!document) {
         return {
@@ -65,21 +217,19 @@ export function implementResources(server: McpServer): void {
   // Resource for spec documents
   server.registerResource(
     'spec',
-    new ResourceTemplate('spec://{project}/{path}', {
+    new ResourceTemplate('spec://{project}/{+path}', {
+      // Listing is handled by the paginated resources/list handler below
       list: undefined,
       complete: {
         project: async (value) => {
           const projects = await listProjects();
-          return projects.filter(proj => proj.toLowerCase().includes(value.toLowerCase()));
+          return projects.filter(proj =>
+            proj.toLowerCase().includes(value.toLowerCase()) &&
+            accessControl.canAccess(sessionAuthInfo, 'spec', proj, 'read')
+          );
         },
-        path: async (value, context) => {
-          if (!context?.arguments?.project) return [];
-          
-          // In a production application, we would implement a more sophisticated
-          // auto-completion system for paths. For the MVP, we'll just do basic filtering.
-          return ['README.md', 'architecture.md', 'api.md']
-            .filter(p => p.toLowerCase().includes(value.toLowerCase()));
-        }
+        path: async (value, context) =>
+          completeDocumentPath('spec', context?.arguments?.project, value, sessionAuthInfo)
       }
     }),
     {
@@ -87,17 +237,22 @@ export function implementResources(server: McpServer): void {
       description: 'Access specification documents for different projects',
       mimeType: 'text/markdown'
     },
-    async (uri, extra) => {
-      // Get the parameters from the template (TypeScript knows these are available from the template pattern)
-      const args = extra.arguments as unknown as { project: string; path: string };
-      const project = args.project;
-      const path = args.path;
-      
-      // Combine path parts and normalize
-      const documentPath = `${project}/${path}`;
+    async (uri, variables, extra) => {
+      // Get the parameters from the template; {+path} may span several segments
+      const args = variables as { project: string; path: string };
       
-      // Read the document
-      const document = await readDocument('spec', documentPath);
+      // Decode and combine path parts, then read the document
+      let documentPath;
+      let document;
+      try {
+        documentPath = `${decodeUriPath(args.project)}/${decodeUriPath(args.path)}`;
+        if (!accessControl.canAccess(extra.authInfo, 'spec', documentPath, 'read')) {
+          return accessDeniedResult(uri, extra.authInfo);
+        }
+        document = await readDocument('spec', documentPath);
+      } catch (error) {
+        return invalidPathResult(uri, error);
+      }
       
       if (!document) {
         return {
@@ -117,4 +272,11 @@ export function implementResources(server: McpServer): void {
       };
     }
   );
+
+  // The SDK's resources/list handler ignores cursors, so replace it with one
+  // that pages through the document index. This must run after the resources
+  // are registered, as registering them installs the SDK's handler
+  server.server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) =>
+    listDocumentResources(request.params?.cursor, extra.authInfo)
+  );
 }
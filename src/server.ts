@@ -1,9 +1,13 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { ensureJaneStructure } from './utils/filesystem.js';
 import { documentIndex } from './utils/search.js';
 import { implementResources } from './resources/index.js';
 import { implementTools } from './tools/index.js';
 import { createTestDocument } from './utils/test-helpers.js';
+import { documentWatcher, isWatchEnabled } from './utils/document-watcher.js';
+import { accessControl } from './utils/access-control.js';
+import { metrics, CollectedMetric } from './utils/metrics.js';
 import logger from './utils/logger.js';
 import { fileURLToPath } from 'url';
 import path from 'path';
@@ -99,17 +103,61 @@ async function initializeTestDocuments(): Promise<void> {
 }
 
 /**
- * Initialize and configure the Jane MCP server
- * @returns The configured McpServer instance
+ * Report the documents in the index and the results of the last scan
  */
-export async function createServer(): Promise<McpServer> {
-  // Create server instance
-  const server = new McpServer({
-    name: 'jane',
-    version: '1.0.0',
-    description: 'Knowledge management server for stdlib and specs'
-  });
+async function collectIndexMetrics(): Promise<CollectedMetric[]> {
+  // Import here to avoid circular dependencies
+  const { getLastScan } = await import('./utils/document-scanner.js');
+  const counts = await documentIndex.countDocuments();
+  const collected: CollectedMetric[] = [{
+    name: 'jane_indexed_documents',
+    help: 'Documents in the index by type and language (stdlib) or project (spec)',
+    type: 'gauge',
+    samples: counts.map(({ type, directory, count }) => ({
+      labels: { type, [type === 'stdlib' ? 'language' : 'project']: directory },
+      value: count
+    }))
+  }];
+
+  const scan = getLastScan();
+  if (scan) {
+    const { indexed, skipped, failed, removed, errors } = scan.result;
+    collected.push(
+      {
+        name: 'jane_last_scan_documents',
+        help: 'Documents indexed, skipped, failed and removed by the last scan',
+        type: 'gauge',
+        samples: Object.entries({ indexed, skipped, failed, removed }).map(([result, value]) => ({ labels: { result }, value }))
+      },
+      { name: 'jane_last_scan_errors', help: 'Errors reported by the last scan', type: 'gauge', samples: [{ value: errors.length }] },
+      { name: 'jane_last_scan_duration_seconds', help: 'Time taken by the last scan', type: 'gauge', samples: [{ value: scan.durationMs / 1000 }] },
+      {
+        name: 'jane_last_scan_timestamp_seconds',
+        help: 'Unix time the last scan finished',
+        type: 'gauge',
+        samples: [{ value: Math.floor(scan.finishedAt.getTime() / 1000) }]
+      }
+    );
+  }
+  return collected;
+}
+
+/**
+ * Options for initializing the Jane MCP server
+ */
+export interface CreateServerOptions {
+  forceReindex?: boolean;  // Re-index every document instead of only changed ones
+  maxRemovalRatio?: number;  // Largest share of the index the scan may remove for deleted documents
+}
 
+/**
+ * Prepare the shared state used by every server instance: the Jane directory,
+ * the ACL, the document index and (if enabled) the document watcher
+ * Must be called once before creating servers with createMcpServer
+ * @param options Initialization options
+ * @throws AccessControlError if the ACL file is invalid
+ */
+export async function initializeServer(options: CreateServerOptions = {}): Promise<void> {
   // Log environment information for debugging
   logger.startup('Jane MCP Server Starting');
   logger.header('Environment Information');
@@ -128,6 +176,9 @@ export async function createServer(): Promise<McpServer> {
     logger.success('Jane directory structure verified');
   }
   
+  // Load the ACL before any client connects; an invalid ACL file stops startup
+  await accessControl.load();
+  
   // Create some test documents if needed
   await initializeTestDocuments();
   
@@ -141,12 +192,15 @@ export async function createServer(): Promise<McpServer> {
   try {
     // Import here to avoid circular dependencies
     const { scanAndIndexDocuments } = await import('./utils/document-scanner.js');
-    const scanResults = await scanAndIndexDocuments();
+    const scanResults = await scanAndIndexDocuments({
+      force: options.forceReindex,
+      maxRemovalRatio: options.maxRemovalRatio
+    });
     
     // Log detailed results
     logger.success(
       `Document scan complete: ${scanResults.indexed} indexed, ` +
-      `${scanResults.skipped} unchanged, ${scanResults.failed} failed`
+      `${scanResults.skipped} unchanged, ${scanResults.failed} failed, ${scanResults.removed} removed`
     );
     
     // If any documents failed, log a warning with the count
@@ -156,16 +210,70 @@ export async function createServer(): Promise<McpServer> {
   } catch (error) {
     logger.error(`Error scanning documents: ${error instanceof Error ? error.message : String(error)}`);
   }
-  
+
+  // Keep the index in sync with edits made outside the server (opt-in)
+  if (isWatchEnabled()) {
+    try {
+      await documentWatcher.start();
+    } catch (error) {
+      logger.error(`Error starting document watcher: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Report the index contents and the last scan on the HTTP server's /metrics
+  metrics.addCollector(collectIndexMetrics);
+}
+
+/**
+ * Release the shared state prepared by initializeServer: stop the document
+ * watcher, then checkpoint and close the document index
+ * Called during shutdown once no tool calls are in flight
+ */
+export async function closeServer(): Promise<void> {
+  await documentWatcher.close();
+  await documentIndex.close();
+}
+
+/**
+ * Create an MCP server instance with Jane's resources and tools
+ * Instances share the document index, so the HTTP transport can create one
+ * per session; each instance can only be connected to a single transport
+ * @param authInfo The auth info the session was opened with, if any
+ * @returns The configured McpServer instance
+ */
+export function createMcpServer(authInfo?: AuthInfo): McpServer {
+  // Create server instance
+  const server = new McpServer({
+    name: 'jane',
+    version: '1.0.0',
+    description: 'Knowledge management server for stdlib and specs'
+  });
+
   // Register resources for stdlib and specs
-  logger.info('Registering document resources...');
-  implementResources(server);
-  logger.success('Resources registered');
+  logger.debug('Registering document resources...');
+  implementResources(server, authInfo);
   
   // Register tools for interacting with documents
-  logger.info('Registering document tools...');
+  logger.debug('Registering document tools...');
   implementTools(server);
-  logger.success('Tools registered');
+
+  // Tell the connected client when the watcher changes the document list
+  const unsubscribe = documentWatcher.onChange(() => server.sendResourceListChanged());
+  server.server.onclose = unsubscribe;
+  
+  return server;
+}
+
+/**
+ * Initialize and configure the Jane MCP server
+ * @param options Initialization options
+ * @returns The configured McpServer instance
+ */
+export async function createServer(options: CreateServerOptions = {}): Promise<McpServer> {
+  await initializeServer(options);
+  
+  const server = createMcpServer();
+  logger.success('Resources and tools registered');
   
   return server;
-}
\ No newline at end of file
+}
@@ -1,17 +1,268 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { z } from 'zod';
 import {
-  DocumentType
+  DocumentType,
+  DocumentMeta,
+  Document,
+  SearchResult,
+  PassageResult
 } from '../types.js';
 import {
   readDocument,
   writeDocument,
   updateDocument,
+  deleteDocument,
+  moveDocument,
   listDocuments,
   listLanguages,
-  listProjects
+  listProjects,
+  documentHistory,
+  RevisionConflictError
 } from '../utils/filesystem.js';
 import { documentIndex } from '../utils/search.js';
+import { groupPassagesByDocument } from '../utils/document-chunks.js';
+import { QueryParseError } from '../utils/query-parser.js';
+import { PathValidationError } from '../utils/path-validation.js';
+import { toDocumentUri } from '../utils/document-uri.js';
+import { hasScope } from '../utils/auth.js';
+import { accessControl } from '../utils/access-control.js';
+import { shutdownCoordinator } from '../utils/shutdown.js';
+import { toolCalls, toolCallDuration } from '../utils/metrics.js';
+import { checkReadiness, formatReadinessReport } from '../utils/readiness.js';
+import { DocumentVersionSummary } from '../utils/document-history.js';
+import { formatUnifiedDiff } from '../utils/text-diff.js';
+import { computeDocumentRevision } from '../utils/document-hash.js';
+import { applyPatch, PatchError } from '../utils/document-patch.js';
+import {
+  parseOutline,
+  findHeading,
+  findHeadingByAnchor,
+  formatHeadingPath,
+  getSectionText,
+  HeadingLookupError,
+  OutlineHeading
+} from '../utils/markdown-outline.js';
+import logger, { LogFields } from '../utils/logger.js';
+
+const log = logger.child('tools');
+
+/**
+ * Log fields identifying the session and request of a tool call
+ */
+function requestFields(extra: { sessionId?: string; requestId?: string | number } | undefined): LogFields {
+  return { sessionId: extra?.sessionId, requestId: extra?.requestId };
+}
+
+/**
+ * Build the path of a document relative to its type directory
+ * @returns The document path, or an error message if the language/project is missing
+ */
+function resolveDocumentPath(
+  type: DocumentType,
+  language: string | undefined,
+  project: string | undefined,
+  path: string
+): { documentPath: string } | { error: string } {
+  if (type === 'stdlib') {
+    if (!language) {
+      return { error: 'Language is required for stdlib documents' };
+    }
+    return { documentPath: `${language}/${path}` };
+  }
+
+  // type === 'spec'
+  if (!project) {
+    return { error: 'Project is required for spec documents' };
+  }
+  return { documentPath: `${project}/${path}` };
+}
+
+/**
+ * Build an error result for a tool call
+ */
+function errorResult(text: string) {
+  return {
+    content: [{
+      type: 'text' as const,
+      text
+    }],
+    isError: true
+  };
+}
+
+/**
+ * Wrap a tool handler so that document paths failing validation are
+ * reported as a tool error instead of an internal error
+ */
+function withPathValidation<Args extends unknown[], Result>(
+  handler: (...args: Args) => Promise<Result>
+): (...args: Args) => Promise<Result | ReturnType<typeof errorResult>> {
+  return async (...args) => {
+    try {
+      return await handler(...args);
+    } catch (error) {
+      if (error instanceof PathValidationError) {
+        return errorResult(error.message);
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Wrap a tool handler that changes documents so that it is only run for
+ * clients with the "write" scope
+ */
+function withWriteAccess<Args, Extra extends { authInfo?: AuthInfo }, Result>(
+  handler: (args: Args, extra: Extra) => Promise<Result>
+): (args: Args, extra: Extra) => Promise<Result | ReturnType<typeof errorResult>> {
+  return async (args, extra) => {
+    if (!hasScope(extra.authInfo, 'write')) {
+      return errorResult(`Permission denied: "${extra.authInfo?.clientId}" has read-only access and cannot change documents`);
+    }
+    return handler(args, extra);
+  };
+}
+
+/**
+ * Wrap a tool handler so that shutdown waits for calls in progress to finish,
+ * and so that each call is counted and timed in the metrics
+ * Calls that throw are logged with their session and request IDs
+ */
+function withToolTracking<Args extends unknown[], Result>(
+  name: string,
+  handler: (...args: Args) => Promise<Result>
+): (...args: Args) => Promise<Result> {
+  return (...args) => shutdownCoordinator.track(async () => {
+    const stopTimer = toolCallDuration.startTimer({ tool: name });
+    let status = 'error';
+    try {
+      const result = await handler(...args);
+      if (!(result as { isError?: boolean }).isError) {
+        status = 'success';
+      }
+      return result;
+    } catch (error) {
+      // The request handler extra is always the last argument
+      const extra = args[args.length - 1] as Parameters<typeof requestFields>[0];
+      log.error(`Tool ${name} failed: ${error instanceof Error ? error.message : String(error)}`, {
+        tool: name,
+        ...requestFields(extra),
+        error
+      });
+      throw error;
+    } finally {
+      stopTimer();
+      toolCalls.inc({ tool: name, status });
+    }
+  });
+}
+
+/**
+ * Input schema of the operations of patch_document
+ */
+const headingAddress = z.string().describe('Heading text, or a path of headings separated by " > " (e.g. "API > Authentication")');
+const patchOperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('replace_section'),
+    heading: headingAddress,
+    content: z.string().describe('New section body; the heading itself is kept')
+  }),
+  z.object({
+    op: z.literal('append_to_section'),
+    heading: headingAddress,
+    content: z.string().describe('Markdown added at the end of the section, after its subsections')
+  }),
+  z.object({
+    op: z.literal('insert_after_heading'),
+    heading: headingAddress,
+    content: z.string().describe('Markdown added directly below the heading')
+  }),
+  z.object({
+    op: z.literal('find_replace'),
+    find: z.string().min(1).describe('Exact text to find (not a regular expression)'),
+    replace: z.string().describe('Replacement text'),
+    expectedCount: z.number().int().positive().optional().describe('Number of occurrences expected (default 1); the patch fails otherwise'),
+    heading: headingAddress.optional().describe('Only search the section under this heading')
+  })
+]);
+
+/**
+ * Describe a heading of an outline on one line, indented by level
+ * Line numbers count from 1 at the first line after the frontmatter
+ */
+function formatOutlineHeading(heading: OutlineHeading): string {
+  const indent = '  '.repeat(heading.level - 1);
+  return `${indent}- ${heading.text || '(untitled)'} (#${heading.anchor}, lines ${heading.line + 1}-${heading.endLine})`;
+}
+
+/**
+ * Format a passage found by search: where it is in its document, then the
+ * passage itself
+ */
+function formatPassage(passage: PassageResult): string {
+  let location = '(before the first heading)';
+  if (passage.wholeDocument) {
+    location = '(whole document)';
+  } else if (passage.headingPath.length > 0) {
+    location = formatHeadingPath({ path: passage.headingPath });
+  }
+  return `**${location}** (lines ${passage.startLine}-${passage.endLine})\n\n${passage.text}`;
+}
+
+/**
+ * Describe a version in a document's history on one line
+ */
+function formatVersion(version: DocumentVersionSummary): string {
+  const action = version.action === 'restore' ? `restore of version ${version.restoredFrom}` : version.action;
+  const author = version.author ? ` by ${version.author}` : '';
+  return `Version ${version.version}: ${action}${author} at ${version.timestamp} - "${version.title}"`;
+}
+
+/**
+ * List the metadata fields that differ between two versions
+ * The update time changes with every write, so it is left out
+ */
+function describeMetaChanges(from: DocumentMeta, to: DocumentMeta): string[] {
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+  keys.delete('updatedAt');
+  return [...keys]
+    .filter(key => JSON.stringify(from[key]) !== JSON.stringify(to[key]))
+    .map(key => `- ${key}: ${JSON.stringify(from[key]) ?? '(none)'} -> ${JSON.stringify(to[key]) ?? '(none)'}`);
+}
+
+/**
+ * Describe a revision conflict, showing the current version of the document
+ * so the client can merge its changes and retry with the current revision
+ */
+function formatConflict(conflict: RevisionConflictError): string {
+  const { current } = conflict;
+  return `${conflict.message}. Merge your changes into the current version below and retry with its revision.\n\n` +
+    `# ${current.meta.title || 'Untitled'}\n` +
+    `**Revision:** ${computeDocumentRevision(current)}\n\n${current.content}`;
+}
+
+/**
+ * Check the ACL for a document or directory
+ * Access is checked before the document is read, so a denied request does not
+ * reveal whether the document exists
+ * @returns An error result if the client lacks the access level, otherwise null
+ */
+function checkAccess(
+  authInfo: AuthInfo | undefined,
+  type: DocumentType,
+  documentPath: string,
+  level: 'read' | 'write'
+): ReturnType<typeof errorResult> | null {
+  if (accessControl.canAccess(authInfo, type, documentPath, level)) {
+    return null;
+  }
+  const kind = type === 'spec' ? 'project' : 'language';
+  return errorResult(
+    `Access denied: "${authInfo?.clientId}" does not have ${level} access to ${kind} "${documentPath.split('/')[0]}"`
+  );
+}
 
 /**
  * Implements all tools for the Jane server
@@ -29,10 +280,13 @@ export function implementTools(server: McpServer): void {
         path: z.string().describe('The path to the stdlib document within the language directory')
       }
     },
-    async ({ language, path }) => {
+    withToolTracking('get_stdlib', withPathValidation(async ({ language, path }, extra) => {
       // Combine path parts and normalize
       const documentPath = `${language}/${path}`;
       
+      const denied = checkAccess(extra.authInfo, 'stdlib', documentPath, 'read');
+      if (denied) return denied;
+      
       // Read the document
       const document = await readDocument('stdlib', documentPath);
       
@@ -46,7 +300,8 @@ export function implementTools(server: McpServer): void {
         };
       }
       
-      const formattedOutput = `# ${document.meta.title || 'Untitled'}\n\n${document.content}`;
+      const formattedOutput = `# ${document.meta.title || 'Untitled'}\n` +
+        `**Revision:** ${computeDocumentRevision(document)}\n\n${document.content}`;
       
       return {
         content: [{
@@ -54,7 +309,7 @@ export function implementTools(server: McpServer): void {
           text: formattedOutput
         }]
       };
-    }
+    }))
   );
 
   // Tool to get a spec document
@@ -68,10 +323,13 @@ export function implementTools(server: McpServer): void {
         path: z.string().describe('The path to the spec document within the project directory')
       }
     },
-    async ({ project, path }) => {
+    withToolTracking('get_spec', withPathValidation(async ({ project, path }, extra) => {
       // Combine path parts and normalize
       const documentPath = `${project}/${path}`;
       
+      const denied = checkAccess(extra.authInfo, 'spec', documentPath, 'read');
+      if (denied) return denied;
+      
       // Read the document
       const document = await readDocument('spec', documentPath);
       
@@ -85,7 +343,8 @@ export function implementTools(server: McpServer): void {
         };
       }
       
-      const formattedOutput = `# ${document.meta.title || 'Untitled'}\n\n${document.content}`;
+      const formattedOutput = `# ${document.meta.title || 'Untitled'}\n` +
+        `**Revision:** ${computeDocumentRevision(document)}\n\n${document.content}`;
       
       return {
         content: [{
@@ -93,7 +352,110 @@ export function implementTools(server: McpServer): void {
           text: formattedOutput
         }]
       };
-    }
+    }))
+  );
+
+  // Tool to get the heading outline of a document
+  server.registerTool(
+    'get_document_outline',
+    {
+      title: 'Get Document Outline',
+      description: 'List the headings of a document as a tree, with each heading\'s anchor and the lines its section spans. ' +
+        'Use it to find the part of a large document you need, then fetch it with get_section',
+      inputSchema: {
+        type: z.enum(['stdlib', 'spec']).describe('Document type'),
+        language: z.string().optional().describe('Required for stdlib documents'),
+        project: z.string().optional().describe('Required for spec documents'),
+        path: z.string().describe('Path within the language/project directory'),
+        maxDepth: z.number().int().min(1).max(6).optional().describe('Only list headings up to this level (1 to 6)')
+      }
+    },
+    withToolTracking('get_document_outline', withPathValidation(async ({ type, language, project, path, maxDepth }, extra) => {
+      const resolved = resolveDocumentPath(type, language, project, path);
+      if ('error' in resolved) {
+        return errorResult(resolved.error);
+      }
+      const { documentPath } = resolved;
+      
+      const denied = checkAccess(extra.authInfo, type, documentPath, 'read');
+      if (denied) return denied;
+      
+      const document = await readDocument(type, documentPath);
+      if (!document) {
+        return errorResult(`Document not found: ${documentPath}`);
+      }
+      
+      const outline = parseOutline(document.content)
+        .filter(heading => maxDepth === undefined || heading.level <= maxDepth);
+      const body = outline.length > 0
+        ? outline.map(formatOutlineHeading).join('\n')
+        : 'The document has no headings';
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `# Outline of ${document.meta.title || 'Untitled'}\n` +
+            `**Revision:** ${computeDocumentRevision(document)}\n\n${body}`
+        }]
+      };
+    }))
+  );
+
+  // Tool to get one section of a document
+  server.registerTool(
+    'get_section',
+    {
+      title: 'Get Document Section',
+      description: 'Retrieve one section of a document: a heading, its body and its subsections. ' +
+        'Address the section by heading text or path, or by the anchor shown by get_document_outline',
+      inputSchema: {
+        type: z.enum(['stdlib', 'spec']).describe('Document type'),
+        language: z.string().optional().describe('Required for stdlib documents'),
+        project: z.string().optional().describe('Required for spec documents'),
+        path: z.string().describe('Path within the language/project directory'),
+        heading: headingAddress.optional(),
+        anchor: z.string().optional().describe('Heading anchor from get_document_outline (e.g. "#authentication")')
+      }
+    },
+    withToolTracking('get_section', withPathValidation(async ({ type, language, project, path, heading, anchor }, extra) => {
+      if ((heading === undefined) === (anchor === undefined)) {
+        return errorResult('Provide either heading or anchor');
+      }
+      
+      const resolved = resolveDocumentPath(type, language, project, path);
+      if ('error' in resolved) {
+        return errorResult(resolved.error);
+      }
+      const { documentPath } = resolved;
+      
+      const denied = checkAccess(extra.authInfo, type, documentPath, 'read');
+      if (denied) return denied;
+      
+      const document = await readDocument(type, documentPath);
+      if (!document) {
+        return errorResult(`Document not found: ${documentPath}`);
+      }
+      
+      const outline = parseOutline(document.content);
+      let section: OutlineHeading;
+      try {
+        section = anchor !== undefined ? findHeadingByAnchor(outline, anchor) : findHeading(outline, heading!);
+      } catch (error) {
+        if (error instanceof HeadingLookupError) {
+          return errorResult(`${type}://${documentPath}: ${error.message}`);
+        }
+        throw error;
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `# ${document.meta.title || 'Untitled'}: ${formatHeadingPath(section)}\n` +
+            `**Revision:** ${computeDocumentRevision(document)}\n` +
+            `**Lines:** ${section.line + 1}-${section.endLine}\n\n${getSectionText(document.content, section)}`
+        }]
+      };
+    }))
   );
 
   // Tool to list stdlib documents
@@ -106,8 +468,11 @@ export function implementTools(server: McpServer): void {
         language: z.string().optional().describe('Optional language filter')
       }
     },
-    async ({ language }) => {
+    withToolTracking('list_stdlibs', withPathValidation(async ({ language }, extra) => {
       if (language) {
+        const denied = checkAccess(extra.authInfo, 'stdlib', language, 'read');
+        if (denied) return denied;
+        
         // List documents for a specific language
         const documents = await listDocuments('stdlib', language);
         
@@ -131,8 +496,9 @@ export function implementTools(server: McpServer): void {
           }]
         };
       } else {
-        // List all available languages
-        const languages = await listLanguages();
+        // List all available languages the client may read
+        const languages = (await listLanguages())
+          .filter(lang => accessControl.canAccess(extra.authInfo, 'stdlib', lang, 'read'));
         
         if (languages.length === 0) {
           return {
@@ -152,7 +518,7 @@ export function implementTools(server: McpServer): void {
           }]
         };
       }
-    }
+    }))
   );
 
   // Tool to list spec documents
@@ -165,8 +531,11 @@ export function implementTools(server: McpServer): void {
         project: z.string().optional().describe('Optional project filter')
       }
     },
-    async ({ project }) => {
+    withToolTracking('list_specs', withPathValidation(async ({ project }, extra) => {
       if (project) {
+        const denied = checkAccess(extra.authInfo, 'spec', project, 'read');
+        if (denied) return denied;
+        
         // List documents for a specific project
         const documents = await listDocuments('spec', project);
         
@@ -190,8 +559,9 @@ export function implementTools(server: McpServer): void {
           }]
         };
       } else {
-        // List all available projects
-        const projects = await listProjects();
+        // List all available projects the client may read
+        const projects = (await listProjects())
+          .filter(proj => accessControl.canAccess(extra.authInfo, 'spec', proj, 'read'));
         
         if (projects.length === 0) {
           return {
@@ -211,7 +581,7 @@ export function implementTools(server: McpServer): void {
           }]
         };
       }
-    }
+    }))
   );
 
   // Tool to search documents
@@ -219,24 +589,46 @@ export function implementTools(server: McpServer): void {
     'search',
     {
       title: 'Search Documents',
-      description: 'Search for documents by content or metadata',
+      description: 'Search documents by content or metadata and return the best-matching passages, ranked by relevance, ' +
+        'each with its heading path and line numbers. ' +
+        'Supports "quoted phrases", OR, NOT (or -term), prefix* matching, parentheses for grouping, ' +
+        'and field scopes title:, tag:, author: and path: (e.g. title:"api spec" -tag:draft). ' +
+        'A * query, or includeContent, returns whole documents instead of passages',
       inputSchema: {
         query: z.string().describe('The search query'),
         type: z.enum(['stdlib', 'spec']).optional().describe('Optional document type filter'),
         language: z.string().optional().describe('Optional language filter (for stdlib)'),
         project: z.string().optional().describe('Optional project filter (for specs)'),
-        includeContent: z.boolean().optional().default(false).describe('Whether to include full content in results')
+        includeContent: z.boolean().optional().default(false).describe('Whether to return matching documents with their full content instead of passages'),
+        groupByDocument: z.boolean().optional().default(false).describe('Whether to group passages under their documents'),
+        limit: z.number().int().positive().max(100).optional().default(10).describe('Maximum number of passages')
       }
     },
-    async ({ query, type, language, project, includeContent }) => {
-      const results = await documentIndex.search(query, {
-        type,
-        language,
-        project,
-        includeContent
-      });
+    withToolTracking('search', async ({ query, type, language, project, includeContent, groupByDocument, limit }, extra) => {
+      const wildcard = query.trim() === '*' || query.trim() === '';
+      let results: SearchResult[] = [];
+      let passages: PassageResult[] | undefined;
+      try {
+        const scope = { type, language, project, filter: accessControl.readFilter(extra.authInfo) };
+        if (wildcard || includeContent) {
+          results = await documentIndex.search(query, { ...scope, includeContent });
+        } else {
+          passages = await documentIndex.searchPassages(query, { ...scope, limit });
+        }
+      } catch (error) {
+        if (error instanceof QueryParseError) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Invalid search query: ${error.message}`
+            }],
+            isError: true
+          };
+        }
+        throw error;
+      }
       
-      if (results.length === 0) {
+      if ((passages ?? results).length === 0) {
         return {
           content: [{
             type: 'text',
@@ -245,11 +637,33 @@ export function implementTools(server: McpServer): void {
         };
       }
       
+      if (passages) {
+        const documentHeader = (doc: Document, revision?: string) =>
+          `## ${doc.meta.title}\n**URI:** ${toDocumentUri(doc.type, doc.path)}\n` +
+          (revision ? `**Revision:** ${revision}\n` : '');
+        const formattedPassages = groupByDocument
+          ? groupPassagesByDocument(passages).map(group =>
+            `${documentHeader(group.document, group.revision)}\n${group.passages.map(formatPassage).join('\n\n')}`)
+          : passages.map(passage =>
+            `${documentHeader(passage.document, passage.revision)}\n${formatPassage(passage)}`);
+        
+        return {
+          content: [{
+            type: 'text',
+            text: `Found ${passages.length} passages for "${query}":\n\n${formattedPassages.join('\n\n---\n\n')}`
+          }]
+        };
+      }
+      
       const formattedResults = results.map(result => {
         const doc = result.document;
         const meta = doc.meta;
         let output = `## ${meta.title}\n`;
-        output += `**Path:** ${doc.type}://${doc.path}\n`;
+        output += `**URI:** ${toDocumentUri(doc.type, doc.path)}\n`;
+        
+        if (result.revision) {
+          output += `**Revision:** ${result.revision}\n`;
+        }
         
         if (meta.description) {
           output += `**Description:** ${meta.description}\n`;
@@ -278,7 +692,7 @@ export function implementTools(server: McpServer): void {
           text: `Found ${results.length} results for "${query}":\n\n${formattedResults}`
         }]
       };
-    }
+    })
   );
 
   // Tool to create a document
@@ -299,7 +713,7 @@ export function implementTools(server: McpServer): void {
         content: z.string().describe('Document content (markdown)')
       }
     },
-    async ({ type, language, project, path, title, description, author, tags, content }) => {
+    withToolTracking('create_document', withWriteAccess(withPathValidation(async ({ type, language, project, path, title, description, author, tags, content }, extra) => {
       // Validate path based on document type
       let documentPath: string;
       if (type === 'stdlib') {
@@ -327,6 +741,9 @@ export function implementTools(server: McpServer): void {
         documentPath = `${project}/${path}`;
       }
       
+      const denied = checkAccess(extra.authInfo, type, documentPath, 'write');
+      if (denied) return denied;
+      
       // Check if document already exists
       const existingDoc = await readDocument(type, documentPath);
       if (existingDoc) {
@@ -351,11 +768,12 @@ export function implementTools(server: McpServer): void {
           tags,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString()
-        }
+        },
+        { author: extra.authInfo?.clientId }
       );
       
       if (!result.success) {
-        console.error(`Document creation failed for ${type}://${documentPath}: ${result.error || 'Unknown error'}`);
+        log.error(`Document creation failed for ${type}://${documentPath}: ${result.error || 'Unknown error'}`, requestFields(extra));
         return {
           content: [{
             type: 'text',
@@ -377,7 +795,7 @@ export function implementTools(server: McpServer): void {
           text: `Document created successfully at ${type}://${documentPath}`
         }]
       };
-    }
+    })))
   );
 
   // Tool to update a document
@@ -396,10 +814,12 @@ export function implementTools(server: McpServer): void {
         author: z.string().optional().describe('Document author'),
         tags: z.array(z.string()).optional().describe('Document tags'),
         content: z.string().optional().describe('Document content (markdown)'),
-        updateMeta: z.boolean().optional().default(true).describe('Whether to update metadata')
+        updateMeta: z.boolean().optional().default(true).describe('Whether to update metadata'),
+        expectedRevision: z.string().optional().describe('Revision shown by get_stdlib, get_spec or search; ' +
+          'the update fails if the document has changed since')
       }
     },
-    async ({ type, language, project, path, title, description, author, tags, content, updateMeta }) => {
+    withToolTracking('update_document', withWriteAccess(withPathValidation(async ({ type, language, project, path, title, description, author, tags, content, updateMeta, expectedRevision }, extra) => {
       // Validate path based on document type
       let documentPath: string;
       if (type === 'stdlib') {
@@ -427,6 +847,9 @@ export function implementTools(server: McpServer): void {
         documentPath = `${project}/${path}`;
       }
       
+      const denied = checkAccess(extra.authInfo, type, documentPath, 'write');
+      if (denied) return denied;
+      
       // Check if document exists
       const existingDoc = await readDocument(type, documentPath);
       if (!existingDoc) {
@@ -439,21 +862,30 @@ export function implementTools(server: McpServer): void {
         };
       }
       
-      // Update the document
-      const updatedDoc = await updateDocument(
-        type,
-        documentPath,
-        {
-          content: content !== undefined ? content : undefined,
-          meta: updateMeta ? {
-            title: title !== undefined ? title : undefined,
-            description: description !== undefined ? description : undefined,
-            author: author !== undefined ? author : undefined,
-            tags: tags !== undefined ? tags : undefined,
-            updatedAt: new Date().toISOString()
-          } : undefined
+      // Update the document, unless it changed since the revision the client read
+      let updatedDoc;
+      try {
+        updatedDoc = await updateDocument(
+          type,
+          documentPath,
+          {
+            content: content !== undefined ? content : undefined,
+            meta: updateMeta ? {
+              title: title !== undefined ? title : undefined,
+              description: description !== undefined ? description : undefined,
+              author: author !== undefined ? author : undefined,
+              tags: tags !== undefined ? tags : undefined,
+              updatedAt: new Date().toISOString()
+            } : undefined
+          },
+          { author: extra.authInfo?.clientId, expectedRevision }
+        );
+      } catch (error) {
+        if (error instanceof RevisionConflictError) {
+          return errorResult(formatConflict(error));
         }
-      );
+        throw error;
+      }
       
       if (!updatedDoc) {
         return {
@@ -471,9 +903,396 @@ export function implementTools(server: McpServer): void {
       return {
         content: [{
           type: 'text',
-          text: `Document updated successfully at ${type}://${documentPath}`
+          text: `Document updated successfully at ${type}://${documentPath} (revision ${computeDocumentRevision(updatedDoc)})`
         }]
       };
-    }
+    })))
+  );
+
+  // Tool to edit part of a document
+  server.registerTool(
+    'patch_document',
+    {
+      title: 'Patch Document',
+      description: 'Edit sections of a document without resending all of it. Sections are addressed by heading and ' +
+        'include their subsections. Operations are applied in order, and if any fails none are applied: ' +
+        'replace_section, append_to_section, insert_after_heading, and find_replace (which fails unless the text ' +
+        'occurs the expected number of times)',
+      inputSchema: {
+        type: z.enum(['stdlib', 'spec']).describe('Document type'),
+        language: z.string().optional().describe('Required for stdlib documents'),
+        project: z.string().optional().describe('Required for spec documents'),
+        path: z.string().describe('Path within the language/project directory'),
+        operations: z.array(patchOperationSchema).min(1).describe('Edits to apply, in order'),
+        expectedRevision: z.string().optional().describe('Revision shown by get_stdlib, get_spec or search; ' +
+          'the patch fails if the document has changed since')
+      }
+    },
+    withToolTracking('patch_document', withWriteAccess(withPathValidation(async ({ type, language, project, path, operations, expectedRevision }, extra) => {
+      const resolved = resolveDocumentPath(type, language, project, path);
+      if ('error' in resolved) {
+        return errorResult(resolved.error);
+      }
+      const { documentPath } = resolved;
+      
+      const denied = checkAccess(extra.authInfo, type, documentPath, 'write');
+      if (denied) return denied;
+      
+      // Check if document exists
+      const existingDoc = await readDocument(type, documentPath);
+      if (!existingDoc) {
+        return errorResult(`Document not found at ${type}://${documentPath}`);
+      }
+      
+      // The patch is applied to the document as it is when the update runs
+      let patchedDoc;
+      try {
+        patchedDoc = await updateDocument(
+          type,
+          documentPath,
+          current => ({ content: applyPatch(current.content, operations) }),
+          { author: extra.authInfo?.clientId, expectedRevision }
+        );
+      } catch (error) {
+        if (error instanceof RevisionConflictError) {
+          return errorResult(formatConflict(error));
+        }
+        if (error instanceof PatchError) {
+          return errorResult(`Failed to patch ${type}://${documentPath}: ${error.message}. The document was not changed`);
+        }
+        throw error;
+      }
+      
+      if (!patchedDoc) {
+        return errorResult(`Failed to patch document at ${type}://${documentPath}`);
+      }
+      
+      // Update the document index
+      await documentIndex.addOrUpdateDocument(patchedDoc);
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Document patched successfully at ${type}://${documentPath}: ${operations.length} operations applied ` +
+            `(revision ${computeDocumentRevision(patchedDoc)})`
+        }]
+      };
+    })))
+  );
+
+  // Tool to delete a document
+  server.registerTool(
+    'delete_document',
+    {
+      title: 'Delete Document',
+      description: 'Delete a document from disk and remove it from the search index',
+      inputSchema: {
+        type: z.enum(['stdlib', 'spec']).describe('Document type'),
+        language: z.string().optional().describe('Required for stdlib documents'),
+        project: z.string().optional().describe('Required for spec documents'),
+        path: z.string().describe('Path within the language/project directory')
+      }
+    },
+    withToolTracking('delete_document', withWriteAccess(withPathValidation(async ({ type, language, project, path }, extra) => {
+      const resolved = resolveDocumentPath(type, language, project, path);
+      if ('error' in resolved) {
+        return errorResult(resolved.error);
+      }
+      const { documentPath } = resolved;
+      
+      const denied = checkAccess(extra.authInfo, type, documentPath, 'write');
+      if (denied) return denied;
+      
+      // Check if document exists
+      const existingDoc = await readDocument(type, documentPath);
+      if (!existingDoc) {
+        return errorResult(`Document not found at ${type}://${documentPath}`);
+      }
+      
+      // Remove the document from the index first so a failed file deletion
+      // can be rolled back by re-indexing the document we just read
+      try {
+        await documentIndex.removeDocument(type, documentPath);
+      } catch (error) {
+        return errorResult(
+          `Failed to remove ${type}://${documentPath} from the index: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      
+      const result = await deleteDocument(type, documentPath, { author: extra.authInfo?.clientId });
+      if (!result.success) {
+        await documentIndex.addOrUpdateDocument(existingDoc);
+        return errorResult(`Failed to delete document at ${type}://${documentPath}: ${result.error || 'Unknown error'}`);
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Document deleted successfully at ${type}://${documentPath}`
+        }]
+      };
+    })))
+  );
+
+  // Tool to move or rename a document
+  server.registerTool(
+    'move_document',
+    {
+      title: 'Move Document',
+      description: 'Move or rename a document, optionally to another language or project, keeping the search index in sync',
+      inputSchema: {
+        type: z.enum(['stdlib', 'spec']).describe('Document type'),
+        language: z.string().optional().describe('Current language (required for stdlib documents)'),
+        project: z.string().optional().describe('Current project (required for spec documents)'),
+        path: z.string().describe('Current path within the language/project directory'),
+        newLanguage: z.string().optional().describe('Target language (defaults to the current language)'),
+        newProject: z.string().optional().describe('Target project (defaults to the current project)'),
+        newPath: z.string().optional().describe('Target path within the language/project directory (defaults to the current path)'),
+        force: z.boolean().optional().default(false).describe('Overwrite an existing document at the target')
+      }
+    },
+    withToolTracking('move_document', withWriteAccess(withPathValidation(async ({ type, language, project, path, newLanguage, newProject, newPath, force }, extra) => {
+      const source = resolveDocumentPath(type, language, project, path);
+      if ('error' in source) {
+        return errorResult(source.error);
+      }
+      
+      const target = resolveDocumentPath(
+        type,
+        newLanguage ?? language,
+        newProject ?? project,
+        newPath ?? path
+      );
+      if ('error' in target) {
+        return errorResult(target.error);
+      }
+      
+      const fromPath = source.documentPath;
+      const toPath = target.documentPath;
+      
+      if (fromPath === toPath) {
+        return errorResult(`Source and target are the same: ${type}://${fromPath}`);
+      }
+      
+      const denied = checkAccess(extra.authInfo, type, fromPath, 'write') ??
+        checkAccess(extra.authInfo, type, toPath, 'write');
+      if (denied) return denied;
+      
+      // Check if document exists
+      const existingDoc = await readDocument(type, fromPath);
+      if (!existingDoc) {
+        return errorResult(`Document not found at ${type}://${fromPath}`);
+      }
+      
+      // Keep the document being overwritten, so it can be put back if the
+      // index cannot be updated after the move
+      const overwritten = force ? await readDocument(type, toPath) : null;
+      
+      const result = await moveDocument(type, fromPath, toPath, { overwrite: force, author: extra.authInfo?.clientId });
+      if (!result.success) {
+        const hint = !force && result.error?.startsWith('Document already exists') ? ' (use force to overwrite)' : '';
+        return errorResult(`Failed to move document to ${type}://${toPath}: ${result.error || 'Unknown error'}${hint}`);
+      }
+      
+      // Update the document index, moving the file back and rewriting any
+      // document it overwrote if that fails; the index is left unchanged
+      try {
+        const renamed = await documentIndex.renameDocument(type, fromPath, toPath);
+        if (!renamed) {
+          await documentIndex.addOrUpdateDocument({ ...existingDoc, path: toPath });
+        }
+      } catch (error) {
+        await moveDocument(type, toPath, fromPath);
+        if (overwritten) {
+          await writeDocument(type, toPath, overwritten.content, overwritten.meta, { author: extra.authInfo?.clientId });
+        }
+        return errorResult(
+          `Failed to update the index when moving ${type}://${fromPath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      
+      return {
+        content: [{
+          type: 'text',
+          text: `Document moved successfully from ${type}://${fromPath} to ${type}://${toPath}`
+        }]
+      };
+    })))
+  );
+
+  // Tool to list the recorded versions of a document
+  server.registerTool(
+    'get_document_history',
+    {
+      title: 'Get Document History',
+      description: 'List the recorded versions of a document, newest first. Every create, update and restore records a version; ' +
+        'deleted documents keep their history',
+      inputSchema: {
+        type: z.enum(['stdlib', 'spec']).describe('Document type'),
+        language: z.string().optional().describe('Required for stdlib documents'),
+        project: z.string().optional().describe('Required for spec documents'),
+        path: z.string().describe('Path within the language/project directory'),
+        limit: z.number().int().positive().optional().default(20).describe('Maximum number of versions to list')
+      }
+    },
+    withToolTracking('get_document_history', withPathValidation(async ({ type, language, project, path, limit }, extra) => {
+      const resolved = resolveDocumentPath(type, language, project, path);
+      if ('error' in resolved) {
+        return errorResult(resolved.error);
+      }
+      const { documentPath } = resolved;
+      
+      const denied = checkAccess(extra.authInfo, type, documentPath, 'read');
+      if (denied) return denied;
+      
+      const versions = await documentHistory.list(type, documentPath);
+      if (versions.length === 0) {
+        return errorResult(`No history recorded for ${type}://${documentPath}`);
+      }
+      
+      const shown = versions.slice(-limit).reverse();
+      const more = versions.length > shown.length ? `\n\n${versions.length - shown.length} older versions not shown` : '';
+      return {
+        content: [{
+          type: 'text',
+          text: `History of ${type}://${documentPath} (${versions.length} versions):\n\n` +
+            shown.map(version => `- ${formatVersion(version)}`).join('\n') + more
+        }]
+      };
+    }))
+  );
+
+  // Tool to compare two versions of a document
+  server.registerTool(
+    'diff_document_versions',
+    {
+      title: 'Diff Document Versions',
+      description: 'Show the changes between two recorded versions of a document as a unified diff of the content, ' +
+        'along with any metadata changes',
+      inputSchema: {
+        type: z.enum(['stdlib', 'spec']).describe('Document type'),
+        language: z.string().optional().describe('Required for stdlib documents'),
+        project: z.string().optional().describe('Required for spec documents'),
+        path: z.string().describe('Path within the language/project directory'),
+        fromVersion: z.number().int().positive().describe('Older version to compare'),
+        toVersion: z.number().int().positive().optional().describe('Newer version to compare (defaults to the latest version)')
+      }
+    },
+    withToolTracking('diff_document_versions', withPathValidation(async ({ type, language, project, path, fromVersion, toVersion }, extra) => {
+      const resolved = resolveDocumentPath(type, language, project, path);
+      if ('error' in resolved) {
+        return errorResult(resolved.error);
+      }
+      const { documentPath } = resolved;
+      
+      const denied = checkAccess(extra.authInfo, type, documentPath, 'read');
+      if (denied) return denied;
+      
+      const from = await documentHistory.get(type, documentPath, fromVersion);
+      if (!from) {
+        return errorResult(`Version ${fromVersion} of ${type}://${documentPath} not found`);
+      }
+      const to = toVersion !== undefined
+        ? await documentHistory.get(type, documentPath, toVersion)
+        : await documentHistory.latest(type, documentPath);
+      if (!to) {
+        return errorResult(`Version ${toVersion} of ${type}://${documentPath} not found`);
+      }
+      
+      const metaChanges = describeMetaChanges(from.meta, to.meta);
+      const diff = formatUnifiedDiff(from.content, to.content, {
+        old: `${type}://${documentPath} (version ${from.version})`,
+        new: `${type}://${documentPath} (version ${to.version})`
+      });
+      
+      const sections = [`Changes to ${type}://${documentPath} from version ${from.version} to version ${to.version}:`];
+      if (metaChanges.length > 0) {
+        sections.push(`Metadata:\n${metaChanges.join('\n')}`);
+      }
+      sections.push(diff ? `Content:\n\`\`\`diff\n${diff}\n\`\`\`` : 'Content: unchanged');
+      
+      return {
+        content: [{
+          type: 'text',
+          text: sections.join('\n\n')
+        }]
+      };
+    }))
+  );
+
+  // Tool to bring back an earlier version of a document
+  server.registerTool(
+    'restore_document_version',
+    {
+      title: 'Restore Document Version',
+      description: 'Restore the content and metadata of a document from a recorded version. The restore is recorded as ' +
+        'a new version, so it can be undone; deleted documents can be restored too',
+      inputSchema: {
+        type: z.enum(['stdlib', 'spec']).describe('Document type'),
+        language: z.string().optional().describe('Required for stdlib documents'),
+        project: z.string().optional().describe('Required for spec documents'),
+        path: z.string().describe('Path within the language/project directory'),
+        version: z.number().int().positive().describe('Version to restore')
+      }
+    },
+    withToolTracking('restore_document_version', withWriteAccess(withPathValidation(async ({ type, language, project, path, version }, extra) => {
+      const resolved = resolveDocumentPath(type, language, project, path);
+      if ('error' in resolved) {
+        return errorResult(resolved.error);
+      }
+      const { documentPath } = resolved;
+      
+      const denied = checkAccess(extra.authInfo, type, documentPath, 'write');
+      if (denied) return denied;
+      
+      const restored = await documentHistory.get(type, documentPath, version);
+      if (!restored) {
+        return errorResult(`Version ${version} of ${type}://${documentPath} not found`);
+      }
+      
+      const result = await writeDocument(type, documentPath, restored.content, restored.meta, {
+        author: extra.authInfo?.clientId,
+        restoredFrom: version
+      });
+      if (!result.success) {
+        return errorResult(`Failed to restore ${type}://${documentPath}: ${result.error || 'Unknown error'}`);
+      }
+      
+      // Read the restored document to update the index
+      const restoredDoc = await readDocument(type, documentPath);
+      if (restoredDoc) {
+        await documentIndex.addOrUpdateDocument(restoredDoc);
+      }
+      
+      const latest = await documentHistory.latest(type, documentPath);
+      return {
+        content: [{
+          type: 'text',
+          text: `Restored ${type}://${documentPath} to version ${version}` +
+            (latest ? ` (recorded as version ${latest.version})` : '')
+        }]
+      };
+    })))
+  );
+
+  // Tool to check whether the server is healthy enough to serve documents
+  server.registerTool(
+    'check_readiness',
+    {
+      title: 'Check Server Readiness',
+      description: 'Check the health of the document index and the Jane directory: database integrity, ' +
+        'full-text index consistency, whether the Jane directory is writable and whether the last scan succeeded',
+      inputSchema: {}
+    },
+    withToolTracking('check_readiness', async () => {
+      const report = await checkReadiness();
+      
+      return {
+        content: [{
+          type: 'text',
+          text: formatReadinessReport(report)
+        }]
+      };
+    })
   );
 }
\ No newline at end of file
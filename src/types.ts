@@ -33,4 +33,38 @@ export interface SearchResult {
   document: Document;
   matches?: string[];   // Optional excerpts showing matches
   score?: number;       // Optional relevance score
-}
\ No newline at end of file
+  revision?: string;    // Revision of the document when it was indexed
+}
+
+/**
+ * Passage of a document matching a search, from the chunk index
+ */
+export interface PassageResult {
+  document: Document;     // The document, without its content
+  headingPath: string[];  // Headings enclosing the passage; empty before the first heading or for a whole document
+  startLine: number;      // First line of the passage, from 1 at the line after the frontmatter
+  endLine: number;        // Last line of the passage
+  text: string;           // The passage
+  score: number;          // Relevance score
+  revision?: string;      // Revision of the document when it was indexed
+  wholeDocument?: boolean; // True if no part of the document matched on its own, so the passage is all of it
+}
+
+/**
+ * Passages of one document matching a search, best first
+ */
+export interface DocumentPassages {
+  document: Document;
+  passages: PassageResult[];
+  revision?: string;
+}
+
+/**
+ * Summary of an indexed document, used when listing documents
+ */
+export interface DocumentSummary {
+  type: DocumentType;
+  path: string;         // File path relative to the type directory
+  title: string;
+  description?: string;
+}
@@ -0,0 +1,179 @@
+/**
+ * Access control lists for documents
+ *
+ * The optional ACL file (.jane-acl.json in the Jane directory) grants each
+ * principal an access level per project (specs) and per language (stdlib):
+ *
+ *   {
+ *     "principals": {
+ *       "payments-team": { "projects": { "payments": "write", "*": "read" }, "languages": { "*": "read" } },
+ *       "*": { "projects": { "*": "read", "payments": "none" }, "languages": { "*": "read" } }
+ *     }
+ *   }
+ *
+ * Principals are the names API keys and bearer tokens authenticate as. A
+ * principal without an entry uses the "*" entry, a project or language
+ * without an entry uses the principal's "*" level, and anything not granted
+ * is "none". Without an ACL file, or for requests that are not authenticated
+ * (stdio, or HTTP without credentials configured), every document is
+ * accessible.
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { DocumentType } from '../types.js';
+import { JANE_DIR } from './filesystem.js';
+import logger from './logger.js';
+
+/**
+ * Access a principal has to a project or language
+ */
+export type AccessLevel = 'none' | 'read' | 'write';
+
+const ACCESS_LEVELS: readonly AccessLevel[] = ['none', 'read', 'write'];
+
+/**
+ * Name of the ACL file in the Jane directory
+ */
+export const ACL_FILE_NAME = '.jane-acl.json';
+
+/**
+ * Error raised when the ACL file cannot be read or is invalid
+ */
+export class AccessControlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessControlError';
+  }
+}
+
+/**
+ * Access levels granted to one principal
+ */
+interface PrincipalAcl {
+  projects: Record<string, AccessLevel>;
+  languages: Record<string, AccessLevel>;
+}
+
+/**
+ * Predicate deciding whether a document may be returned to a client
+ */
+export type DocumentFilter = (type: DocumentType, documentPath: string) => boolean;
+
+/**
+ * Validate the access levels for the projects or languages of one principal
+ * @throws AccessControlError if a level is unknown
+ */
+function parseLevels(levels: unknown, context: string): Record<string, AccessLevel> {
+  // No prototype, so names like "constructor" are not looked up on Object
+  const parsed: Record<string, AccessLevel> = Object.create(null);
+  if (levels === undefined) return parsed;
+  if (typeof levels !== 'object' || levels === null || Array.isArray(levels)) {
+    throw new AccessControlError(`${context}: expected an object mapping names to access levels`);
+  }
+
+  for (const [name, level] of Object.entries(levels)) {
+    if (!ACCESS_LEVELS.includes(level as AccessLevel)) {
+      throw new AccessControlError(`${context}: invalid access level "${level}" for "${name}" (expected "none", "read" or "write")`);
+    }
+    parsed[name] = level as AccessLevel;
+  }
+  return parsed;
+}
+
+/**
+ * Enforces the ACL file for authenticated principals
+ */
+export class AccessControl {
+  private principals: Map<string, PrincipalAcl> | null = null;
+
+  /**
+   * Whether an ACL file is loaded
+   */
+  get enabled(): boolean {
+    return this.principals !== null;
+  }
+
+  /**
+   * Load the ACL file, replacing any ACL loaded before
+   * A missing file disables access control
+   * @param aclPath Path to the ACL file (default: .jane-acl.json in the Jane directory)
+   * @throws AccessControlError if the file cannot be read or is invalid
+   */
+  async load(aclPath: string = path.join(JANE_DIR, ACL_FILE_NAME)): Promise<void> {
+    if (!(await fs.pathExists(aclPath))) {
+      this.principals = null;
+      logger.info(`No ACL file at ${aclPath}; all documents are accessible`);
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(aclPath, 'utf-8'));
+    } catch (error) {
+      throw new AccessControlError(`Failed to read ACL file ${aclPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const entries = (parsed as { principals?: unknown })?.principals;
+    if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+      throw new AccessControlError(`Invalid ACL file ${aclPath}: expected a "principals" object`);
+    }
+
+    const principals = new Map<string, PrincipalAcl>();
+    for (const [principal, entry] of Object.entries(entries)) {
+      const context = `Invalid ACL file ${aclPath}: principal "${principal}"`;
+      if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+        throw new AccessControlError(`${context}: expected an object with "projects" and "languages"`);
+      }
+      const { projects, languages } = entry as Record<string, unknown>;
+      principals.set(principal, {
+        projects: parseLevels(projects, `${context} projects`),
+        languages: parseLevels(languages, `${context} languages`)
+      });
+    }
+
+    this.principals = principals;
+    logger.info(`Loaded ACL for ${principals.size} principals from ${aclPath}`);
+  }
+
+  /**
+   * Get the access a client has to a project (specs) or language (stdlib)
+   * @param authInfo The auth info of the request, if it was authenticated
+   * @param type Document type
+   * @param directory The project or language name
+   */
+  getAccessLevel(authInfo: AuthInfo | undefined, type: DocumentType, directory: string): AccessLevel {
+    if (!this.principals || !authInfo) return 'write';
+
+    const entry = this.principals.get(authInfo.clientId) ?? this.principals.get('*');
+    if (!entry) return 'none';
+
+    const levels = type === 'spec' ? entry.projects : entry.languages;
+    return levels[directory] ?? levels['*'] ?? 'none';
+  }
+
+  /**
+   * Check whether a client may read or change a document or directory
+   * @param authInfo The auth info of the request, if it was authenticated
+   * @param type Document type
+   * @param documentPath Path relative to the type directory; its first segment is the project or language
+   * @param level The access needed
+   */
+  canAccess(authInfo: AuthInfo | undefined, type: DocumentType, documentPath: string, level: 'read' | 'write'): boolean {
+    const granted = this.getAccessLevel(authInfo, type, documentPath.split('/')[0]);
+    return level === 'read' ? granted !== 'none' : granted === 'write';
+  }
+
+  /**
+   * Build a filter for the documents a client may read
+   * @param authInfo The auth info of the request, if it was authenticated
+   * @returns The filter, or undefined if every document is readable
+   */
+  readFilter(authInfo: AuthInfo | undefined): DocumentFilter | undefined {
+    if (!this.principals || !authInfo) return undefined;
+    return (type, documentPath) => this.canAccess(authInfo, type, documentPath, 'read');
+  }
+}
+
+// Singleton instance for the application
+export const accessControl = new AccessControl();
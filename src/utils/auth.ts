@@ -0,0 +1,269 @@
+/**
+ * Authentication for the HTTP transport
+ *
+ * Clients send `Authorization: Bearer <credential>`, where the credential is
+ * either a static API key from the API keys file or a token signed with the
+ * shared HMAC secret. Both resolve to a principal and its scopes: "read"
+ * allows listing, reading and searching documents, "write" also allows
+ * creating, updating, moving and deleting them, and "metrics" allows
+ * scraping /metrics, which names every project and language.
+ */
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import fs from 'fs-extra';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+/**
+ * Access scopes a principal can be granted
+ */
+export type Scope = 'read' | 'write' | 'metrics';
+
+const SCOPES: readonly Scope[] = ['read', 'write', 'metrics'];
+
+/**
+ * Minimum length of the HMAC secret used to sign bearer tokens
+ */
+export const MIN_TOKEN_SECRET_LENGTH = 32;
+
+/**
+ * Minimum length of a static API key
+ */
+const MIN_API_KEY_LENGTH = 16;
+
+/**
+ * Error raised when credentials are missing or invalid, or when the
+ * authentication configuration cannot be loaded
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * A static API key and the principal it authenticates
+ */
+export interface ApiKeyEntry {
+  key: string;
+  principal: string;
+  scopes: Scope[];
+}
+
+/**
+ * Claims carried by a signed bearer token
+ */
+interface TokenPayload {
+  sub: string;       // Principal
+  scopes: Scope[];
+  iat: number;       // Issued at (seconds since epoch)
+  exp?: number;      // Expiry (seconds since epoch)
+}
+
+/**
+ * Options for issuing a signed bearer token
+ */
+export interface TokenOptions {
+  principal: string;
+  scopes: Scope[];
+  expiresIn?: number;  // Lifetime in seconds; tokens without one never expire
+}
+
+/**
+ * Validate a list of scopes, adding "read" to any list that grants "write"
+ * @throws AuthError if the list is empty or contains unknown scopes
+ */
+function normalizeScopes(scopes: unknown, context: string): Scope[] {
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    throw new AuthError(`${context}: scopes must be a non-empty array`);
+  }
+  for (const scope of scopes) {
+    if (!SCOPES.includes(scope)) {
+      throw new AuthError(`${context}: unknown scope "${scope}" (expected "read", "write" or "metrics")`);
+    }
+  }
+  const normalized: Scope[] = scopes.includes('write') ? ['read', 'write'] : scopes.includes('read') ? ['read'] : [];
+  return scopes.includes('metrics') ? [...normalized, 'metrics'] : normalized;
+}
+
+/**
+ * Hash an API key so keys can be looked up without keeping them in a map
+ */
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Sign the encoded payload of a bearer token
+ */
+function sign(secret: string, encodedPayload: string): Buffer {
+  return createHmac('sha256', secret).update(encodedPayload).digest();
+}
+
+/**
+ * Load static API keys from a JSON file
+ * The file contains `{ "keys": [{ "key": "...", "principal": "...", "scopes": ["read"] }] }`
+ * @param filePath Path to the API keys file
+ * @returns The validated API key entries
+ * @throws AuthError if the file cannot be read or is invalid
+ */
+export async function loadApiKeys(filePath: string): Promise<ApiKeyEntry[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new AuthError(`Failed to read API keys file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const keys = (parsed as { keys?: unknown })?.keys;
+  if (!Array.isArray(keys)) {
+    throw new AuthError(`Invalid API keys file ${filePath}: expected a "keys" array`);
+  }
+
+  const seen = new Set<string>();
+  return keys.map((entry, index) => {
+    const context = `Invalid API keys file ${filePath}: entry ${index}`;
+    const { key, principal, scopes } = (entry ?? {}) as Record<string, unknown>;
+
+    if (typeof key !== 'string' || key.length < MIN_API_KEY_LENGTH) {
+      throw new AuthError(`${context}: key must be a string of at least ${MIN_API_KEY_LENGTH} characters`);
+    }
+    if (typeof principal !== 'string' || principal.trim() === '') {
+      throw new AuthError(`${context}: principal must be a non-empty string`);
+    }
+    if (seen.has(key)) {
+      throw new AuthError(`${context}: duplicate key`);
+    }
+    seen.add(key);
+
+    return { key, principal, scopes: normalizeScopes(scopes, context) };
+  });
+}
+
+/**
+ * Issue a bearer token signed with the shared secret
+ * Tokens have the form `<base64url payload>.<base64url HMAC-SHA256 signature>`
+ * @param secret The HMAC secret
+ * @param options The principal, scopes and lifetime of the token
+ * @param now Current time in milliseconds
+ * @returns The signed token
+ */
+export function createAuthToken(secret: string, options: TokenOptions, now: number = Date.now()): string {
+  const iat = Math.floor(now / 1000);
+  const payload: TokenPayload = {
+    sub: options.principal,
+    scopes: normalizeScopes(options.scopes, 'Invalid token options'),
+    iat,
+    ...(options.expiresIn !== undefined ? { exp: iat + options.expiresIn } : {})
+  };
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${sign(secret, encodedPayload).toString('base64url')}`;
+}
+
+/**
+ * Configuration for the authenticator
+ */
+export interface AuthConfig {
+  apiKeys?: ApiKeyEntry[];
+  tokenSecret?: string;
+}
+
+/**
+ * Resolves the credentials sent with HTTP requests to a principal
+ */
+export class Authenticator {
+  private apiKeys = new Map<string, ApiKeyEntry>();
+  private tokenSecret?: string;
+
+  constructor(config: AuthConfig = {}) {
+    for (const entry of config.apiKeys ?? []) {
+      this.apiKeys.set(hashApiKey(entry.key), entry);
+    }
+    this.tokenSecret = config.tokenSecret || undefined;
+  }
+
+  /**
+   * Whether any credentials are configured; without them every request is allowed
+   */
+  get enabled(): boolean {
+    return this.apiKeys.size > 0 || this.tokenSecret !== undefined;
+  }
+
+  /**
+   * Authenticate a request from its Authorization header
+   * @param authorization The value of the Authorization header
+   * @param now Current time in milliseconds
+   * @returns The principal (as clientId) and its scopes
+   * @throws AuthError if the credentials are missing or invalid
+   */
+  authenticate(authorization: string | undefined, now: number = Date.now()): AuthInfo {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization ?? '');
+    if (!match) {
+      throw new AuthError('Missing bearer token');
+    }
+    const credential = match[1];
+
+    const entry = this.apiKeys.get(hashApiKey(credential));
+    if (entry) {
+      return { token: credential, clientId: entry.principal, scopes: [...entry.scopes] };
+    }
+
+    if (this.tokenSecret && credential.includes('.')) {
+      return this.verifyToken(credential, this.tokenSecret, now);
+    }
+
+    throw new AuthError('Invalid credentials');
+  }
+
+  /**
+   * Verify the signature and claims of a signed bearer token
+   */
+  private verifyToken(token: string, secret: string, now: number): AuthInfo {
+    const [encodedPayload, signature, ...rest] = token.split('.');
+    const expected = sign(secret, encodedPayload);
+    const actual = Buffer.from(signature ?? '', 'base64url');
+
+    if (rest.length > 0 || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new AuthError('Invalid credentials');
+    }
+
+    let payload: TokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'));
+    } catch {
+      throw new AuthError('Invalid token payload');
+    }
+
+    if (typeof payload?.sub !== 'string' || payload.sub === '') {
+      throw new AuthError('Invalid token payload');
+    }
+    if (payload.exp !== undefined && (typeof payload.exp !== 'number' || payload.exp <= now / 1000)) {
+      throw new AuthError('Token has expired');
+    }
+
+    let scopes: Scope[];
+    try {
+      scopes = normalizeScopes(payload.scopes, 'Invalid token');
+    } catch {
+      throw new AuthError('Invalid token payload');
+    }
+
+    return {
+      token,
+      clientId: payload.sub,
+      scopes,
+      ...(payload.exp !== undefined ? { expiresAt: payload.exp } : {})
+    };
+  }
+}
+
+/**
+ * Check whether an authenticated client has a scope
+ * Requests without auth info (stdio, or HTTP with authentication disabled)
+ * are trusted and have every scope
+ * @param authInfo The auth info attached to the request, if any
+ * @param scope The required scope
+ */
+export function hasScope(authInfo: AuthInfo | undefined, scope: Scope): boolean {
+  return authInfo === undefined || authInfo.scopes.includes(scope);
+}
@@ -0,0 +1,102 @@
+import { DocumentPassages, PassageResult } from '../types.js';
+import { parseOutline, splitLines } from './markdown-outline.js';
+
+/**
+ * A heading-bounded part of a document, indexed separately for passage search
+ */
+export interface DocumentChunk {
+  index: number;         // Position of the chunk in the document, from 0
+  headingPath: string[]; // Texts of the headings enclosing the chunk; empty before the first heading
+  startLine: number;     // Index of the first line, from 0
+  endLine: number;       // Index of the line after the chunk
+  content: string;
+}
+
+/**
+ * Longest chunk, in lines; longer sections are split between paragraphs
+ */
+export const MAX_CHUNK_LINES = 40;
+
+/**
+ * Split a range of lines into pieces of at most maxLines lines, breaking
+ * after a blank line where there is one so paragraphs stay together
+ */
+function splitRange(lines: string[], start: number, end: number, maxLines: number): [number, number][] {
+  const ranges: [number, number][] = [];
+  while (end - start > maxLines) {
+    let cut = start + maxLines;
+    for (let line = cut - 1; line > start; line--) {
+      if (lines[line].trim() === '') {
+        cut = line + 1;
+        break;
+      }
+    }
+    ranges.push([start, cut]);
+    start = cut;
+  }
+  ranges.push([start, end]);
+  return ranges;
+}
+
+/**
+ * Split markdown into chunks at its headings
+ * Each chunk holds one heading and the text up to the next heading of any
+ * level, so a section's subsections are chunks of their own. Text before the
+ * first heading is a chunk without a heading path, and chunks with nothing
+ * but blank lines are left out.
+ * @param content The markdown content, without frontmatter
+ * @param maxLines The longest chunk, in lines
+ * @returns The chunks in document order
+ */
+export function chunkDocument(content: string, maxLines = MAX_CHUNK_LINES): DocumentChunk[] {
+  const lines = splitLines(content);
+  const outline = parseOutline(content);
+
+  const sections: { headingPath: string[]; start: number; end: number }[] = [];
+  const firstHeading = outline.length > 0 ? outline[0].line : lines.length;
+  sections.push({ headingPath: [], start: 0, end: firstHeading });
+  outline.forEach((heading, index) => {
+    const end = index + 1 < outline.length ? outline[index + 1].line : lines.length;
+    sections.push({ headingPath: heading.path, start: heading.line, end });
+  });
+
+  const chunks: DocumentChunk[] = [];
+  for (const section of sections) {
+    for (const [start, end] of splitRange(lines, section.start, section.end, maxLines)) {
+      // Trim blank lines so line ranges point at the text itself
+      let first = start;
+      let last = end;
+      while (first < last && lines[first].trim() === '') first++;
+      while (last > first && lines[last - 1].trim() === '') last--;
+      if (first === last) continue;
+
+      chunks.push({
+        index: chunks.length,
+        headingPath: section.headingPath,
+        startLine: first,
+        endLine: last,
+        content: lines.slice(first, last).join('\n')
+      });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Group passages by document, keeping the order in which documents first
+ * appear (best first, for passages ordered by score)
+ */
+export function groupPassagesByDocument(passages: PassageResult[]): DocumentPassages[] {
+  const groups = new Map<string, DocumentPassages>();
+  for (const passage of passages) {
+    const key = `${passage.document.type}://${passage.document.path}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { document: passage.document, passages: [], revision: passage.revision };
+      groups.set(key, group);
+    }
+    group.passages.push(passage);
+  }
+  return [...groups.values()];
+}
@@ -0,0 +1,41 @@
+import { createHash } from 'crypto';
+import { Document } from '../types.js';
+
+/**
+ * Compute a stable content hash for a document
+ * The hash covers the parsed metadata and the markdown body, so it changes
+ * whenever the file's frontmatter or content changes and is independent of
+ * file timestamps
+ * @param doc The document to hash
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function computeDocumentHash(doc: Pick<Document, 'content' | 'meta'>): string {
+  return createHash('sha256')
+    .update(JSON.stringify(doc.meta))
+    .update('\n')
+    .update(doc.content)
+    .digest('hex');
+}
+
+/**
+ * Number of hex digits of the content hash used as a revision
+ */
+const REVISION_LENGTH = 16;
+
+/**
+ * Shorten a content hash to the revision shown to clients
+ * @param contentHash A hash from computeDocumentHash
+ */
+export function toRevision(contentHash: string): string {
+  return contentHash.slice(0, REVISION_LENGTH);
+}
+
+/**
+ * Compute the revision of a document, which changes whenever its
+ * frontmatter or content changes
+ * Clients pass it back when updating a document to detect concurrent edits
+ * @param doc The document
+ */
+export function computeDocumentRevision(doc: Pick<Document, 'content' | 'meta'>): string {
+  return toRevision(computeDocumentHash(doc));
+}
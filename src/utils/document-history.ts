@@ -0,0 +1,160 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { DocumentMeta, DocumentType } from '../types.js';
+import { validateRelativePath } from './path-validation.js';
+
+/**
+ * How a version came about
+ * "initial" is the document as it was on disk before its first recorded
+ * change, e.g. a document written before history was kept or edited by hand;
+ * "delete" is the document as it was when it was deleted
+ */
+export type VersionAction = 'initial' | 'create' | 'update' | 'restore' | 'delete';
+
+/**
+ * A recorded version of a document
+ */
+export interface DocumentVersion {
+  version: number;       // Numbered from 1 per document
+  timestamp: string;     // ISO 8601
+  author?: string;       // Principal that made the change, or the document's author
+  action: VersionAction;
+  restoredFrom?: number; // Version that a restore copied
+  content: string;
+  meta: DocumentMeta;
+}
+
+/**
+ * A version without its content, used when listing history
+ */
+export type DocumentVersionSummary = Omit<DocumentVersion, 'content' | 'meta'> & { title: string };
+
+/**
+ * Everything needed to record a version; the number is assigned when it is recorded
+ */
+export type NewDocumentVersion = Omit<DocumentVersion, 'version' | 'timestamp'> & { timestamp?: string };
+
+/**
+ * Maximum attempts to claim a version number when several writes race
+ */
+const MAX_RECORD_ATTEMPTS = 100;
+
+/**
+ * Version history of documents, kept as one JSON file per version
+ *
+ * Versions of a document live in <rootDir>/<type>/<path>/, e.g.
+ * .history/spec/project1/api.md/000003.json. History is kept when a
+ * document is deleted, so a deleted document can still be restored.
+ */
+export class DocumentHistory {
+  constructor(private readonly rootDir: string) {}
+
+  /**
+   * Record a new version of a document
+   * @returns The version as recorded, with its number and timestamp
+   */
+  async record(type: DocumentType, subpath: string, version: NewDocumentVersion): Promise<DocumentVersion> {
+    const dir = this.getHistoryDir(type, subpath);
+    await fs.ensureDir(dir);
+
+    // Creating the file fails if another write claimed the number first
+    let number = (await this.listVersionNumbers(dir)).at(-1) ?? 0;
+    for (let attempt = 0; attempt < MAX_RECORD_ATTEMPTS; attempt++) {
+      number++;
+      const recorded: DocumentVersion = {
+        ...version,
+        version: number,
+        timestamp: version.timestamp ?? new Date().toISOString()
+      };
+      try {
+        await fs.writeFile(this.getVersionPath(dir, number), JSON.stringify(recorded, null, 2), { encoding: 'utf8', flag: 'wx' });
+        return recorded;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+    }
+    throw new Error(`Could not claim a version number for ${type}://${subpath}`);
+  }
+
+  /**
+   * Whether any version of a document has been recorded
+   */
+  async hasHistory(type: DocumentType, subpath: string): Promise<boolean> {
+    return (await this.listVersionNumbers(this.getHistoryDir(type, subpath))).length > 0;
+  }
+
+  /**
+   * List the recorded versions of a document, oldest first
+   */
+  async list(type: DocumentType, subpath: string): Promise<DocumentVersionSummary[]> {
+    const dir = this.getHistoryDir(type, subpath);
+    const summaries: DocumentVersionSummary[] = [];
+    for (const number of await this.listVersionNumbers(dir)) {
+      const { version, timestamp, author, action, restoredFrom, meta } = await fs.readJson(this.getVersionPath(dir, number)) as DocumentVersion;
+      summaries.push({ version, timestamp, author, action, restoredFrom, title: meta.title });
+    }
+    return summaries;
+  }
+
+  /**
+   * Read a version of a document
+   * @returns The version, or null if it was never recorded
+   */
+  async get(type: DocumentType, subpath: string, version: number): Promise<DocumentVersion | null> {
+    const file = this.getVersionPath(this.getHistoryDir(type, subpath), version);
+    if (!Number.isInteger(version) || version < 1 || !await fs.pathExists(file)) {
+      return null;
+    }
+    return await fs.readJson(file) as DocumentVersion;
+  }
+
+  /**
+   * Read the most recent version of a document
+   * @returns The version, or null if no version was recorded
+   */
+  async latest(type: DocumentType, subpath: string): Promise<DocumentVersion | null> {
+    const last = (await this.listVersionNumbers(this.getHistoryDir(type, subpath))).at(-1);
+    return last === undefined ? null : this.get(type, subpath, last);
+  }
+
+  /**
+   * Move the history of a document along with the document
+   * The history is left in place if the target already has one, so that
+   * the history of an overwritten document is not lost
+   * @returns True if the history was moved
+   */
+  async move(type: DocumentType, fromSubpath: string, toSubpath: string): Promise<boolean> {
+    const fromDir = this.getHistoryDir(type, fromSubpath);
+    const toDir = this.getHistoryDir(type, toSubpath);
+    if (!await fs.pathExists(fromDir) || await this.hasHistory(type, toSubpath)) {
+      return false;
+    }
+    await fs.move(fromDir, toDir, { overwrite: true });
+    return true;
+  }
+
+  /**
+   * Get the directory holding the versions of a document
+   * @throws PathValidationError if the path is not a valid relative path
+   */
+  private getHistoryDir(type: DocumentType, subpath: string): string {
+    return path.join(this.rootDir, type, validateRelativePath(subpath, { requireMarkdown: true }));
+  }
+
+  private getVersionPath(dir: string, version: number): string {
+    return path.join(dir, `${String(version).padStart(6, '0')}.json`);
+  }
+
+  /**
+   * List the version numbers recorded in a history directory, in order
+   */
+  private async listVersionNumbers(dir: string): Promise<number[]> {
+    if (!await fs.pathExists(dir)) {
+      return [];
+    }
+    return (await fs.readdir(dir))
+      .filter(name => /^\d+\.json$/.test(name))
+      .map(name => parseInt(name, 10))
+      .sort((a, b) => a - b);
+  }
+}
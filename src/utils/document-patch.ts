@@ -0,0 +1,134 @@
+import { parseOutline, findHeading, splitLines, HeadingLookupError, OutlineHeading } from './markdown-outline.js';
+
+/**
+ * An edit to part of a document
+ *
+ * Sections are addressed by heading (see findHeading) and run from the
+ * heading to the next heading of the same or a higher level, so a section
+ * includes its subsections.
+ */
+export type PatchOperation =
+  // Replace everything below the heading, keeping the heading itself
+  | { op: 'replace_section'; heading: string; content: string }
+  // Add content at the end of the section, after any subsections
+  | { op: 'append_to_section'; heading: string; content: string }
+  // Add content directly below the heading, before the rest of the section
+  | { op: 'insert_after_heading'; heading: string; content: string }
+  // Replace every occurrence of a string, in the whole document or one section,
+  // failing unless it occurs exactly the expected number of times (default 1)
+  | { op: 'find_replace'; find: string; replace: string; expectedCount?: number; heading?: string };
+
+/**
+ * Error raised when an operation cannot be applied; nothing is changed
+ */
+export class PatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+/**
+ * Split inserted content into lines, without leading or trailing blank lines
+ */
+function contentLines(content: string): string[] {
+  const lines = splitLines(content.replace(/\r\n/g, '\n'));
+  while (lines.length > 0 && lines[0].trim() === '') lines.shift();
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Count the non-overlapping occurrences of a string
+ */
+function countOccurrences(text: string, find: string): number {
+  return text.split(find).length - 1;
+}
+
+/**
+ * Apply one operation to the lines of a document
+ */
+function applyOperation(lines: string[], operation: PatchOperation): string[] {
+  const outline = parseOutline(lines.join('\n'));
+  const section = (address: string): OutlineHeading => findHeading(outline, address);
+
+  switch (operation.op) {
+    case 'replace_section': {
+      const heading = section(operation.heading);
+      const body = contentLines(operation.content);
+      // Keep a blank line on both sides of the new body, and the final
+      // newline of the document
+      const replacement = body.length > 0 ? ['', ...body] : [];
+      if (heading.endLine < lines.length || lines[lines.length - 1] === '') replacement.push('');
+      return [...lines.slice(0, heading.line + 1), ...replacement, ...lines.slice(heading.endLine)];
+    }
+
+    case 'append_to_section': {
+      const heading = section(operation.heading);
+      // Append after the last non-blank line, keeping the blank lines that
+      // separate the section from the next one
+      let last = heading.endLine - 1;
+      while (last > heading.line && lines[last].trim() === '') last--;
+      const added = ['', ...contentLines(operation.content)];
+      if (last + 1 === heading.endLine && heading.endLine < lines.length) added.push('');
+      return [...lines.slice(0, last + 1), ...added, ...lines.slice(last + 1)];
+    }
+
+    case 'insert_after_heading': {
+      const heading = section(operation.heading);
+      const added = ['', ...contentLines(operation.content)];
+      const next = lines[heading.line + 1];
+      if (next !== undefined && next.trim() !== '') added.push('');
+      return [...lines.slice(0, heading.line + 1), ...added, ...lines.slice(heading.line + 1)];
+    }
+
+    case 'find_replace': {
+      if (operation.find === '') {
+        throw new PatchError('The text to find must not be empty');
+      }
+      const expected = operation.expectedCount ?? 1;
+      // Within a section, only the lines below the heading are searched
+      let start = 0;
+      let end = lines.length;
+      if (operation.heading !== undefined) {
+        const heading = section(operation.heading);
+        start = heading.line + 1;
+        end = heading.endLine;
+      }
+      const scope = lines.slice(start, end).join('\n');
+      const count = countOccurrences(scope, operation.find);
+      if (count !== expected) {
+        const where = operation.heading !== undefined ? ` in section "${operation.heading}"` : '';
+        throw new PatchError(`Found ${count} occurrences of "${operation.find}"${where}, expected ${expected}`);
+      }
+      if (count === 0) {
+        return lines;
+      }
+      const replaced = splitLines(scope.split(operation.find).join(operation.replace));
+      return [...lines.slice(0, start), ...replaced, ...lines.slice(end)];
+    }
+  }
+}
+
+/**
+ * Apply operations to markdown content, in order
+ * Each operation sees the result of the ones before it
+ * @param content The markdown content, without frontmatter
+ * @param operations The operations to apply
+ * @returns The patched content
+ * @throws PatchError if any operation cannot be applied
+ */
+export function applyPatch(content: string, operations: PatchOperation[]): string {
+  let lines = splitLines(content);
+  operations.forEach((operation, index) => {
+    try {
+      lines = applyOperation(lines, operation);
+    } catch (error) {
+      if (error instanceof HeadingLookupError || error instanceof PatchError) {
+        throw new PatchError(`Operation ${index + 1} (${operation.op}) failed: ${error.message}`);
+      }
+      throw error;
+    }
+  });
+  return lines.join('\n');
+}
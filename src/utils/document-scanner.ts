@@ -1,29 +1,79 @@
-import { Document, DocumentType } from '../types.js';
+import { DocumentType } from '../types.js';
 import { listDocuments, readDocument } from './filesystem.js';
 import { documentIndex } from './search.js';
+import { computeDocumentHash } from './document-hash.js';
+import { PathValidationError } from './path-validation.js';
 import logger from './logger.js';
 import fs from 'fs-extra';
-import path from 'path';
 import { getDocumentPath } from './filesystem.js';
 
+/**
+ * Options for a document scan
+ */
+export interface ScanOptions {
+  force?: boolean;           // Re-index every document, even if its content hash is unchanged
+  dryRun?: boolean;          // Report what would change without writing to the index
+  maxRemovalRatio?: number;  // Abort deletions if more than this share of the index would be removed
+}
+
+/**
+ * Result of a document scan
+ */
+export interface ScanResult {
+  indexed: number;           // Documents added or re-indexed (or that would be, in a dry run)
+  skipped: number;           // Documents that were unchanged
+  failed: number;            // Documents that could not be read or indexed
+  removed: number;           // Orphaned index rows that were removed
+  orphaned: string[];        // Index rows (type://path) whose files no longer exist
+  errors: Error[];
+}
+
+/**
+ * The most recent scan that updated the index
+ */
+export interface ScanRecord {
+  result: ScanResult;
+  finishedAt: Date;
+  durationMs: number;
+}
+
+let lastScan: ScanRecord | null = null;
+
+/**
+ * Get the most recent scan that updated the index (dry runs are not recorded)
+ * @returns The scan, or null if no scan has completed since startup
+ */
+export function getLastScan(): ScanRecord | null {
+  return lastScan;
+}
+
+/**
+ * Default share of the index that may be removed in a single scan. A larger
+ * share usually means the Jane directory is missing or mounted incorrectly
+ * rather than that most documents were deliberately deleted.
+ */
+const DEFAULT_MAX_REMOVAL_RATIO = 0.5;
+
 /**
  * Scans and indexes all existing documents in the Jane directory
  * This ensures that all documents on disk are properly indexed in SQLite
- * Optimized to only index documents that are new or have been modified since last indexing
+ * Optimized to only index documents whose content hash differs from the one stored in the index
+ * Index rows for documents that no longer exist on disk are removed, unless
+ * that would remove more than maxRemovalRatio of the index
  */
-export async function scanAndIndexDocuments(): Promise<{ 
-  indexed: number;
-  skipped: number;
-  failed: number;
-  errors: Error[];
-}> {
-  logger.info('Starting document scan and index operation...');
+export async function scanAndIndexDocuments(options: ScanOptions = {}): Promise<ScanResult> {
+  const { force = false, dryRun = false, maxRemovalRatio = DEFAULT_MAX_REMOVAL_RATIO } = options;
+  const modes = [force && 'forced', dryRun && 'dry run'].filter(Boolean).join(', ');
+  const startedAt = Date.now();
+  logger.info(`Starting document scan and index operation${modes ? ` (${modes})` : ''}...`);
   
-  const results = {
+  const results: ScanResult = {
     indexed: 0,
     skipped: 0,
     failed: 0,
-    errors: [] as Error[]
+    removed: 0,
+    orphaned: [],
+    errors: []
   };
 
   try {
@@ -31,6 +81,11 @@ export async function scanAndIndexDocuments(): Promise<{
     const existingDocuments = await documentIndex.getAllDocumentsMetadata();
     logger.info(`Found ${existingDocuments.size} documents in database`);
     
+    // Track every document seen on disk, and which types were listed
+    // successfully, so deletions are only inferred from complete listings
+    const seenDocuments = new Set<string>();
+    const listedTypes = new Set<DocumentType>();
+    
     // Process both document types
     const documentTypes: DocumentType[] = ['stdlib', 'spec'];
     
@@ -41,6 +96,7 @@ export async function scanAndIndexDocuments(): Promise<{
         // Get all document paths for this type
         const paths = await listDocuments(type);
         logger.info(`Found ${paths.length} ${type} documents to scan`);
+        listedTypes.add(type);
         
         // Process each document
         for (const docPath of paths) {
@@ -49,23 +105,28 @@ export async function scanAndIndexDocuments(): Promise<{
             const documentKey = `${type}://${docPath}`;
             const existingDoc = existingDocuments.get(documentKey);
             
-            // Get the file's last modified time
-            const fullPath = getDocumentPath(type, docPath);
-            const fileStats = await fs.stat(fullPath);
-            const fileModified = fileStats.mtime.toISOString();
+            // Validate the path before treating the document as present, so
+            // files that are not allowed (e.g. symlinks leaving the Jane
+            // directory) are dropped from the index
+            getDocumentPath(type, docPath);
+            seenDocuments.add(documentKey);
             
-            // Skip if document exists and hasn't been modified
-            if (existingDoc && existingDoc.updatedAt && existingDoc.updatedAt >= fileModified) {
-              results.skipped++;
-              logger.debug(`Skipped unchanged document: ${documentKey} (DB: ${existingDoc.updatedAt}, File: ${fileModified})`);
-              continue;
-            }
-            
-            // Document is new or has been modified, read and index it
+            // Read the document and compare its content hash with the indexed one
             const document = await readDocument(type, docPath);
             
             if (document) {
-              await documentIndex.addOrUpdateDocument(document);
+              const contentHash = computeDocumentHash(document);
+              
+              // Skip if document exists and its content hasn't changed
+              if (!force && existingDoc?.contentHash === contentHash) {
+                results.skipped++;
+                logger.debug(`Skipped unchanged document: ${documentKey} (hash: ${contentHash.slice(0, 12)})`);
+                continue;
+              }
+              
+              if (!dryRun) {
+                await documentIndex.addOrUpdateDocument(document);
+              }
               results.indexed++;
               logger.debug(`Indexed document: ${documentKey} (${existingDoc ? 'updated' : 'new'})`);
             } else {
@@ -91,28 +152,61 @@ export async function scanAndIndexDocuments(): Promise<{
       }
     }
     
-    // Check for documents in database that no longer exist in the filesystem
-    // This would handle deletions, but is commented out to avoid unintended document removal
-    // We can enable this in a future version if needed
-    /*
+    // Find index rows whose documents no longer exist in the filesystem
     for (const [documentKey, metadata] of existingDocuments.entries()) {
-      const [type, ...pathParts] = documentKey.split('://');
-      const docPath = pathParts.join('://');
+      if (!listedTypes.has(metadata.type) || seenDocuments.has(documentKey)) {
+        continue;
+      }
       
+      const docPath = documentKey.slice(`${metadata.type}://`.length);
       try {
-        const fullPath = getDocumentPath(type as DocumentType, docPath);
-        const exists = await fs.pathExists(fullPath);
-        
-        if (!exists) {
-          // Document exists in database but not in filesystem
-          await documentIndex.removeDocument(type as DocumentType, docPath);
-          logger.info(`Removed deleted document from index: ${documentKey}`);
+        // Double-check the file system before treating the row as orphaned
+        const fullPath = getDocumentPath(metadata.type, docPath);
+        if (!await fs.pathExists(fullPath)) {
+          results.orphaned.push(documentKey);
         }
       } catch (error) {
-        logger.error(`Error checking deleted document ${documentKey}: ${error instanceof Error ? error.message : String(error)}`);
+        if (error instanceof PathValidationError) {
+          // Rows with paths that are no longer allowed can never be served
+          results.orphaned.push(documentKey);
+        } else {
+          logger.error(`Error checking deleted document ${documentKey}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+    
+    if (results.orphaned.length > 0) {
+      const ratio = results.orphaned.length / existingDocuments.size;
+      
+      if (dryRun) {
+        logger.info(`Dry run: ${results.orphaned.length} orphaned documents would be removed from the index:`);
+        results.orphaned.forEach(documentKey => logger.info(`  ${documentKey}`));
+      } else if (ratio > maxRemovalRatio) {
+        const abortError = new Error(
+          `Refusing to remove ${results.orphaned.length} of ${existingDocuments.size} indexed documents ` +
+          `(${Math.round(ratio * 100)}%), above the ${Math.round(maxRemovalRatio * 100)}% removal threshold. ` +
+          'Check that the Jane directory is mounted correctly.'
+        );
+        results.errors.push(abortError);
+        logger.warning(abortError.message);
+      } else {
+        for (const documentKey of results.orphaned) {
+          const separator = documentKey.indexOf('://');
+          const type = documentKey.slice(0, separator) as DocumentType;
+          const docPath = documentKey.slice(separator + 3);
+          
+          try {
+            await documentIndex.removeDocument(type, docPath);
+            results.removed++;
+            logger.info(`Removed deleted document from index: ${documentKey}`);
+          } catch (error) {
+            const removeError = error instanceof Error ? error : new Error(String(error));
+            results.errors.push(removeError);
+            logger.error(`Error removing deleted document ${documentKey}: ${removeError.message}`);
+          }
+        }
       }
     }
-    */
     
   } catch (error) {
     const scanError = error instanceof Error ? error : new Error(String(error));
@@ -122,7 +216,25 @@ export async function scanAndIndexDocuments(): Promise<{
   
   logger.info(
     `Document scan complete. Indexed: ${results.indexed}, ` +
-    `Skipped: ${results.skipped}, Failed: ${results.failed}`
+    `Skipped: ${results.skipped}, Failed: ${results.failed}, Removed: ${results.removed}`
   );
+  
+  if (!dryRun) {
+    lastScan = { result: results, finishedAt: new Date(), durationMs: Date.now() - startedAt };
+  }
   return results;
-}
\ No newline at end of file
+}
+
+/**
+ * Format the result of a dry run for the --dry-run command line flag
+ * @param result The dry run result
+ * @returns A summary line, followed by the orphaned index rows (type://path) one per line
+ */
+export function formatDryRunReport(result: ScanResult): string {
+  const lines = [
+    `${result.indexed} documents would be indexed, ${result.skipped} are unchanged, ${result.failed} failed`,
+    `${result.orphaned.length} orphaned index rows would be removed${result.orphaned.length > 0 ? ':' : ''}`,
+    ...result.orphaned.map(documentKey => `  ${documentKey}`)
+  ];
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,29 @@
+import { DocumentType } from '../types.js';
+import { PathValidationError } from './path-validation.js';
+
+/**
+ * Build the resource URI for a document
+ * The URI scheme is the document type and each path segment is percent-encoded,
+ * e.g. spec://project1/api%20notes.md
+ * @param type Document type (stdlib or spec)
+ * @param documentPath The path within the type directory
+ * @returns The resource URI
+ */
+export function toDocumentUri(type: DocumentType, documentPath: string): string {
+  return `${type}://${documentPath.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Decode a path captured from a resource URI
+ * Each segment is percent-decoded separately, mirroring toDocumentUri
+ * @param encodedPath The path as it appears in the URI
+ * @returns The decoded document path
+ * @throws PathValidationError if the path is not correctly percent-encoded
+ */
+export function decodeUriPath(encodedPath: string): string {
+  try {
+    return encodedPath.split('/').map(decodeURIComponent).join('/');
+  } catch {
+    throw new PathValidationError(encodedPath, 'path is not correctly percent-encoded');
+  }
+}
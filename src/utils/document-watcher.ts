@@ -0,0 +1,212 @@
+import { watch, FSWatcher } from 'chokidar';
+import fs from 'fs-extra';
+import path from 'path';
+import { DocumentType } from '../types.js';
+import { STDLIB_DIR, SPECS_DIR, readDocument } from './filesystem.js';
+import { documentIndex } from './search.js';
+import { validateRelativePath } from './path-validation.js';
+import logger from './logger.js';
+
+/**
+ * Options for the document watcher
+ */
+interface DocumentWatcherOptions {
+  debounceMs?: number;
+}
+
+/**
+ * A change applied to the index by the watcher
+ */
+export interface DocumentChange {
+  type: DocumentType;
+  path: string;
+  action: 'indexed' | 'removed';
+}
+
+/**
+ * Listener notified after a batch of changes has been applied to the index
+ */
+export type DocumentChangeListener = (changes: DocumentChange[]) => void;
+
+/**
+ * Check whether live watching is enabled through the JANE_WATCH environment variable
+ */
+export function isWatchEnabled(): boolean {
+  const value = process.env.JANE_WATCH?.toLowerCase();
+  return value === '1' || value === 'true' || value === 'yes';
+}
+
+/**
+ * Watches the stdlib and specs directories and keeps the SQLite index in sync
+ * File events are collected and applied in debounced batches, so editors that
+ * write in several steps and renames (unlink + add) settle into one update
+ */
+export class DocumentWatcher {
+  private watcher: FSWatcher | null = null;
+  private debounceMs: number;
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private listeners = new Set<DocumentChangeListener>();
+
+  /**
+   * Create a new document watcher
+   */
+  constructor(options?: DocumentWatcherOptions) {
+    this.debounceMs = options?.debounceMs ?? 250;
+  }
+
+  /**
+   * Start watching the document directories
+   * Resolves once the initial directory crawl has finished
+   */
+  async start(): Promise<void> {
+    if (this.watcher) return;
+
+    logger.info(`Watching for document changes in ${STDLIB_DIR} and ${SPECS_DIR}`);
+
+    this.watcher = watch([STDLIB_DIR, SPECS_DIR], {
+      ignoreInitial: true,
+      // Only markdown files are documents; directories must stay visible so
+      // chokidar descends into them
+      ignored: (filePath, stats) => Boolean(stats?.isFile() && !filePath.endsWith('.md'))
+    });
+
+    this.watcher
+      .on('add', filePath => this.schedule(filePath))
+      .on('change', filePath => this.schedule(filePath))
+      .on('unlink', filePath => this.schedule(filePath))
+      .on('error', error => {
+        logger.error(`Document watcher error: ${error instanceof Error ? error.message : String(error)}`);
+      });
+
+    await new Promise<void>(resolve => this.watcher!.once('ready', () => resolve()));
+    logger.success('Document watcher started');
+  }
+
+  /**
+   * Register a listener for applied changes
+   * @returns A function that removes the listener
+   */
+  onChange(listener: DocumentChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Wait until all scheduled changes have been applied
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      this.flushing = this.flushing.then(() => this.applyPending());
+    }
+    await this.flushing;
+  }
+
+  /**
+   * Stop watching, applying any changes that are still pending
+   */
+  async close(): Promise<void> {
+    if (!this.watcher) return;
+
+    await this.watcher.close();
+    this.watcher = null;
+    await this.flush();
+    logger.debug('Document watcher closed');
+  }
+
+  /**
+   * Queue a file for processing and restart the debounce timer
+   */
+  private schedule(filePath: string): void {
+    if (!filePath.endsWith('.md')) return;
+
+    this.pending.add(filePath);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      // Chain batches so a slow batch never overlaps the next one
+      this.flushing = this.flushing.then(() => this.applyPending());
+    }, this.debounceMs);
+  }
+
+  /**
+   * Apply all queued file changes to the index and notify listeners
+   */
+  private async applyPending(): Promise<void> {
+    const filePaths = [...this.pending];
+    this.pending.clear();
+
+    const changes: DocumentChange[] = [];
+
+    for (const filePath of filePaths) {
+      const location = this.toDocumentLocation(filePath);
+      if (!location) continue;
+
+      const { type, path: docPath } = location;
+
+      try {
+        if (await fs.pathExists(filePath)) {
+          const document = await readDocument(type, docPath);
+          if (!document) {
+            logger.warning(`Watcher could not read changed document: ${type}://${docPath}`);
+            continue;
+          }
+          await documentIndex.addOrUpdateDocument(document);
+          changes.push({ type, path: docPath, action: 'indexed' });
+          logger.debug(`Watcher indexed document: ${type}://${docPath}`);
+        } else {
+          await documentIndex.removeDocument(type, docPath);
+          changes.push({ type, path: docPath, action: 'removed' });
+          logger.debug(`Watcher removed document: ${type}://${docPath}`);
+        }
+      } catch (error) {
+        logger.error(`Watcher failed to sync ${type}://${docPath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (changes.length === 0) return;
+
+    logger.info(`Document watcher applied ${changes.length} change(s) to the index`);
+    for (const listener of this.listeners) {
+      try {
+        listener(changes);
+      } catch (error) {
+        logger.error(`Document change listener failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Map an absolute file path to its document type and relative path
+   * Files that are not valid document paths (e.g. hidden editor files) are ignored
+   */
+  private toDocumentLocation(filePath: string): { type: DocumentType; path: string } | null {
+    const candidates: [DocumentType, string][] = [['stdlib', STDLIB_DIR], ['spec', SPECS_DIR]];
+
+    for (const [type, baseDir] of candidates) {
+      const relative = path.relative(baseDir, filePath);
+      if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+        const docPath = relative.split(path.sep).join('/');
+        try {
+          validateRelativePath(docPath, { requireMarkdown: true });
+        } catch {
+          logger.debug(`Watcher ignoring file that is not a valid document path: ${filePath}`);
+          return null;
+        }
+        return { type, path: docPath };
+      }
+    }
+
+    return null;
+  }
+}
+
+// Singleton instance for the application
+export const documentWatcher = new DocumentWatcher();
@@ -3,9 +3,14 @@ import path from 'path';
 import { glob } from 'glob';
 import { Document, DocumentType, DocumentMeta } from '../types.js';
 import { parseFrontmatter, generateFrontmatter } from './frontmatter.js';
+import { validateRelativePath, assertWithinDirectory } from './path-validation.js';
+import { DocumentHistory } from './document-history.js';
+import { computeDocumentRevision } from './document-hash.js';
 import { fileURLToPath } from 'url';
 import logger from './logger.js';
 
+const log = logger.child('filesystem');
+
 // Get the directory name of the current module for ES modules
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -18,7 +23,7 @@ const __dirname = path.dirname(__filename);
 export function findJaneDirectory(): string {
   // Try environment variable if set (highest priority)
   if (process.env.JANE_DIR) {
-    logger.info(`Using JANE_DIR from environment: ${process.env.JANE_DIR}`);
+    log.info(`Using JANE_DIR from environment: ${process.env.JANE_DIR}`);
     return process.env.JANE_DIR;
   }
 
@@ -32,23 +37,23 @@ export function findJaneDirectory(): string {
   // Try each base directory
   for (const base of potentialBases) {
     const janePath = path.resolve(base, 'Jane');
-    logger.debug(`Checking for Jane directory at: ${janePath}`);
+    log.debug(`Checking for Jane directory at: ${janePath}`);
     
     try {
       // Check if directory exists
       if (fs.existsSync(janePath)) {
-        logger.success(`Found existing Jane directory at: ${janePath}`);
+        log.success(`Found existing Jane directory at: ${janePath}`);
         return janePath;
       }
     } catch (error) {
-      logger.warning(`Error checking path ${janePath}: ${error instanceof Error ? error.message : String(error)}`);
+      log.warning(`Error checking path ${janePath}: ${error instanceof Error ? error.message : String(error)}`);
       // Continue to next potential path
     }
   }
 
   // Default to project root relative to the script location
   const defaultPath = path.resolve(__dirname, '../../Jane');
-  logger.info(`No existing Jane directory found, defaulting to: ${defaultPath}`);
+  log.info(`No existing Jane directory found, defaulting to: ${defaultPath}`);
   return defaultPath;
 }
 
@@ -56,39 +61,107 @@ export function findJaneDirectory(): string {
 export const JANE_DIR = findJaneDirectory();
 export const STDLIB_DIR = path.join(JANE_DIR, 'stdlib');
 export const SPECS_DIR = path.join(JANE_DIR, 'specs');
+export const HISTORY_DIR = path.join(JANE_DIR, '.history');
+
+// Versions recorded by every write, so that overwritten documents can be restored
+export const documentHistory = new DocumentHistory(HISTORY_DIR);
 
 // Log Jane directories for troubleshooting
-logger.info(`Jane directories:`);
-logger.info(`  JANE_DIR: ${JANE_DIR}`);
-logger.info(`  STDLIB_DIR: ${STDLIB_DIR}`);
-logger.info(`  SPECS_DIR: ${SPECS_DIR}`);
+log.info(`Jane directories:`);
+log.info(`  JANE_DIR: ${JANE_DIR}`);
+log.info(`  STDLIB_DIR: ${STDLIB_DIR}`);
+log.info(`  SPECS_DIR: ${SPECS_DIR}`);
+log.info(`  HISTORY_DIR: ${HISTORY_DIR}`);
+
+/**
+ * Details of a write recorded in the document's history
+ */
+export interface WriteOptions {
+  author?: string;        // Principal making the change (default: the document's author)
+  restoredFrom?: number;  // Version the write restores
+}
+
+/**
+ * Changes to a document's content and/or metadata
+ */
+export interface DocumentUpdates {
+  content?: string;
+  meta?: Partial<DocumentMeta>;
+}
+
+/**
+ * Options for updating a document
+ */
+export interface UpdateOptions extends WriteOptions {
+  expectedRevision?: string;  // Fail unless the document is still at this revision
+}
+
+/**
+ * Error raised when a document changed since the revision a client expected
+ */
+export class RevisionConflictError extends Error {
+  constructor(
+    public readonly type: DocumentType,
+    public readonly documentPath: string,
+    public readonly expectedRevision: string,
+    public readonly current: Document
+  ) {
+    super(`Conflict: ${type}://${documentPath} has changed since revision ${expectedRevision} (current revision ${computeDocumentRevision(current)})`);
+    this.name = 'RevisionConflictError';
+  }
+}
+
+/**
+ * Tails of the operations queued on each document
+ */
+const documentLocks = new Map<string, Promise<void>>();
+
+/**
+ * Run an operation once earlier operations on the same document have finished
+ * The lock only covers this process, which is the only writer Jane expects
+ */
+async function withDocumentLock<T>(type: DocumentType, subpath: string, operation: () => Promise<T>): Promise<T> {
+  const key = `${type}:${subpath}`;
+  const result = (documentLocks.get(key) ?? Promise.resolve()).then(operation);
+  const tail = result.then(() => undefined, () => undefined);
+  documentLocks.set(key, tail);
+  try {
+    return await result;
+  } finally {
+    if (documentLocks.get(key) === tail) {
+      documentLocks.delete(key);
+    }
+  }
+}
 
 /**
  * Get the absolute path for a document
  * @param type Document type (stdlib or spec)
  * @param subpath The path within the type directory
  * @returns The absolute path
+ * @throws PathValidationError if the path is not a valid document path inside the Jane directory
  */
 export function getDocumentPath(type: DocumentType, subpath: string): string {
   const baseDir = type === 'stdlib' ? STDLIB_DIR : SPECS_DIR;
-  const fullPath = path.join(baseDir, subpath);
+  const fullPath = path.join(baseDir, validateRelativePath(subpath, { requireMarkdown: true }));
+  assertWithinDirectory(subpath, fullPath, JANE_DIR);
   
   // Log detailed path resolution information
-  logger.debug(`Resolving path for ${type}://${subpath}`);
-  logger.debug(`Base directory: ${baseDir}`);
-  logger.debug(`Full path: ${fullPath}`);
+  log.debug(`Resolving path for ${type}://${subpath}`);
+  log.debug(`Base directory: ${baseDir}`);
+  log.debug(`Full path: ${fullPath}`);
   
   // Check if the path exists (for informational purposes)
   try {
     const exists = fs.existsSync(fullPath);
-    logger.debug(`Path exists: ${exists ? '✓' : '✗'}`);
+    log.debug(`Path exists: ${exists ? '✓' : '✗'}`);
     
     // Check parent directory
     const parentDir = path.dirname(fullPath);
     const parentExists = fs.existsSync(parentDir);
-    logger.debug(`Parent directory (${parentDir}) exists: ${parentExists ? '✓' : '✗'}`);
+    log.debug(`Parent directory (${parentDir}) exists: ${parentExists ? '✓' : '✗'}`);
   } catch (error) {
-    logger.warning(`Error checking path existence: ${error instanceof Error ? error.message : String(error)}`);
+    log.warning(`Error checking path existence: ${error instanceof Error ? error.message : String(error)}`);
   }
   
   return fullPath;
@@ -114,31 +187,49 @@ export async function readDocument(type: DocumentType, subpath: string): Promise
       meta
     };
   } catch (error) {
-    console.error(`Error reading document at ${fullPath}:`, error);
+    log.error(`Error reading document at ${fullPath}: ${error instanceof Error ? error.message : String(error)}`, { error });
     return null;
   }
 }
 
 /**
- * Write a document to the file system
+ * Write a document to the file system, recording the new version in its history
+ * A document that already exists but has no history yet is recorded as it
+ * was first, so that the write can be undone. Writes, updates, moves and
+ * deletes of the same document run one at a time.
  * @param type Document type (stdlib or spec)
  * @param subpath The path within the type directory
  * @param content The markdown content
  * @param meta Document metadata
+ * @param options Who is writing the document, recorded in its history
  * @returns True if successful, with error message if failed
  */
 export async function writeDocument(
   type: DocumentType,
   subpath: string,
   content: string,
-  meta: DocumentMeta
+  meta: DocumentMeta,
+  options: WriteOptions = {}
+): Promise<{success: boolean; error?: string}> {
+  return withDocumentLock(type, subpath, () => writeLockedDocument(type, subpath, content, meta, options));
+}
+
+/**
+ * Write a document while holding its lock
+ */
+async function writeLockedDocument(
+  type: DocumentType,
+  subpath: string,
+  content: string,
+  meta: DocumentMeta,
+  options: WriteOptions
 ): Promise<{success: boolean; error?: string}> {
   const fullPath = getDocumentPath(type, subpath);
   
   // Validate parameters
   if (!type || !subpath || !content) {
     const errorMsg = 'Missing required parameters (type, subpath, or content)';
-    console.error(errorMsg);
+    log.error(errorMsg);
     return { success: false, error: errorMsg };
   }
   
@@ -146,11 +237,10 @@ export async function writeDocument(
     // Validate base directories exist
     const baseDir = type === 'stdlib' ? STDLIB_DIR : SPECS_DIR;
     if (!await fs.pathExists(baseDir)) {
-      const errorMsg = `Base directory does not exist: ${baseDir}`;
-      console.error(errorMsg);
+      log.warning(`Base directory does not exist: ${baseDir}`);
       
       // Try to create the Jane structure
-      console.error('Attempting to create Jane structure...');
+      log.info('Attempting to create Jane structure...');
       const created = await ensureJaneStructure();
       if (!created) {
         return { success: false, error: 'Failed to create document directory structure' };
@@ -159,7 +249,7 @@ export async function writeDocument(
     
     // Create parent directory if it doesn't exist
     const dirPath = path.dirname(fullPath);
-    console.error(`Ensuring directory exists: ${dirPath}`);
+    log.debug(`Ensuring directory exists: ${dirPath}`);
     
     try {
       await fs.ensureDir(dirPath);
@@ -168,11 +258,11 @@ export async function writeDocument(
       const dirExists = await fs.pathExists(dirPath);
       if (!dirExists) {
         const errorMsg = `Failed to create directory: ${dirPath}`;
-        console.error(errorMsg);
+        log.error(errorMsg);
         return { success: false, error: errorMsg };
       }
     } catch (dirError) {
-      console.error(`Error creating directory ${dirPath}:`, dirError);
+      log.error(`Error creating directory ${dirPath}: ${dirError instanceof Error ? dirError.message : String(dirError)}`, { error: dirError });
       return { 
         success: false, 
         error: `Failed to create directory: ${dirError instanceof Error ? dirError.message : String(dirError)}` 
@@ -184,63 +274,243 @@ export async function writeDocument(
     try {
       markdown = generateFrontmatter(meta, content);
     } catch (fmError) {
-      console.error('Error generating frontmatter:', fmError);
+      log.error(`Error generating frontmatter: ${fmError instanceof Error ? fmError.message : String(fmError)}`, { error: fmError });
       return { 
         success: false, 
         error: `Failed to generate frontmatter: ${fmError instanceof Error ? fmError.message : String(fmError)}` 
       };
     }
     
+    // Keep the current version before overwriting a document without history
+    const existed = await fs.pathExists(fullPath);
+    if (existed) {
+      try {
+        await recordInitialVersion(type, subpath);
+      } catch (historyError) {
+        log.error(`Error recording history of ${fullPath}: ${historyError instanceof Error ? historyError.message : String(historyError)}`, { error: historyError });
+        return {
+          success: false,
+          error: `Failed to record document history: ${historyError instanceof Error ? historyError.message : String(historyError)}`
+        };
+      }
+    }
+    
     // Write to file
-    console.error(`Writing document to: ${fullPath}`);
+    log.debug(`Writing document to: ${fullPath}`);
     try {
       await fs.writeFile(fullPath, markdown, 'utf8');
-      console.error(`Successfully wrote document to: ${fullPath}`);
-      return { success: true };
+      log.debug(`Successfully wrote document to: ${fullPath}`);
     } catch (writeError) {
-      console.error(`Error writing file ${fullPath}:`, writeError);
+      log.error(`Error writing file ${fullPath}: ${writeError instanceof Error ? writeError.message : String(writeError)}`, { error: writeError });
       return { 
         success: false, 
         error: `Failed to write file: ${writeError instanceof Error ? writeError.message : String(writeError)}` 
       };
     }
+    
+    // The document is written either way, so a failure here is only logged
+    try {
+      const written = parseFrontmatter(markdown);
+      await documentHistory.record(type, subpath, {
+        action: options.restoredFrom !== undefined ? 'restore' : existed ? 'update' : 'create',
+        author: options.author ?? meta.author,
+        restoredFrom: options.restoredFrom,
+        content: written.content,
+        meta: written.meta
+      });
+    } catch (historyError) {
+      log.error(`Error recording history of ${fullPath}: ${historyError instanceof Error ? historyError.message : String(historyError)}`, { error: historyError });
+    }
+    return { success: true };
   } catch (error) {
     const errorMsg = `Error writing document to ${fullPath}: ${error instanceof Error ? error.message : String(error)}`;
-    console.error(errorMsg);
+    log.error(errorMsg, { error });
     return { success: false, error: errorMsg };
   }
 }
 
+/**
+ * Record a document as it is on disk if it has no history yet
+ */
+async function recordInitialVersion(type: DocumentType, subpath: string): Promise<void> {
+  if (await documentHistory.hasHistory(type, subpath)) {
+    return;
+  }
+  const current = await readDocument(type, subpath);
+  if (!current) {
+    return;
+  }
+  const stats = await fs.stat(getDocumentPath(type, subpath));
+  await documentHistory.record(type, subpath, {
+    action: 'initial',
+    timestamp: stats.mtime.toISOString(),
+    author: current.meta.author,
+    content: current.content,
+    meta: current.meta
+  });
+}
+
 /**
  * Update an existing document
+ * Updates of the same document run one at a time, so a check of the
+ * expected revision cannot race with another update
  * @param type Document type (stdlib or spec)
  * @param subpath The path within the type directory
- * @param updates Updates to apply (content and/or metadata)
- * @returns The updated document or null if failed
+ * @param updates Updates to apply (content and/or metadata), or a function
+ *   computing them from the current document while no other update can run
+ * @param options Who is updating the document, and the revision it must be at
+ * @returns The updated document as written, or null if failed
+ * @throws RevisionConflictError if the document is not at the expected revision
  */
 export async function updateDocument(
   type: DocumentType,
   subpath: string,
-  updates: { content?: string; meta?: Partial<DocumentMeta> }
+  updates: DocumentUpdates | ((current: Document) => DocumentUpdates),
+  options: UpdateOptions = {}
 ): Promise<Document | null> {
-  // Read existing document
-  const doc = await readDocument(type, subpath);
-  if (!doc) return null;
-  
-  // Apply updates
-  const updatedContent = updates.content !== undefined ? updates.content : doc.content;
-  const updatedMeta = updates.meta ? { ...doc.meta, ...updates.meta, updatedAt: new Date().toISOString() } : doc.meta;
+  return withDocumentLock(type, subpath, async () => {
+    // Read existing document
+    const doc = await readDocument(type, subpath);
+    if (!doc) return null;
+    
+    if (options.expectedRevision !== undefined && computeDocumentRevision(doc) !== options.expectedRevision) {
+      throw new RevisionConflictError(type, subpath, options.expectedRevision, doc);
+    }
+    
+    // Apply updates
+    const { content, meta } = typeof updates === 'function' ? updates(doc) : updates;
+    const updatedContent = content !== undefined ? content : doc.content;
+    const updatedMeta = meta ? { ...doc.meta, ...meta, updatedAt: new Date().toISOString() } : doc.meta;
+    
+    // Write updated document
+    const result = await writeLockedDocument(type, subpath, updatedContent, updatedMeta, options);
+    if (!result.success) return null;
+    
+    // Read the document back, since writing sets the update time
+    return readDocument(type, subpath);
+  });
+}
+
+/**
+ * Delete a document from the file system
+ * The document is recorded in its history first, as a final "delete"
+ * version, so that it can be restored
+ * @param type Document type (stdlib or spec)
+ * @param subpath The path within the type directory
+ * @param options Who is deleting the document, recorded in its history
+ * @returns True if successful, with error message if failed
+ */
+export async function deleteDocument(
+  type: DocumentType,
+  subpath: string,
+  options: Pick<WriteOptions, 'author'> = {}
+): Promise<{success: boolean; error?: string}> {
+  const fullPath = getDocumentPath(type, subpath);
   
-  // Write updated document
-  const success = await writeDocument(type, subpath, updatedContent, updatedMeta);
-  if (!success) return null;
+  return withDocumentLock(type, subpath, async () => {
+    try {
+      if (!await fs.pathExists(fullPath)) {
+        return { success: false, error: `Document not found at ${type}://${subpath}` };
+      }
+    
+      // The history is the only copy once the file is gone, so the document
+      // is not deleted unless it was recorded
+      try {
+        await recordInitialVersion(type, subpath);
+        const current = await readDocument(type, subpath);
+        if (current) {
+          await documentHistory.record(type, subpath, {
+            action: 'delete',
+            author: options.author ?? current.meta.author,
+            content: current.content,
+            meta: current.meta
+          });
+        }
+      } catch (historyError) {
+        log.error(`Error recording history of ${fullPath}: ${historyError instanceof Error ? historyError.message : String(historyError)}`, { error: historyError });
+        return {
+          success: false,
+          error: `Failed to record document history: ${historyError instanceof Error ? historyError.message : String(historyError)}`
+        };
+      }
+    
+      await fs.remove(fullPath);
+      log.debug(`Deleted document: ${fullPath}`);
+      return { success: true };
+    } catch (error) {
+      const errorMsg = `Error deleting document at ${fullPath}: ${error instanceof Error ? error.message : String(error)}`;
+      log.error(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+  });
+}
+
+/**
+ * Move a document to a new path within the same document type
+ * The document's history moves with it, unless the target already has a
+ * history (an overwritten document is recorded in its history first); the
+ * moved document is then recorded as a new version of the target
+ * @param type Document type (stdlib or spec)
+ * @param fromSubpath The current path within the type directory
+ * @param toSubpath The new path within the type directory
+ * @param options Set overwrite to replace an existing document at the target,
+ *   and author to record who moved it
+ * @returns True if successful, with error message if failed
+ */
+export async function moveDocument(
+  type: DocumentType,
+  fromSubpath: string,
+  toSubpath: string,
+  options: { overwrite?: boolean; author?: string } = {}
+): Promise<{success: boolean; error?: string}> {
+  const fromPath = getDocumentPath(type, fromSubpath);
+  const toPath = getDocumentPath(type, toSubpath);
   
-  return {
-    path: subpath,
-    type,
-    content: updatedContent,
-    meta: updatedMeta
-  };
+  // Lock both documents, in a fixed order so that opposite moves cannot
+  // wait on each other
+  const [first, second] = [fromSubpath, toSubpath].sort();
+  return withDocumentLock(type, first, () => withDocumentLock(type, second, async () => {
+    try {
+      if (!await fs.pathExists(fromPath)) {
+        return { success: false, error: `Document not found at ${type}://${fromSubpath}` };
+      }
+    
+      if (await fs.pathExists(toPath)) {
+        if (!options.overwrite) {
+          return { success: false, error: `Document already exists at ${type}://${toSubpath}` };
+        }
+        // Keep the document being overwritten in its history
+        await recordInitialVersion(type, toSubpath);
+      }
+    
+      await fs.ensureDir(path.dirname(toPath));
+      await fs.move(fromPath, toPath, { overwrite: options.overwrite === true });
+      log.debug(`Moved document: ${fromPath} -> ${toPath}`);
+    
+      // The document has moved either way, so a failure here is only logged
+      try {
+        const moved = await documentHistory.move(type, fromSubpath, toSubpath);
+        if (!moved && await documentHistory.hasHistory(type, toSubpath)) {
+          const current = await readDocument(type, toSubpath);
+          if (current) {
+            await documentHistory.record(type, toSubpath, {
+              action: 'update',
+              author: options.author ?? current.meta.author,
+              content: current.content,
+              meta: current.meta
+            });
+          }
+        }
+      } catch (historyError) {
+        log.error(`Error moving history of ${fromPath}: ${historyError instanceof Error ? historyError.message : String(historyError)}`, { error: historyError });
+      }
+      return { success: true };
+    } catch (error) {
+      const errorMsg = `Error moving document from ${fromPath} to ${toPath}: ${error instanceof Error ? error.message : String(error)}`;
+      log.error(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+  }));
 }
 
 /**
@@ -248,16 +518,18 @@ export async function updateDocument(
  * @param type Document type (stdlib or spec)
  * @param subpath Optional subpath to filter results
  * @returns Array of document paths
+ * @throws PathValidationError if the subpath is not a valid directory inside the Jane directory
  */
 export async function listDocuments(type: DocumentType, subpath: string = ''): Promise<string[]> {
   const baseDir = type === 'stdlib' ? STDLIB_DIR : SPECS_DIR;
-  const searchPath = path.join(baseDir, subpath);
+  const searchPath = subpath ? path.join(baseDir, validateRelativePath(subpath)) : baseDir;
+  assertWithinDirectory(subpath, searchPath, JANE_DIR);
   
   try {
     // Check if directory exists
     const dirExists = await fs.pathExists(searchPath);
     if (!dirExists) {
-      console.error(`Directory does not exist: ${searchPath}`);
+      log.warning(`Directory does not exist: ${searchPath}`);
       await ensureJaneStructure(); // Ensure the directory structure exists
       return [];
     }
@@ -268,14 +540,14 @@ export async function listDocuments(type: DocumentType, subpath: string = ''): P
       absolute: false
     });
     
-    console.error(`Found ${files.length} markdown files in ${searchPath}`);
+    log.debug(`Found ${files.length} markdown files in ${searchPath}`);
     
     // If we're searching in a subpath, prepend it to each result
     return subpath
       ? files.map(file => path.join(subpath, file))
       : files;
   } catch (error) {
-    console.error(`Error listing documents in ${searchPath}:`, error);
+    log.error(`Error listing documents in ${searchPath}: ${error instanceof Error ? error.message : String(error)}`, { error });
     return [];
   }
 }
@@ -289,7 +561,7 @@ export async function listLanguages(): Promise<string[]> {
     // Check if directory exists
     const dirExists = await fs.pathExists(STDLIB_DIR);
     if (!dirExists) {
-      console.error(`Directory does not exist: ${STDLIB_DIR}`);
+      log.warning(`Directory does not exist: ${STDLIB_DIR}`);
       await ensureJaneStructure();
     }
 
@@ -298,10 +570,10 @@ export async function listLanguages(): Promise<string[]> {
       .filter(entry => entry.isDirectory())
       .map(entry => entry.name);
     
-    console.error(`Found languages: ${languages.join(', ')}`);
+    log.debug(`Found languages: ${languages.join(', ')}`);
     return languages;
   } catch (error) {
-    console.error('Error listing languages:', error);
+    log.error(`Error listing languages: ${error instanceof Error ? error.message : String(error)}`, { error });
     return [];
   }
 }
@@ -315,7 +587,7 @@ export async function listProjects(): Promise<string[]> {
     // Check if directory exists
     const dirExists = await fs.pathExists(SPECS_DIR);
     if (!dirExists) {
-      console.error(`Directory does not exist: ${SPECS_DIR}`);
+      log.warning(`Directory does not exist: ${SPECS_DIR}`);
       await ensureJaneStructure();
     }
 
@@ -324,10 +596,10 @@ export async function listProjects(): Promise<string[]> {
       .filter(entry => entry.isDirectory())
       .map(entry => entry.name);
     
-    console.error(`Found projects: ${projects.join(', ')}`);
+    log.debug(`Found projects: ${projects.join(', ')}`);
     return projects;
   } catch (error) {
-    console.error('Error listing projects:', error);
+    log.error(`Error listing projects: ${error instanceof Error ? error.message : String(error)}`, { error });
     return [];
   }
 }
@@ -338,17 +610,17 @@ export async function listProjects(): Promise<string[]> {
  */
 export async function ensureJaneStructure(): Promise<boolean> {
   try {
-    logger.info(`Creating Jane directory structure at: ${JANE_DIR}`);
+    log.info(`Creating Jane directory structure at: ${JANE_DIR}`);
     
     // Ensure parent Jane directory exists
     try {
-      logger.info(`Creating main Jane directory: ${JANE_DIR}`);
+      log.info(`Creating main Jane directory: ${JANE_DIR}`);
       await fs.ensureDir(JANE_DIR);
       
       // Verify it was created
       const janeExists = await fs.pathExists(JANE_DIR);
       if (!janeExists) {
-        logger.error(`Failed to create Jane directory at: ${JANE_DIR}`);
+        log.error(`Failed to create Jane directory at: ${JANE_DIR}`);
         return false;
       }
       
@@ -357,31 +629,31 @@ export async function ensureJaneStructure(): Promise<boolean> {
         const testFile = path.join(JANE_DIR, '.write-test');
         await fs.writeFile(testFile, 'test');
         await fs.unlink(testFile);
-        logger.success(`Jane directory is writable: ${JANE_DIR}`);
+        log.success(`Jane directory is writable: ${JANE_DIR}`);
       } catch (writeError) {
-        logger.error(`Jane directory is not writable: ${JANE_DIR} - ${writeError instanceof Error ? writeError.message : String(writeError)}`);
+        log.error(`Jane directory is not writable: ${JANE_DIR} - ${writeError instanceof Error ? writeError.message : String(writeError)}`);
         return false;
       }
     } catch (dirError) {
-      logger.error(`Error creating Jane directory: ${JANE_DIR} - ${dirError instanceof Error ? dirError.message : String(dirError)}`);
+      log.error(`Error creating Jane directory: ${JANE_DIR} - ${dirError instanceof Error ? dirError.message : String(dirError)}`);
       return false;
     }
     
     // Ensure stdlib directory exists
     try {
-      logger.info(`Creating stdlib directory: ${STDLIB_DIR}`);
+      log.info(`Creating stdlib directory: ${STDLIB_DIR}`);
       await fs.ensureDir(STDLIB_DIR);
     } catch (stdlibError) {
-      logger.error(`Error creating stdlib directory: ${STDLIB_DIR} - ${stdlibError instanceof Error ? stdlibError.message : String(stdlibError)}`);
+      log.error(`Error creating stdlib directory: ${STDLIB_DIR} - ${stdlibError instanceof Error ? stdlibError.message : String(stdlibError)}`);
       return false;
     }
     
     // Ensure specs directory exists
     try {
-      logger.info(`Creating specs directory: ${SPECS_DIR}`);
+      log.info(`Creating specs directory: ${SPECS_DIR}`);
       await fs.ensureDir(SPECS_DIR);
     } catch (specsError) {
-      logger.error(`Error creating specs directory: ${SPECS_DIR} - ${specsError instanceof Error ? specsError.message : String(specsError)}`);
+      log.error(`Error creating specs directory: ${SPECS_DIR} - ${specsError instanceof Error ? specsError.message : String(specsError)}`);
       return false;
     }
     
@@ -390,10 +662,10 @@ export async function ensureJaneStructure(): Promise<boolean> {
     for (const lang of languages) {
       try {
         const langDir = path.join(STDLIB_DIR, lang);
-        logger.info(`Creating language directory: ${langDir}`);
+        log.info(`Creating language directory: ${langDir}`);
         await fs.ensureDir(langDir);
       } catch (langError) {
-        logger.warning(`Error creating language directory for ${lang} - ${langError instanceof Error ? langError.message : String(langError)}`);
+        log.warning(`Error creating language directory for ${lang} - ${langError instanceof Error ? langError.message : String(langError)}`);
         // Continue with other languages
       }
     }
@@ -403,18 +675,18 @@ export async function ensureJaneStructure(): Promise<boolean> {
     for (const proj of projects) {
       try {
         const projDir = path.join(SPECS_DIR, proj);
-        logger.info(`Creating project directory: ${projDir}`);
+        log.info(`Creating project directory: ${projDir}`);
         await fs.ensureDir(projDir);
       } catch (projError) {
-        logger.warning(`Error creating project directory for ${proj} - ${projError instanceof Error ? projError.message : String(projError)}`);
+        log.warning(`Error creating project directory for ${proj} - ${projError instanceof Error ? projError.message : String(projError)}`);
         // Continue with other projects
       }
     }
 
-    logger.success('Jane directory structure created successfully.');
+    log.success('Jane directory structure created successfully.');
     return true;
   } catch (error) {
-    logger.error(`Error ensuring Jane structure: ${error instanceof Error ? error.message : String(error)}`);
+    log.error(`Error ensuring Jane structure: ${error instanceof Error ? error.message : String(error)}`);
     return false;
   }
 }
\ No newline at end of file
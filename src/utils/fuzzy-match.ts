@@ -0,0 +1,64 @@
+/**
+ * Characters that start a new word in a document path
+ */
+const WORD_BOUNDARIES = new Set(['/', '-', '_', '.', ' ']);
+
+/**
+ * Score how well a query fuzzily matches a candidate
+ * Every query character must appear in the candidate in order (case-insensitive).
+ * Consecutive characters, characters at the start of a path segment or word,
+ * substring matches and matches in the file name score higher; shorter
+ * candidates win ties.
+ * @param query The text typed so far
+ * @param candidate The value to match against
+ * @returns The match score, or null if the query does not match
+ */
+export function fuzzyScore(query: string, candidate: string): number | null {
+  const needle = query.toLowerCase();
+  const haystack = candidate.toLowerCase();
+
+  if (!needle) return 0;
+
+  let score = 0;
+  let position = 0;
+  let previousMatch = -2;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === previousMatch + 1) {
+      score += 5;
+    }
+    if (index === 0 || WORD_BOUNDARIES.has(haystack[index - 1])) {
+      score += 10;
+    }
+
+    previousMatch = index;
+    position = index + 1;
+  }
+
+  const basename = haystack.slice(haystack.lastIndexOf('/') + 1);
+  if (haystack.includes(needle)) score += 15;
+  if (basename.startsWith(needle)) score += 20;
+  if (haystack.startsWith(needle)) score += 10;
+
+  return score - haystack.length * 0.1;
+}
+
+/**
+ * Rank candidates by how well they fuzzily match a query
+ * @param query The text typed so far
+ * @param candidates The values to choose from
+ * @param limit Maximum number of results to return
+ * @returns Matching candidates, best match first
+ */
+export function fuzzyRank(query: string, candidates: string[], limit: number): string[] {
+  return candidates
+    .map(candidate => ({ candidate, score: fuzzyScore(query, candidate) }))
+    .filter((match): match is { candidate: string; score: number } => match.score !== null)
+    .sort((a, b) => b.score - a.score || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(match => match.candidate);
+}
@@ -1,7 +1,9 @@
 /**
  * Colorful logger for Jane system
- * Uses ANSI escape codes to provide colored console output
+ * Uses ANSI escape codes to provide colored console output, or writes one
+ * JSON object per line for log aggregation
  */
+import fs from 'fs';
 
 // ANSI color codes
 const colors = {
@@ -28,67 +30,194 @@ const styles = {
   reset: '\x1b[0m'
 };
 
+/**
+ * Severity of a log entry, from least to most severe
+ */
+export const LOG_LEVELS = ['debug', 'info', 'warning', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * How log entries are written: colored text, or one JSON object per line
+ */
+export const LOG_FORMATS = ['text', 'json'] as const;
+export type LogFormat = typeof LOG_FORMATS[number];
+
+/**
+ * Extra fields of a log entry, such as the component, session ID or request ID
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger settings
+ */
+export interface LoggerOptions {
+  level?: LogLevel;    // Entries below this level are dropped (default: info, or debug when DEBUG is set)
+  format?: LogFormat;  // Default: text
+  file?: string;       // Append to this file instead of writing to stderr
+}
+
+/**
+ * Current settings, shared by the logger and its children
+ */
+const settings: { level: LogLevel; format: LogFormat; file?: string; fd?: number } = {
+  level: process.env.DEBUG ? 'debug' : 'info',
+  format: 'text'
+};
+
+/**
+ * Change the logger settings
+ * Settings that are not given keep their current value, except the file:
+ * without one, entries are written to stderr again
+ * @throws If the log file cannot be opened
+ */
+export function configureLogger(options: LoggerOptions): void {
+  // Open the new file before closing the old one, so a bad path leaves logging working
+  const fd = options.file ? fs.openSync(options.file, 'a') : undefined;
+  if (settings.fd !== undefined) {
+    fs.closeSync(settings.fd);
+  }
+
+  settings.level = options.level ?? settings.level;
+  settings.format = options.format ?? settings.format;
+  settings.file = options.file;
+  settings.fd = fd;
+}
+
+/**
+ * Convert a field value for JSON output; errors keep their message and stack
+ */
+function toJsonValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Write a line to the log file, or to stderr without one
+ */
+function writeLine(line: string): void {
+  if (settings.fd !== undefined) {
+    fs.writeSync(settings.fd, `${line}\n`);
+  } else {
+    console.error(line);
+  }
+}
+
 /**
  * Logger utility for consistent, colorful console output
+ * Use child() to create a logger that adds a component name or IDs to every entry
  */
-export const logger = {
+export class Logger {
+  constructor(private readonly context: LogFields = {}) {}
+
   /**
    * Log informational message (cyan)
    */
-  info: (message: string): void => {
-    console.error(`${colors.cyan}${message}${colors.reset}`);
-  },
-  
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields, colors.cyan);
+  }
+
   /**
    * Log success message (green)
    */
-  success: (message: string): void => {
-    console.error(`${colors.green}${message}${colors.reset}`);
-  },
-  
+  success(message: string, fields?: LogFields): void {
+    this.write('info', message, fields, colors.green);
+  }
+
   /**
    * Log warning message (yellow)
    */
-  warning: (message: string): void => {
-    console.error(`${colors.yellow}${message}${colors.reset}`);
-  },
-  
+  warning(message: string, fields?: LogFields): void {
+    this.write('warning', message, fields, colors.yellow);
+  }
+
   /**
    * Log error message (red)
    */
-  error: (message: string): void => {
-    console.error(`${colors.red}${message}${colors.reset}`);
-  },
-  
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields, colors.red);
+  }
+
   /**
    * Log debug message (gray)
    */
-  debug: (message: string): void => {
-    if (process.env.DEBUG) {
-      console.error(`${colors.gray}${message}${colors.reset}`);
-    }
-  },
-  
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields, colors.gray);
+  }
+
   /**
    * Log section header (bold cyan)
    */
-  header: (message: string): void => {
-    console.error(`\n${styles.bold}${colors.brightCyan}=== ${message} ===${colors.reset}`);
-  },
-  
+  header(message: string, fields?: LogFields): void {
+    this.write('info', message, fields, `${styles.bold}${colors.brightCyan}`, text => `\n=== ${text} ===`);
+  }
+
   /**
    * Log startup message (bright blue)
    */
-  startup: (message: string): void => {
-    console.error(`${styles.bold}${colors.brightBlue}${message}${colors.reset}`);
-  },
-  
+  startup(message: string, fields?: LogFields): void {
+    this.write('info', message, fields, `${styles.bold}${colors.brightBlue}`);
+  }
+
   /**
    * Log system message (magenta)
    */
-  system: (message: string): void => {
-    console.error(`${colors.magenta}${message}${colors.reset}`);
+  system(message: string, fields?: LogFields): void {
+    this.write('info', message, fields, colors.magenta);
   }
-};
 
-export default logger;
\ No newline at end of file
+  /**
+   * Create a logger that adds fields to every entry
+   * @param context A component name, or fields such as { sessionId }
+   */
+  child(context: string | LogFields): Logger {
+    const fields = typeof context === 'string' ? { component: context } : context;
+    return new Logger({ ...this.context, ...fields });
+  }
+
+  /**
+   * Write an entry if its level is at or above the minimum level
+   * In text mode only the component is shown besides the message; the other
+   * fields are only written in JSON mode
+   */
+  private write(level: LogLevel, message: string, fields: LogFields | undefined, color: string, decorate?: (text: string) => string): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) {
+      return;
+    }
+
+    // Undefined fields, such as a missing session ID, are left out
+    const entry: LogFields = { ...this.context };
+    for (const [key, value] of Object.entries(fields ?? {})) {
+      if (value !== undefined) {
+        entry[key] = value;
+      }
+    }
+
+    if (settings.format === 'json') {
+      const json: LogFields = { timestamp: new Date().toISOString(), level, message };
+      for (const [key, value] of Object.entries(entry)) {
+        if (value !== undefined && !(key in json)) {
+          json[key] = toJsonValue(value);
+        }
+      }
+      writeLine(JSON.stringify(json));
+      return;
+    }
+
+    const text = entry.component ? `[${entry.component}] ${message}` : message;
+    if (settings.fd !== undefined) {
+      writeLine(`${new Date().toISOString()} ${level.toUpperCase()} ${decorate ? decorate(text).trim() : text}`);
+    } else {
+      const decorated = decorate ? decorate(text) : text;
+      // Keep leading newlines outside the color codes, as the header always has
+      const start = decorated.length - decorated.trimStart().length;
+      writeLine(`${decorated.slice(0, start)}${color}${decorated.slice(start)}${colors.reset}`);
+    }
+  }
+}
+
+// Singleton instance for the application
+export const logger = new Logger();
+
+export default logger;
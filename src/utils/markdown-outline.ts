@@ -0,0 +1,189 @@
+/**
+ * Outline of the headings in a markdown document
+ *
+ * Only ATX headings ("## Title") are recognised; setext headings (text
+ * underlined with === or ---) are not, since a --- line is far more often a
+ * thematic break in Jane's documents. Lines inside fenced code blocks are
+ * never headings.
+ */
+
+/**
+ * A heading and the section it starts
+ */
+export interface OutlineHeading {
+  level: number;     // 1 to 6
+  text: string;      // Heading text without the # markers
+  line: number;      // Index of the heading line, from 0
+  endLine: number;   // Index of the line after the section: the next heading of the same or a higher level, or the end
+  path: string[];    // Texts of the enclosing headings and this one
+  anchor: string;    // Unique slug of the heading, as GitHub generates for links ("#getting-started")
+}
+
+/**
+ * Error raised when a heading address matches no heading or several
+ */
+export class HeadingLookupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HeadingLookupError';
+  }
+}
+
+/**
+ * Separator between the headings of a heading path, e.g. "API > Authentication"
+ */
+export const HEADING_PATH_SEPARATOR = ' > ';
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Split markdown into lines; the outline's line numbers index into these
+ */
+export function splitLines(content: string): string[] {
+  return content.split('\n');
+}
+
+/**
+ * Turn heading text into a link anchor the way GitHub does: lowercase, with
+ * punctuation removed and spaces replaced by hyphens
+ */
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M} _-]/gu, '')
+    .replace(/ /g, '-');
+}
+
+/**
+ * Parse the headings of a markdown document
+ * @param content The markdown content, without frontmatter
+ * @returns The headings in document order
+ */
+export function parseOutline(content: string): OutlineHeading[] {
+  const lines = splitLines(content);
+  const headings: OutlineHeading[] = [];
+  const open: OutlineHeading[] = [];
+  const anchors = new Map<string, number>();
+  let fence: string | null = null;
+
+  lines.forEach((line, index) => {
+    // A fence is closed by a fence of the same character at least as long
+    const fenceMatch = FENCE.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      return;
+    }
+
+    const match = ATX_HEADING.exec(line);
+    if (!match) return;
+
+    const level = match[1].length;
+    while (open.length > 0 && open[open.length - 1].level >= level) {
+      open.pop()!.endLine = index;
+    }
+    const text = (match[2] ?? '').trim();
+    // Repeated anchors get a numeric suffix: "usage", "usage-1", ...
+    const slug = slugify(text);
+    const repeats = anchors.get(slug) ?? 0;
+    anchors.set(slug, repeats + 1);
+    const heading: OutlineHeading = {
+      level,
+      text,
+      line: index,
+      endLine: lines.length,
+      path: [...open.map(parent => parent.text), text],
+      anchor: repeats > 0 ? `${slug}-${repeats}` : slug
+    };
+    headings.push(heading);
+    open.push(heading);
+  });
+
+  return headings;
+}
+
+/**
+ * Normalise heading text for comparison: case, spacing and leading # markers
+ * are ignored
+ */
+function normalizeHeading(text: string): string {
+  return text.replace(/^#+\s*/, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Format the path of a heading as an address that finds it
+ */
+export function formatHeadingPath(heading: Pick<OutlineHeading, 'path'>): string {
+  return heading.path.join(HEADING_PATH_SEPARATOR);
+}
+
+/**
+ * Find the heading with an anchor
+ * @param outline The outline from parseOutline
+ * @param anchor The anchor, with or without a leading #
+ * @returns The heading
+ * @throws HeadingLookupError if no heading has the anchor
+ */
+export function findHeadingByAnchor(outline: OutlineHeading[], anchor: string): OutlineHeading {
+  const wanted = anchor.replace(/^#/, '').toLowerCase();
+  const heading = outline.find(candidate => candidate.anchor === wanted);
+  if (!heading) {
+    const available = outline.length > 0
+      ? `; anchors: ${outline.map(candidate => `#${candidate.anchor}`).join(', ')}`
+      : '; the document has no headings';
+    throw new HeadingLookupError(`Anchor "${anchor}" not found${available}`);
+  }
+  return heading;
+}
+
+/**
+ * Get the text of a heading's section: the heading line, its body and its
+ * subsections
+ * @param content The markdown content the outline was parsed from
+ * @param heading The heading
+ * @returns The section, without trailing blank lines
+ */
+export function getSectionText(content: string, heading: OutlineHeading): string {
+  const lines = splitLines(content).slice(heading.line, heading.endLine);
+  while (lines.length > 1 && lines[lines.length - 1].trim() === '') lines.pop();
+  return lines.join('\n');
+}
+
+/**
+ * Find the heading named by an address
+ * The address is a heading's text, or the texts of the heading and some of
+ * its enclosing headings separated by " > " (e.g. "Endpoints > Users") to
+ * tell apart headings with the same text
+ * @param outline The outline from parseOutline
+ * @param address The heading text or path
+ * @returns The heading
+ * @throws HeadingLookupError if no heading or more than one matches
+ */
+export function findHeading(outline: OutlineHeading[], address: string): OutlineHeading {
+  const segments = address.split(HEADING_PATH_SEPARATOR.trim()).map(normalizeHeading);
+
+  const matches = outline.filter(heading => {
+    if (heading.path.length < segments.length) return false;
+    const tail = heading.path.slice(heading.path.length - segments.length).map(normalizeHeading);
+    return tail.every((text, index) => text === segments[index]);
+  });
+
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  if (matches.length === 0) {
+    const available = outline.length > 0
+      ? `; headings: ${outline.map(heading => `"${formatHeadingPath(heading)}"`).join(', ')}`
+      : '; the document has no headings';
+    throw new HeadingLookupError(`Heading "${address}" not found${available}`);
+  }
+  throw new HeadingLookupError(
+    `Heading "${address}" is ambiguous; use one of ${matches.map(heading => `"${formatHeadingPath(heading)}"`).join(', ')}`
+  );
+}
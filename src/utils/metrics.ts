@@ -0,0 +1,245 @@
+/**
+ * Metrics in the Prometheus text exposition format
+ *
+ * Counters and histograms are updated as the server runs. Values that are
+ * cheaper to read on demand, such as index contents and session counts, are
+ * reported by collectors called each time the metrics are rendered.
+ */
+
+/**
+ * Label names and values of a sample
+ */
+export type Labels = Record<string, string>;
+
+/**
+ * A metric value reported by a collector
+ */
+export interface Sample {
+  labels?: Labels;
+  value: number;
+}
+
+/**
+ * A metric whose samples are read when the metrics are rendered
+ */
+export interface CollectedMetric {
+  name: string;
+  help: string;
+  type: 'gauge' | 'counter';
+  samples: Sample[];
+}
+
+/**
+ * Reads metrics on demand
+ */
+export type Collector = () => CollectedMetric[] | Promise<CollectedMetric[]>;
+
+/**
+ * Default histogram buckets, in seconds
+ */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Escape a label value for the exposition format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Format labels as {name="value",...}, or nothing without labels
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Format a number, using the exposition format's names for infinities
+ */
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Key identifying a combination of label values
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(name => [name, labels[name]]));
+}
+
+/**
+ * Header lines of a metric
+ */
+function formatHeader(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`, `# TYPE ${name} ${type}`];
+}
+
+/**
+ * A count that only goes up, such as the number of tool calls
+ */
+export class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  /**
+   * Add to the count for a combination of labels
+   */
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  /**
+   * Get the count for a combination of labels
+   */
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      ...formatHeader(this.name, this.help, 'counter'),
+      ...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`)
+    ];
+  }
+}
+
+/**
+ * Observations counted in buckets, such as request durations
+ */
+export class Histogram {
+  private values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  /**
+   * Record an observation for a combination of labels
+   */
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+
+    for (let index = 0; index < this.buckets.length; index++) {
+      if (value <= this.buckets[index]) entry.buckets[index]++;
+    }
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /**
+   * Start timing an operation
+   * @returns A function recording the seconds elapsed since the timer started
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => void {
+    const startedAt = performance.now();
+    return (extraLabels = {}) => {
+      this.observe({ ...labels, ...extraLabels }, (performance.now() - startedAt) / 1000);
+    };
+  }
+
+  /**
+   * Get the number and sum of observations for a combination of labels
+   */
+  get(labels: Labels = {}): { count: number; sum: number } {
+    const entry = this.values.get(labelKey(labels));
+    return { count: entry?.count ?? 0, sum: entry?.sum ?? 0 };
+  }
+
+  render(): string[] {
+    const lines = formatHeader(this.name, this.help, 'histogram');
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * The metrics of the server
+ */
+export class MetricsRegistry {
+  private metrics: (Counter | Histogram)[] = [];
+  private collectors = new Set<Collector>();
+
+  /**
+   * Create and register a counter
+   */
+  counter(name: string, help: string): Counter {
+    const counter = new Counter(name, help);
+    this.metrics.push(counter);
+    return counter;
+  }
+
+  /**
+   * Create and register a histogram
+   * @param buckets Upper bounds of the buckets (default: DEFAULT_BUCKETS)
+   */
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    const histogram = new Histogram(name, help, buckets);
+    this.metrics.push(histogram);
+    return histogram;
+  }
+
+  /**
+   * Add a collector called each time the metrics are rendered
+   * @returns A function removing the collector again
+   */
+  addCollector(collector: Collector): () => void {
+    this.collectors.add(collector);
+    return () => this.collectors.delete(collector);
+  }
+
+  /**
+   * Render every metric in the Prometheus text exposition format
+   */
+  async render(): Promise<string> {
+    const lines = this.metrics.flatMap(metric => metric.render());
+
+    for (const collector of this.collectors) {
+      for (const { name, help, type, samples } of await collector()) {
+        lines.push(...formatHeader(name, help, type));
+        for (const { labels = {}, value } of samples) {
+          lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+        }
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+// Singleton instance for the application
+export const metrics = new MetricsRegistry();
+
+/**
+ * Tool calls by tool name and outcome ("success" or "error")
+ */
+export const toolCalls = metrics.counter('jane_tool_calls_total', 'Tool calls by tool and outcome');
+
+/**
+ * Tool call durations by tool name
+ */
+export const toolCallDuration = metrics.histogram('jane_tool_call_duration_seconds', 'Time taken by tool calls');
+
+/**
+ * Search query durations by kind of query ("wildcard", "fulltext" or "passage")
+ */
+export const searchDuration = metrics.histogram('jane_search_duration_seconds', 'Time taken by search queries in the document index');
@@ -0,0 +1,139 @@
+/**
+ * Path validation for document paths supplied by clients
+ *
+ * Document paths are always relative to a type directory (stdlib/ or specs/)
+ * and use forward slashes. Anything that could resolve outside the Jane
+ * directory, or that is not a portable file name on the shared drives Jane
+ * is run against, is rejected before it reaches the file system.
+ */
+import fs from 'fs-extra';
+import path from 'path';
+
+/**
+ * Error raised when a document path fails validation
+ */
+export class PathValidationError extends Error {
+  constructor(public readonly documentPath: string, reason: string) {
+    super(`Invalid document path "${documentPath}": ${reason}`);
+    this.name = 'PathValidationError';
+  }
+}
+
+/**
+ * Options for validating a relative path
+ */
+interface RelativePathOptions {
+  requireMarkdown?: boolean;  // The path must name a .md document rather than a directory
+}
+
+/**
+ * Device names reserved by Windows, with or without an extension
+ */
+const WINDOWS_RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+/**
+ * Characters that are not allowed in file names on Windows
+ */
+const INVALID_CHARACTERS = /[<>:"|?*]/;
+
+/**
+ * Validate a relative document or directory path
+ * @param subpath The path within a type directory, using forward slashes
+ * @param options Validation options
+ * @returns The path with any trailing slash removed
+ * @throws PathValidationError if the path is not allowed
+ */
+export function validateRelativePath(subpath: string, options: RelativePathOptions = {}): string {
+  if (typeof subpath !== 'string' || subpath.trim() === '') {
+    throw new PathValidationError(String(subpath ?? ''), 'path must not be empty');
+  }
+
+  // eslint-disable-next-line no-control-regex
+  if (/[\u0000-\u001f]/.test(subpath)) {
+    throw new PathValidationError(subpath, 'path must not contain control characters');
+  }
+
+  if (subpath.includes('\\')) {
+    throw new PathValidationError(subpath, 'use forward slashes as path separators');
+  }
+
+  if (path.posix.isAbsolute(subpath) || /^[a-z]:/i.test(subpath)) {
+    throw new PathValidationError(subpath, 'absolute paths are not allowed');
+  }
+
+  const normalized = subpath.endsWith('/') && !options.requireMarkdown ? subpath.slice(0, -1) : subpath;
+
+  for (const segment of normalized.split('/')) {
+    if (segment === '') {
+      throw new PathValidationError(subpath, 'path must not contain empty segments');
+    }
+    if (segment === '..') {
+      throw new PathValidationError(subpath, 'path must not contain ".." segments');
+    }
+    if (segment.startsWith('.')) {
+      throw new PathValidationError(subpath, `"${segment}" is a reserved name (names must not start with ".")`);
+    }
+    if (WINDOWS_RESERVED_NAMES.test(segment)) {
+      throw new PathValidationError(subpath, `"${segment}" is a reserved name`);
+    }
+    if (INVALID_CHARACTERS.test(segment)) {
+      throw new PathValidationError(subpath, `"${segment}" contains characters that are not allowed in file names`);
+    }
+    if (/[. ]$/.test(segment)) {
+      throw new PathValidationError(subpath, `"${segment}" must not end with a dot or space`);
+    }
+  }
+
+  if (options.requireMarkdown && !normalized.endsWith('.md')) {
+    throw new PathValidationError(subpath, 'only .md documents are supported');
+  }
+
+  return normalized;
+}
+
+/**
+ * Ensure a path does not escape a root directory through symbolic links
+ * The deepest existing part of the path is resolved, so paths that do not
+ * exist yet (e.g. documents about to be created) can be checked too
+ * @param documentPath The relative path, used in error messages
+ * @param fullPath The absolute path to check
+ * @param rootDir The directory the path must stay within
+ * @throws PathValidationError if the path resolves outside rootDir
+ */
+export function assertWithinDirectory(documentPath: string, fullPath: string, rootDir: string): void {
+  const root = path.resolve(rootDir);
+
+  // Walk up to the deepest entry that exists; lstat so dangling links count.
+  // If not even the root exists there is nothing that could be a link
+  let existing = path.resolve(fullPath);
+  while (!lstatExists(existing)) {
+    const parent = path.dirname(existing);
+    if (existing === root || parent === existing) return;
+    existing = parent;
+  }
+
+  const realRoot = fs.realpathSync(root);
+
+  let realExisting: string;
+  try {
+    realExisting = fs.realpathSync(existing);
+  } catch {
+    throw new PathValidationError(documentPath, 'path contains a broken symbolic link');
+  }
+
+  if (realExisting !== realRoot && !realExisting.startsWith(realRoot + path.sep)) {
+    throw new PathValidationError(documentPath, 'path resolves outside the Jane directory');
+  }
+}
+
+/**
+ * Check whether a directory entry exists without following symbolic links
+ */
+function lstatExists(entryPath: string): boolean {
+  try {
+    fs.lstatSync(entryPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,357 @@
+/**
+ * Search query parser for the Jane document index
+ *
+ * Turns the user-facing query language into an FTS5 MATCH expression.
+ * Supported syntax:
+ * - Bare terms, implicitly ANDed: `array methods`
+ * - Quoted phrases: `"array methods"`
+ * - Boolean operators (upper case): `map OR filter`, `array AND NOT python`
+ * - Exclusion shorthand: `-python`
+ * - Prefix matching: `interf*`, `"array meth"*`
+ * - Grouping with parentheses: `(map OR filter) array`
+ * - Field scopes: `title:`, `tag:`, `author:`, `path:`, e.g. `title:"api spec"`
+ *   or `tag:(python OR javascript)`
+ */
+
+/**
+ * Error raised when a search query cannot be parsed
+ */
+export class QueryParseError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position !== undefined ? `${message} (at position ${position + 1})` : message);
+    this.name = 'QueryParseError';
+  }
+}
+
+/**
+ * Result of parsing a search query
+ */
+export interface ParsedQuery {
+  matchExpression: string;  // FTS5 MATCH expression, empty if nothing is searchable
+  terms: string[];          // Positive terms and phrases, used for highlighting matches
+  contentExpression: string; // FTS5 expression matching any positive term that is not field-scoped, used to
+                             // rank the parts of a matching document; empty if there are no such terms
+}
+
+/**
+ * Query field scopes mapped to their documents_fts column
+ */
+const FIELD_COLUMNS: Record<string, string> = {
+  title: 'title',
+  tag: 'tags',
+  author: 'author',
+  path: 'path'
+};
+
+type TokenKind = 'word' | 'phrase' | 'field' | 'lparen' | 'rparen' | 'or' | 'and' | 'not';
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  prefix: boolean;
+  position: number;
+}
+
+type QueryNode =
+  | { kind: 'term'; text: string; phrase: boolean; prefix: boolean; field?: string }
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode };
+
+/**
+ * Split a query string into tokens
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', value: char, prefix: false, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new QueryParseError('Unterminated quoted phrase', i);
+      }
+      const value = query.slice(i + 1, end);
+      if (value.trim().length === 0) {
+        throw new QueryParseError('Empty quoted phrase', i);
+      }
+      const prefix = query[end + 1] === '*';
+      tokens.push({ kind: 'phrase', value, prefix, position: i });
+      i = end + (prefix ? 2 : 1);
+      continue;
+    }
+
+    // A leading '-' directly attached to a term is shorthand for NOT
+    if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ kind: 'not', value: char, prefix: false, position: i });
+      i++;
+      continue;
+    }
+
+    // Read a bare word up to whitespace, a parenthesis or a quote
+    const start = i;
+    while (i < query.length && !/[\s()"]/.test(query[i])) {
+      // A field scope is a supported field name followed by a colon; any
+      // other colon (std::vector, https://, note:) is part of the word
+      if (query[i] === ':' && Object.hasOwn(FIELD_COLUMNS, query.slice(start, i).toLowerCase())) {
+        break;
+      }
+      i++;
+    }
+
+    const word = query.slice(start, i);
+
+    if (query[i] === ':') {
+      tokens.push({ kind: 'field', value: word.toLowerCase(), prefix: false, position: start });
+      i++;
+      continue;
+    }
+
+    if (word === 'OR' || word === 'AND' || word === 'NOT') {
+      tokens.push({ kind: word.toLowerCase() as TokenKind, value: word, prefix: false, position: start });
+      continue;
+    }
+
+    const prefix = word.length > 1 && word.endsWith('*');
+    tokens.push({ kind: 'word', value: prefix ? word.slice(0, -1) : word, prefix, position: start });
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser over the token list
+ *
+ * Grammar:
+ *   or      := and ('OR' and)*
+ *   and     := unary ('AND'? unary)*
+ *   unary   := ('NOT' | '-') unary | primary
+ *   primary := '(' or ')' | field value | phrase | word
+ *   value   := '(' or ')' | phrase | word
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly queryLength: number) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr(undefined);
+    const token = this.peek();
+    if (token) {
+      throw new QueryParseError(
+        token.kind === 'rparen' ? 'Unbalanced closing parenthesis' : `Unexpected "${token.value}"`,
+        token.position
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private endPosition(): number {
+    return this.queryLength;
+  }
+
+  private parseOr(field: string | undefined): QueryNode {
+    const children = [this.parseAnd(field)];
+    while (this.peek()?.kind === 'or') {
+      const operator = this.next()!;
+      if (!this.startsOperand()) {
+        throw new QueryParseError('OR must be followed by a term', operator.position);
+      }
+      children.push(this.parseAnd(field));
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  }
+
+  private parseAnd(field: string | undefined): QueryNode {
+    const first = this.peek();
+    if (!this.startsOperand()) {
+      if (!first) {
+        throw new QueryParseError('Expected a search term', this.endPosition());
+      }
+      throw new QueryParseError(`Expected a search term before "${first.value}"`, first.position);
+    }
+
+    const children = [this.parseUnary(field)];
+    while (true) {
+      const token = this.peek();
+      if (token?.kind === 'and') {
+        this.next();
+        if (!this.startsOperand()) {
+          throw new QueryParseError('AND must be followed by a term', token.position);
+        }
+        children.push(this.parseUnary(field));
+      } else if (this.startsOperand()) {
+        children.push(this.parseUnary(field));
+      } else {
+        break;
+      }
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  }
+
+  private parseUnary(field: string | undefined): QueryNode {
+    const token = this.peek();
+    if (token?.kind === 'not') {
+      this.next();
+      if (!this.startsOperand() || this.peek()?.kind === 'not') {
+        throw new QueryParseError('NOT must be followed by a term', token.position);
+      }
+      return { kind: 'not', child: this.parseUnary(field) };
+    }
+    return this.parsePrimary(field);
+  }
+
+  private parsePrimary(field: string | undefined): QueryNode {
+    const token = this.next();
+    if (!token) {
+      throw new QueryParseError('Expected a search term', this.endPosition());
+    }
+
+    switch (token.kind) {
+      case 'lparen':
+        return this.parseGroup(token, field);
+      case 'field': {
+        if (field) {
+          throw new QueryParseError(`Field "${token.value}:" cannot be nested inside "${field}:"`, token.position);
+        }
+        const value = this.peek();
+        if (!value || (value.kind !== 'word' && value.kind !== 'phrase' && value.kind !== 'lparen')) {
+          throw new QueryParseError(`Field "${token.value}:" must be followed by a term, phrase or group`, token.position);
+        }
+        if (value.kind === 'lparen') {
+          this.next();
+          return this.parseGroup(value, token.value);
+        }
+        return this.parsePrimary(token.value);
+      }
+      case 'phrase':
+      case 'word':
+        return {
+          kind: 'term',
+          text: token.value,
+          phrase: token.kind === 'phrase',
+          prefix: token.prefix,
+          field
+        };
+      default:
+        throw new QueryParseError(`Unexpected "${token.value}"`, token.position);
+    }
+  }
+
+  private parseGroup(open: Token, field: string | undefined): QueryNode {
+    if (this.peek()?.kind === 'rparen') {
+      throw new QueryParseError('Empty parentheses', open.position);
+    }
+    const node = this.parseOr(field);
+    if (this.next()?.kind !== 'rparen') {
+      throw new QueryParseError('Unbalanced opening parenthesis', open.position);
+    }
+    return node;
+  }
+
+  private startsOperand(): boolean {
+    const kind = this.peek()?.kind;
+    return kind === 'word' || kind === 'phrase' || kind === 'field' || kind === 'lparen' || kind === 'not';
+  }
+}
+
+/**
+ * Compile a query node into an FTS5 expression
+ * Returns null for nodes that contain nothing searchable (e.g. pure punctuation)
+ */
+function compile(node: QueryNode, terms: string[], contentTerms: string[], negated: boolean): string | null {
+  switch (node.kind) {
+    case 'term': {
+      // Terms without letters or digits produce no FTS tokens; ignore them
+      // rather than letting them match nothing
+      if (!/[\p{L}\p{N}]/u.test(node.text)) {
+        return null;
+      }
+      const term = `"${node.text.replace(/"/g, '""')}"${node.prefix ? ' *' : ''}`;
+      if (!negated) {
+        terms.push(node.text);
+        if (!node.field) {
+          contentTerms.push(term);
+        }
+      }
+      return node.field ? `${FIELD_COLUMNS[node.field]} : ${term}` : term;
+    }
+    case 'not':
+      if (node.child.kind === 'not') {
+        throw new QueryParseError('Double negation is not supported');
+      }
+      return compile(node.child, terms, contentTerms, !negated);
+    case 'or': {
+      // FTS5 NOT is a binary operator, so an excluded term needs a term to
+      // exclude it from within the same OR alternative
+      if (node.children.some(child => child.kind === 'not')) {
+        throw new QueryParseError('Excluded terms must be combined with a term to match, e.g. "api -draft OR guide"');
+      }
+      const parts = node.children
+        .map(child => compile(child, terms, contentTerms, negated))
+        .filter((part): part is string => part !== null);
+      if (parts.length === 0) return null;
+      return parts.length === 1 ? parts[0] : parts.map(part => `(${part})`).join(' OR ');
+    }
+    case 'and': {
+      const positives: string[] = [];
+      const negatives: string[] = [];
+      for (const child of node.children) {
+        const part = compile(child, terms, contentTerms, negated);
+        if (part === null) continue;
+        (child.kind === 'not' ? negatives : positives).push(part);
+      }
+      if (positives.length === 0) {
+        if (negatives.length === 0) return null;
+        throw new QueryParseError('A query cannot consist only of excluded terms; add a term to match');
+      }
+      const included = positives.length === 1 ? positives[0] : positives.map(part => `(${part})`).join(' AND ');
+      return negatives.reduce((expression, part) => `(${expression}) NOT (${part})`, included);
+    }
+  }
+}
+
+/**
+ * Parse a search query into an FTS5 MATCH expression
+ * @param query The user-supplied query string
+ * @returns The MATCH expression, the positive terms it contains and an
+ *   expression matching any of its unscoped positive terms
+ * @throws {QueryParseError} If the query is malformed
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    return { matchExpression: '', terms: [], contentExpression: '' };
+  }
+
+  const ast = new Parser(tokens, query.length).parse();
+  if (ast.kind === 'not') {
+    throw new QueryParseError('A query cannot consist only of excluded terms; add a term to match');
+  }
+
+  const terms: string[] = [];
+  const contentTerms: string[] = [];
+  const matchExpression = compile(ast, terms, contentTerms, false) ?? '';
+  return { matchExpression, terms, contentExpression: [...new Set(contentTerms)].join(' OR ') };
+}
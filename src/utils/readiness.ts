@@ -0,0 +1,127 @@
+import fs from 'fs-extra';
+import { JANE_DIR, STDLIB_DIR, SPECS_DIR } from './filesystem.js';
+import { documentIndex } from './search.js';
+import { getLastScan } from './document-scanner.js';
+
+/**
+ * Outcome of one readiness check
+ */
+export interface ReadinessCheck {
+  name: string;
+  ok: boolean;
+  message: string;
+}
+
+/**
+ * Outcome of every readiness check; the server is ready if all of them pass
+ */
+export interface ReadinessReport {
+  ready: boolean;
+  checks: ReadinessCheck[];
+}
+
+/**
+ * Run a check, turning an exception into a failed check
+ */
+async function runCheck(name: string, check: () => Promise<Omit<ReadinessCheck, 'name'>>): Promise<ReadinessCheck> {
+  try {
+    return { name, ...(await check()) };
+  } catch (error) {
+    return { name, ok: false, message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Whether readiness checks run SQLite's quick check instead of the full
+ * integrity check, set with --readiness-check quick (JANE_READINESS_CHECK)
+ */
+function isQuickCheckEnabled(): boolean {
+  return process.env.JANE_READINESS_CHECK === 'quick';
+}
+
+/**
+ * Check that the document index database opens and passes SQLite's
+ * integrity check, and that the full-text index has a row per document
+ */
+async function checkIndex(): Promise<ReadinessCheck[]> {
+  let integrity: Awaited<ReturnType<typeof documentIndex.checkIntegrity>> | undefined;
+
+  const database = await runCheck('database', async () => {
+    const quick = isQuickCheckEnabled();
+    const label = quick ? 'Quick integrity check' : 'Integrity check';
+    integrity = await documentIndex.checkIntegrity({ quick });
+    return integrity.problems.length === 0
+      ? { ok: true, message: `${label} passed` }
+      : { ok: false, message: `${label} failed: ${integrity.problems.slice(0, 5).join('; ')}` };
+  });
+
+  const fullText = await runCheck('full_text_index', async () => {
+    if (!integrity) {
+      return { ok: false, message: 'Database is not available' };
+    }
+    const { documents, ftsRows } = integrity;
+    return documents === ftsRows
+      ? { ok: true, message: `${documents} documents indexed` }
+      : { ok: false, message: `${ftsRows} full-text rows for ${documents} documents; restart the server to rebuild the full-text index` };
+  });
+
+  return [database, fullText];
+}
+
+/**
+ * Check that documents can be created in the Jane directory
+ */
+function checkJaneDirectory(): Promise<ReadinessCheck> {
+  return runCheck('jane_directory', async () => {
+    const directories = { 'Jane directory': JANE_DIR, 'stdlib directory': STDLIB_DIR, 'specs directory': SPECS_DIR };
+    for (const [label, directory] of Object.entries(directories)) {
+      try {
+        await fs.access(directory, fs.constants.R_OK | fs.constants.W_OK);
+      } catch (error) {
+        return { ok: false, message: `The ${label} is not writable (${(error as NodeJS.ErrnoException).code ?? String(error)})` };
+      }
+    }
+    return { ok: true, message: 'Jane directory is writable' };
+  });
+}
+
+/**
+ * Check that a scan has completed since startup without failures
+ */
+function checkLastScan(): Promise<ReadinessCheck> {
+  return runCheck('last_scan', async () => {
+    const scan = getLastScan();
+    if (!scan) {
+      return { ok: false, message: 'No document scan has completed yet' };
+    }
+
+    const { indexed, skipped, failed, removed, errors } = scan.result;
+    const summary = `${indexed} indexed, ${skipped} unchanged, ${failed} failed, ${removed} removed at ${scan.finishedAt.toISOString()}`;
+    if (failed > 0 || errors.length > 0) {
+      // Error messages name documents, so only their number is reported
+      return { ok: false, message: `${summary}; ${errors.length} errors, see the server log` };
+    }
+    return { ok: true, message: summary };
+  });
+}
+
+/**
+ * Check whether the server can serve documents: the index is intact and in
+ * sync, the Jane directory is writable and the last scan succeeded
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const checks = [
+    ...(await checkIndex()),
+    await checkJaneDirectory(),
+    await checkLastScan()
+  ];
+  return { ready: checks.every(check => check.ok), checks };
+}
+
+/**
+ * Format a readiness report as text, one line per check
+ */
+export function formatReadinessReport(report: ReadinessReport): string {
+  const lines = report.checks.map(check => `- ${check.name}: ${check.ok ? 'ok' : 'FAILED'} (${check.message})`);
+  return `${report.ready ? 'Server is ready' : 'Server is not ready'}\n\n${lines.join('\n')}`;
+}
@@ -0,0 +1,198 @@
+import os from 'os';
+import logger from './logger.js';
+
+/**
+ * Exit codes used when the server shuts down
+ * A second signal exits immediately with 128 + the signal number, as the
+ * shell reports for a process killed by that signal
+ */
+export const EXIT_CODES = {
+  ok: 0,     // Every in-flight operation finished and every resource closed
+  error: 1   // Operations were still running after the timeout, or a resource failed to close
+} as const;
+
+export const DEFAULT_SHUTDOWN_TIMEOUT = 10_000;
+
+/**
+ * A step of the shutdown
+ */
+type ShutdownStep = { name: string; run: () => void | Promise<void> };
+
+/**
+ * Coordinates shutting down the server
+ *
+ * Shutdown happens in three phases: the stop steps keep new work from
+ * arriving (e.g. stopping the HTTP listener), then operations still in
+ * flight get until the timeout to finish, and finally the close steps
+ * release resources in the order they were registered (e.g. sessions before
+ * the document index they use).
+ */
+export class ShutdownCoordinator {
+  private stopSteps: ShutdownStep[] = [];
+  private closeSteps: ShutdownStep[] = [];
+  private inFlight = 0;
+  private drained: (() => void) | null = null;
+  private shutdownPromise: Promise<number> | null = null;
+
+  /**
+   * Whether shutdown has started
+   */
+  get stopping(): boolean {
+    return this.shutdownPromise !== null;
+  }
+
+  /**
+   * Number of operations in flight
+   */
+  get pending(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Run an operation that shutdown should wait for
+   */
+  async track<T>(operation: () => Promise<T>): Promise<T> {
+    this.inFlight++;
+    try {
+      return await operation();
+    } finally {
+      this.inFlight--;
+      if (this.inFlight === 0) {
+        this.drained?.();
+      }
+    }
+  }
+
+  /**
+   * Register a step that keeps new work from arriving
+   * @returns A function removing the step again
+   */
+  onStop(name: string, run: ShutdownStep['run']): () => void {
+    return this.register(this.stopSteps, { name, run });
+  }
+
+  /**
+   * Register a step that releases a resource once operations have finished
+   * @returns A function removing the step again
+   */
+  onClose(name: string, run: ShutdownStep['run']): () => void {
+    return this.register(this.closeSteps, { name, run });
+  }
+
+  /**
+   * Shut down, waiting for operations in flight and then closing resources
+   * Calling this again returns the result of the first call
+   * @param reason Why the server is shutting down, for the log
+   * @param timeout Milliseconds to wait for operations in flight
+   * @returns The exit code for the process
+   */
+  shutdown(reason: string, timeout: number = DEFAULT_SHUTDOWN_TIMEOUT): Promise<number> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.run(reason, timeout);
+    }
+    return this.shutdownPromise;
+  }
+
+  /**
+   * Shut down on SIGINT and SIGTERM, then exit
+   * A second signal exits immediately without waiting
+   * @param timeout Milliseconds to wait for operations in flight
+   * @param exit Called with the exit code (default: process.exit)
+   */
+  installSignalHandlers(timeout: number = DEFAULT_SHUTDOWN_TIMEOUT, exit: (code: number) => void = process.exit): void {
+    const handle = (signal: NodeJS.Signals) => {
+      if (this.stopping) {
+        logger.warning(`Received ${signal} again, exiting immediately`);
+        exit(128 + (os.constants.signals[signal] ?? 0));
+        return;
+      }
+      this.shutdown(signal, timeout).then(exit);
+    };
+
+    process.on('SIGINT', handle);
+    process.on('SIGTERM', handle);
+  }
+
+  /**
+   * Add a step to a phase
+   */
+  private register(steps: ShutdownStep[], step: ShutdownStep): () => void {
+    steps.push(step);
+    return () => {
+      const index = steps.indexOf(step);
+      if (index !== -1) {
+        steps.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Run the shutdown phases
+   */
+  private async run(reason: string, timeout: number): Promise<number> {
+    logger.info(`Shutting down (${reason})...`);
+    let exitCode: number = EXIT_CODES.ok;
+
+    if (!(await this.runSteps(this.stopSteps))) {
+      exitCode = EXIT_CODES.error;
+    }
+
+    if (this.inFlight > 0) {
+      logger.info(`Waiting up to ${Math.round(timeout / 1000)}s for ${this.inFlight} operations in progress`);
+      if (!(await this.drain(timeout))) {
+        logger.warning(`Shutdown timed out with ${this.inFlight} operations still in progress`);
+        exitCode = EXIT_CODES.error;
+      }
+    }
+
+    if (!(await this.runSteps(this.closeSteps))) {
+      exitCode = EXIT_CODES.error;
+    }
+
+    if (exitCode === EXIT_CODES.ok) {
+      logger.success('Shutdown complete');
+    } else {
+      logger.warning(`Shutdown completed with errors (exit code ${exitCode})`);
+    }
+    return exitCode;
+  }
+
+  /**
+   * Run steps in order, continuing after a step fails
+   * @returns False if any step failed
+   */
+  private async runSteps(steps: ShutdownStep[]): Promise<boolean> {
+    let succeeded = true;
+    for (const step of [...steps]) {
+      try {
+        logger.debug(`Shutdown: ${step.name}`);
+        await step.run();
+      } catch (error) {
+        logger.error(`Error during shutdown (${step.name}): ${error instanceof Error ? error.message : String(error)}`);
+        succeeded = false;
+      }
+    }
+    return succeeded;
+  }
+
+  /**
+   * Wait until no operations are in flight
+   * @returns False if operations were still in flight after the timeout
+   */
+  private drain(timeout: number): Promise<boolean> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.drained = null;
+        resolve(false);
+      }, timeout);
+      this.drained = () => {
+        clearTimeout(timer);
+        this.drained = null;
+        resolve(true);
+      };
+    });
+  }
+}
+
+// Singleton instance for the application
+export const shutdownCoordinator = new ShutdownCoordinator();
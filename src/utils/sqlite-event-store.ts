@@ -0,0 +1,236 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import logger from './logger.js';
+
+/**
+ * Limits on how long and how many events are kept
+ */
+export interface EventRetention {
+  maxAge: number;     // Milliseconds an event (or an unused session) is kept
+  maxEvents: number;  // Maximum number of events kept across all sessions
+}
+
+export const DEFAULT_EVENT_RETENTION: EventRetention = {
+  maxAge: 60 * 60 * 1000,
+  maxEvents: 10_000
+};
+
+/**
+ * A session recorded by the event store
+ */
+export interface StoredSession {
+  principal?: string;
+  createdAt: number;
+  lastActivity: number;
+  initializeRequest?: JSONRPCMessage;  // The request that opened the session, replayed to restore it
+}
+
+/**
+ * Number of rows removed by a prune
+ */
+export interface PruneResult {
+  events: number;
+  sessions: number;
+}
+
+/**
+ * Event store for the streamable HTTP transport that keeps events in SQLite
+ *
+ * Events survive a server restart, so a client reconnecting with
+ * Last-Event-ID can replay the messages it missed. Each session gets its own
+ * view of the store (see forSession), which only replays that session's
+ * events, and event IDs are random so they cannot be guessed.
+ */
+export class SQLiteEventStore {
+  private readonly retention: EventRetention;
+
+  /**
+   * Create the event store, adding its tables to the database if needed
+   * @param db The database connection (normally the document index's)
+   * @param retention Retention limits; missing limits use the defaults
+   * @param now Clock, in milliseconds
+   */
+  constructor(
+    private readonly db: Database.Database,
+    retention: Partial<EventRetention> = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.retention = { ...DEFAULT_EVENT_RETENTION, ...retention };
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS mcp_sessions (
+        session_id TEXT PRIMARY KEY,
+        principal TEXT,
+        created_at INTEGER NOT NULL,
+        last_activity INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS mcp_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_id TEXT NOT NULL UNIQUE,
+        session_id TEXT NOT NULL,
+        stream_id TEXT NOT NULL,
+        message TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_mcp_events_stream ON mcp_events(session_id, stream_id, id);
+      CREATE INDEX IF NOT EXISTS idx_mcp_events_created ON mcp_events(created_at);
+    `);
+
+    // Add the initialize request column to databases created before it
+    // existed; sessions recorded without it cannot be restored
+    const sessionColumns = this.db.prepare('PRAGMA table_info(mcp_sessions)').all() as { name: string }[];
+    if (!sessionColumns.some(column => column.name === 'initialize_request')) {
+      this.db.exec('ALTER TABLE mcp_sessions ADD COLUMN initialize_request TEXT');
+    }
+  }
+
+  /**
+   * Record a new session
+   * @param sessionId The session ID
+   * @param principal The principal that opened the session, if authenticated
+   * @param initializeRequest The initialize request that opened the session;
+   *   saving the session again keeps the one already recorded
+   */
+  saveSession(sessionId: string, principal?: string, initializeRequest?: JSONRPCMessage): void {
+    const now = this.now();
+    this.db.prepare(`
+      INSERT INTO mcp_sessions (session_id, principal, created_at, last_activity, initialize_request) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET
+        last_activity = excluded.last_activity,
+        initialize_request = COALESCE(mcp_sessions.initialize_request, excluded.initialize_request)
+    `).run(sessionId, principal ?? null, now, now, initializeRequest ? JSON.stringify(initializeRequest) : null);
+  }
+
+  /**
+   * Look up a recorded session
+   * @returns The session, or null if it was never recorded or has been removed
+   */
+  getSession(sessionId: string): StoredSession | null {
+    const row = this.db.prepare(
+      'SELECT principal, created_at, last_activity, initialize_request FROM mcp_sessions WHERE session_id = ?'
+    ).get(sessionId) as {
+      principal: string | null;
+      created_at: number;
+      last_activity: number;
+      initialize_request: string | null;
+    } | undefined;
+
+    if (!row) return null;
+    const session: StoredSession = {
+      principal: row.principal ?? undefined,
+      createdAt: row.created_at,
+      lastActivity: row.last_activity
+    };
+    if (row.initialize_request) {
+      session.initializeRequest = JSON.parse(row.initialize_request);
+    }
+    return session;
+  }
+
+  /**
+   * Remove a session and its events
+   */
+  deleteSession(sessionId: string): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM mcp_events WHERE session_id = ?').run(sessionId);
+      this.db.prepare('DELETE FROM mcp_sessions WHERE session_id = ?').run(sessionId);
+    })();
+  }
+
+  /**
+   * Get the event store for one session's transport
+   * @param sessionId The session ID; the session must have been saved first
+   */
+  forSession(sessionId: string): EventStore {
+    return {
+      storeEvent: async (streamId, message) => this.storeEvent(sessionId, streamId, message),
+      replayEventsAfter: async (lastEventId, { send }) => {
+        const { streamId, events } = this.eventsAfter(sessionId, lastEventId);
+        for (const event of events) {
+          await send(event.eventId, event.message);
+        }
+        return streamId;
+      }
+    };
+  }
+
+  /**
+   * Remove events and sessions older than the retention period, then the
+   * oldest events beyond the maximum number of events
+   * @returns The number of events and sessions removed
+   */
+  prune(): PruneResult {
+    const cutoff = this.now() - this.retention.maxAge;
+
+    const result = this.db.transaction(() => {
+      // Sessions are active whenever they store an event, so an expired
+      // session has no events newer than the cutoff left
+      const sessions = this.db.prepare('DELETE FROM mcp_sessions WHERE last_activity < ?').run(cutoff).changes;
+      const expired = this.db.prepare(
+        'DELETE FROM mcp_events WHERE created_at < ? OR session_id NOT IN (SELECT session_id FROM mcp_sessions)'
+      ).run(cutoff).changes;
+      const overflow = this.db.prepare(`
+        DELETE FROM mcp_events WHERE id IN (
+          SELECT id FROM mcp_events ORDER BY id DESC LIMIT -1 OFFSET ?
+        )
+      `).run(this.retention.maxEvents).changes;
+
+      return { events: expired + overflow, sessions };
+    })();
+
+    if (result.events > 0 || result.sessions > 0) {
+      logger.debug(`Pruned ${result.events} events and ${result.sessions} sessions from the event store`);
+    }
+    return result;
+  }
+
+  /**
+   * Store an event and mark its session as active
+   */
+  private storeEvent(sessionId: string, streamId: string, message: JSONRPCMessage): string {
+    const eventId = randomUUID();
+    const now = this.now();
+
+    this.db.transaction(() => {
+      this.db.prepare(
+        'INSERT INTO mcp_events (event_id, session_id, stream_id, message, created_at) VALUES (?, ?, ?, ?, ?)'
+      ).run(eventId, sessionId, streamId, JSON.stringify(message), now);
+      this.db.prepare('UPDATE mcp_sessions SET last_activity = ? WHERE session_id = ?').run(now, sessionId);
+    })();
+
+    return eventId;
+  }
+
+  /**
+   * Find the events of a session's stream that follow an event
+   * @returns The stream of the event and the events after it; an empty stream
+   *   ID if the event is unknown, belongs to another session or was pruned
+   */
+  private eventsAfter(sessionId: string, lastEventId: string): {
+    streamId: string;
+    events: { eventId: string; message: JSONRPCMessage }[];
+  } {
+    const last = this.db.prepare(
+      'SELECT id, stream_id FROM mcp_events WHERE event_id = ? AND session_id = ?'
+    ).get(lastEventId, sessionId) as { id: number; stream_id: string } | undefined;
+
+    if (!last) {
+      return { streamId: '', events: [] };
+    }
+
+    const rows = this.db.prepare(`
+      SELECT event_id, message FROM mcp_events
+      WHERE session_id = ? AND stream_id = ? AND id > ?
+      ORDER BY id
+    `).all(sessionId, last.stream_id, last.id) as { event_id: string; message: string }[];
+
+    return {
+      streamId: last.stream_id,
+      events: rows.map(row => ({ eventId: row.event_id, message: JSON.parse(row.message) }))
+    };
+  }
+}
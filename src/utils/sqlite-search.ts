@@ -1,14 +1,69 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs-extra';
-import { Document, DocumentType, SearchResult } from '../types.js';
+import { Document, DocumentSummary, DocumentType, PassageResult, SearchResult } from '../types.js';
 import { fileURLToPath } from 'url';
 import logger from './logger.js';
+import { parseSearchQuery, QueryParseError } from './query-parser.js';
+import { computeDocumentHash, toRevision } from './document-hash.js';
+import { searchDuration } from './metrics.js';
+import { chunkDocument } from './document-chunks.js';
+import { HEADING_PATH_SEPARATOR, splitLines } from './markdown-outline.js';
 
 // Get the directory name of the current module for ES modules
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+/**
+ * bm25 column weights for documents_fts, in column order
+ * (content, title, description, tags, author, path). A title hit outweighs
+ * a tag or description hit, which in turn outweighs a hit in the body.
+ */
+const FTS_COLUMN_WEIGHTS = [1.0, 10.0, 4.0, 6.0, 2.0, 2.0];
+
+/**
+ * bm25 column weights for chunks_fts, in column order (content, heading).
+ * A hit in a chunk's headings ranks it above a hit in the text of another
+ * chunk of the same document.
+ */
+const CHUNK_FTS_COLUMN_WEIGHTS = [1.0, 5.0];
+
+/**
+ * Escape a string for literal use inside a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Columns of the documents table read back when searching
+ */
+interface DocumentRow {
+  id: number;
+  type: DocumentType;
+  path: string;
+  content?: string;
+  title: string;
+  description: string | null;
+  author: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  meta_json: string | null;
+  content_hash: string | null;
+  tags: string | null;    // Comma-separated
+}
+
+/**
+ * A chunk matching a passage search
+ */
+interface ChunkRow {
+  heading_path: string;   // JSON array of heading texts
+  start_line: number;
+  end_line: number;
+  content: string;
+  score: number;
+}
+
 /**
  * Options for the SQLite Document Index
  */
@@ -29,7 +84,7 @@ export class SQLiteDocumentIndex {
    * Create a new SQLite document index
    */
   constructor(options?: SQLiteDocumentIndexOptions) {
-    this.dbPath = options?.dbPath || path.join(__dirname, '../../document-index.db');
+    this.dbPath = options?.dbPath || process.env.JANE_DB_PATH || path.join(__dirname, '../../document-index.db');
     logger.info(`Using SQLite database at: ${this.dbPath}`);
   }
 
@@ -66,7 +121,7 @@ export class SQLiteDocumentIndex {
         let result = text;
         terms.forEach(term => {
           // Case insensitive replace with highlighting markers
-          const regex = new RegExp(`(${term})`, 'gi');
+          const regex = new RegExp(`(${escapeRegExp(term)})`, 'gi');
           result = result.replace(regex, '**$1**');
         });
         
@@ -86,10 +141,19 @@ export class SQLiteDocumentIndex {
           created_at TEXT,
           updated_at TEXT,
           meta_json TEXT,
+          content_hash TEXT,
           UNIQUE (type, path)
         );
       `);
 
+      // Add the content hash column to databases created before it existed;
+      // rows without a hash are re-indexed by the next scan
+      const documentColumns = this.db.prepare('PRAGMA table_info(documents)').all() as { name: string }[];
+      if (!documentColumns.some(column => column.name === 'content_hash')) {
+        logger.info('Adding content_hash column to documents table');
+        this.db.exec('ALTER TABLE documents ADD COLUMN content_hash TEXT');
+      }
+
       // Create tags table
       this.db.exec(`
         CREATE TABLE IF NOT EXISTS document_tags (
@@ -110,22 +174,68 @@ export class SQLiteDocumentIndex {
           content, 
           title, 
           description, 
-          tags
+          tags,
+          author,
+          path
         );
       `);
       
       // Rebuild the FTS index with existing documents
       this.db.exec(`
-        INSERT INTO documents_fts (rowid, content, title, description, tags)
+        INSERT INTO documents_fts (rowid, content, title, description, tags, author, path)
         SELECT 
           d.id, 
           d.content, 
           d.title, 
           IFNULL(d.description, ''), 
-          (SELECT GROUP_CONCAT(tag, ' ') FROM document_tags WHERE document_id = d.id)
+          (SELECT GROUP_CONCAT(tag, ' ') FROM document_tags WHERE document_id = d.id),
+          IFNULL(d.author, ''),
+          d.path
         FROM documents d;
       `);
 
+      // Create chunk table: heading-bounded parts of each document's content
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS document_chunks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          document_id INTEGER NOT NULL,
+          chunk_index INTEGER NOT NULL,
+          heading TEXT NOT NULL,
+          heading_path TEXT NOT NULL,
+          start_line INTEGER NOT NULL,
+          end_line INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          UNIQUE (document_id, chunk_index),
+          FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
+        );
+      `);
+
+      // Chunk documents indexed before chunks existed
+      const unchunked = this.db.prepare(`
+        SELECT id, content FROM documents d
+        WHERE NOT EXISTS (SELECT 1 FROM document_chunks WHERE document_id = d.id)
+      `).all() as { id: number; content: string }[];
+      if (unchunked.length > 0) {
+        logger.info(`Splitting ${unchunked.length} documents into chunks`);
+        const db = this.db;
+        db.transaction(() => {
+          unchunked.forEach(row => this.insertChunks(db, row.id, row.content));
+        })();
+      }
+
+      // Recreate the chunk FTS index the same way as documents_fts
+      this.db.exec(`DROP TABLE IF EXISTS chunks_fts;`);
+      this.db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(
+          content,
+          heading
+        );
+      `);
+      this.db.exec(`
+        INSERT INTO chunks_fts (rowid, content, heading)
+        SELECT id, content, heading FROM document_chunks;
+      `);
+
       this.initialized = true;
       logger.info('SQLite document index initialized successfully');
     } catch (error) {
@@ -155,6 +265,7 @@ export class SQLiteDocumentIndex {
       // Prepare document data
       const { path: docPath, type, content, meta } = doc;
       const metaJSON = JSON.stringify(meta);
+      const contentHash = computeDocumentHash(doc);
       const tagsStr = meta.tags?.join(' ') || '';
 
       // Check if document already exists
@@ -177,7 +288,8 @@ export class SQLiteDocumentIndex {
             author = ?,
             created_at = ?,
             updated_at = ?,
-            meta_json = ?
+            meta_json = ?,
+            content_hash = ?
           WHERE id = ?
         `);
         
@@ -189,6 +301,7 @@ export class SQLiteDocumentIndex {
           meta.createdAt ? String(meta.createdAt) : null,
           meta.updatedAt ? String(meta.updatedAt) : null,
           metaJSON,
+          contentHash,
           documentId
         );
 
@@ -197,14 +310,17 @@ export class SQLiteDocumentIndex {
 
         // Delete existing FTS entry
         this.db.prepare('DELETE FROM documents_fts WHERE rowid = ?').run(documentId);
+
+        // Delete existing chunks
+        this.deleteChunks(this.db, documentId);
       } else {
         // Insert new document
         logger.debug(`Adding new document to SQLite index: ${type}://${docPath}`);
         
         const insertStmt = this.db.prepare(`
           INSERT INTO documents (
-            type, path, content, title, description, author, created_at, updated_at, meta_json
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            type, path, content, title, description, author, created_at, updated_at, meta_json, content_hash
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
         
         const result = insertStmt.run(
@@ -216,7 +332,8 @@ export class SQLiteDocumentIndex {
           meta.author || null,
           meta.createdAt ? String(meta.createdAt) : null,
           meta.updatedAt ? String(meta.updatedAt) : null,
-          metaJSON
+          metaJSON,
+          contentHash
         );
 
         documentId = result.lastInsertRowid as number;
@@ -233,8 +350,8 @@ export class SQLiteDocumentIndex {
       // Insert into FTS index
       const insertFtsStmt = this.db.prepare(`
         INSERT INTO documents_fts (
-          rowid, content, title, description, tags
-        ) VALUES (?, ?, ?, ?, ?)
+          rowid, content, title, description, tags, author, path
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
       `);
       
       insertFtsStmt.run(
@@ -242,9 +359,18 @@ export class SQLiteDocumentIndex {
         content,
         meta.title,
         meta.description || '',
-        tagsStr
+        tagsStr,
+        meta.author || '',
+        docPath
       );
 
+      // Split into chunks and index them for passage search
+      this.insertChunks(this.db, documentId, content);
+      this.db.prepare(`
+        INSERT INTO chunks_fts (rowid, content, heading)
+        SELECT id, content, heading FROM document_chunks WHERE document_id = ?
+      `).run(documentId);
+
       // Commit transaction
       this.db.exec('COMMIT');
       logger.debug(`Document index operation completed for: ${type}://${docPath}`);
@@ -284,6 +410,9 @@ export class SQLiteDocumentIndex {
         // Delete from FTS index first
         this.db.prepare('DELETE FROM documents_fts WHERE rowid = ?').run(docId);
         
+        // Delete chunks
+        this.deleteChunks(this.db, docId);
+        
         // Delete tags
         this.db.prepare('DELETE FROM document_tags WHERE document_id = ?').run(docId);
         
@@ -308,8 +437,70 @@ export class SQLiteDocumentIndex {
     }
   }
 
+  /**
+   * Move a document to a new path in the index
+   * Any document already indexed at the new path is replaced. Both changes
+   * happen in one transaction.
+   * @returns True if the document was found and moved, false if it was not indexed
+   */
+  async renameDocument(type: DocumentType, oldPath: string, newPath: string): Promise<boolean> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    try {
+      // Begin transaction
+      this.db.exec('BEGIN TRANSACTION');
+
+      const source = this.db.prepare('SELECT id FROM documents WHERE type = ? AND path = ?')
+        .get(type, oldPath) as { id: number } | undefined;
+
+      if (!source) {
+        this.db.exec('COMMIT');
+        logger.debug(`Document not found in SQLite index: ${type}://${oldPath}`);
+        return false;
+      }
+
+      // Drop whatever currently occupies the target path
+      const target = this.db.prepare('SELECT id FROM documents WHERE type = ? AND path = ?')
+        .get(type, newPath) as { id: number } | undefined;
+
+      if (target) {
+        this.db.prepare('DELETE FROM documents_fts WHERE rowid = ?').run(target.id);
+        this.deleteChunks(this.db, target.id);
+        this.db.prepare('DELETE FROM document_tags WHERE document_id = ?').run(target.id);
+        this.db.prepare('DELETE FROM documents WHERE id = ?').run(target.id);
+      }
+
+      this.db.prepare('UPDATE documents SET path = ? WHERE id = ?').run(newPath, source.id);
+      this.db.prepare('UPDATE documents_fts SET path = ? WHERE rowid = ?').run(newPath, source.id);
+
+      // Commit transaction
+      this.db.exec('COMMIT');
+      logger.debug(`Moved document in SQLite index: ${type}://${oldPath} -> ${type}://${newPath}`);
+      return true;
+    } catch (error) {
+      // Rollback transaction on error
+      if (this.db) {
+        this.db.exec('ROLLBACK');
+      }
+      logger.error(`Error moving document in SQLite index: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
   /**
    * Search for documents matching the query
+   * Runs the query through documents_fts and orders matches by bm25 relevance;
+   * a wildcard query ('*' or '') returns every document, ordered by title.
+   * See query-parser.ts for the supported query syntax.
+   * Documents rejected by options.filter are dropped before any match
+   * context is extracted from their content.
+   * @throws {QueryParseError} If the query is malformed
    */
   async search(
     query: string,
@@ -318,6 +509,7 @@ export class SQLiteDocumentIndex {
       language?: string;
       project?: string;
       includeContent?: boolean;
+      filter?: (type: DocumentType, path: string) => boolean;
     } = {}
   ): Promise<SearchResult[]> {
     if (!this.db) {
@@ -328,42 +520,30 @@ export class SQLiteDocumentIndex {
       throw new Error('Database not initialized');
     }
 
-    const { type, language, project, includeContent = false } = options;
+    const { type, language, project, includeContent = false, filter } = options;
     logger.debug(`Search query: "${query}" (Options: ${JSON.stringify(options)})`);
 
+    // Keep only the rows the caller is allowed to see
+    const allowed = <T extends { type: DocumentType; path: string }>(rows: T[]) =>
+      filter ? rows.filter(row => filter(row.type, row.path)) : rows;
+
+    const wildcard = query.trim() === '*' || query.trim() === '';
+    const stopTimer = searchDuration.startTimer({ kind: wildcard ? 'wildcard' : 'fulltext' });
+
     try {
       // Handle wildcard searches
-      if (query === '*' || query === '') {
+      if (wildcard) {
         logger.debug('Processing wildcard search - returning all documents that match filters');
         
         let sql = `
           SELECT 
             d.id, d.type, d.path, ${includeContent ? 'd.content' : "''"} as content,
-            d.title, d.description, d.author, d.created_at, d.updated_at, d.meta_json,
+            d.title, d.description, d.author, d.created_at, d.updated_at, d.meta_json, d.content_hash,
             (SELECT GROUP_CONCAT(tag) FROM document_tags WHERE document_id = d.id) as tags
           FROM documents d
         `;
 
-        const whereConditions: string[] = [];
-        const params: any[] = [];
-
-        // Apply type filter
-        if (type) {
-          whereConditions.push('d.type = ?');
-          params.push(type);
-        }
-
-        // Apply language filter for stdlib documents
-        if (language) {
-          whereConditions.push("(d.type = 'stdlib' AND d.path LIKE ?)");
-          params.push(`${language}/%`);
-        }
-
-        // Apply project filter for spec documents
-        if (project) {
-          whereConditions.push("(d.type = 'spec' AND d.path LIKE ?)");
-          params.push(`${project}/%`);
-        }
+        const { conditions: whereConditions, params } = this.scopeConditions(type, language, project);
 
         // Add WHERE clause if we have conditions
         if (whereConditions.length > 0) {
@@ -374,7 +554,7 @@ export class SQLiteDocumentIndex {
         sql += ' ORDER BY d.title';
 
         // Execute query
-        const rows = this.db.prepare(sql).all(...params) as any[];
+        const rows = allowed(this.db.prepare(sql).all(...params) as any[]);
         const results = this.rowsToSearchResults(rows, true);
         
         // Filter out content if not requested
@@ -387,70 +567,46 @@ export class SQLiteDocumentIndex {
         return results;
       }
 
-      // Regular search
-      const searchTerms = query.toLowerCase().split(/\s+/).filter(t => t.length > 0);
-      
-      // For empty search (shouldn't happen due to check above, but just in case)
-      if (searchTerms.length === 0) {
-        return this.search('*', options);
+      // Regular search: parse the query language into an FTS5 MATCH
+      // expression. Parse errors propagate to the caller.
+      const { matchExpression, terms } = parseSearchQuery(query);
+      const searchTerms = terms.map(term => term.toLowerCase());
+
+      if (!matchExpression) {
+        logger.debug(`Search query "${query}" contains no searchable terms`);
+        return [];
       }
 
-      // Simpler search approach: query documents directly
+      // Rank matches with bm25, weighting each FTS column. bm25() returns
+      // lower values for better matches, so negate it to get a score where
+      // higher means more relevant.
       let sql = `
         SELECT 
           d.id, d.type, d.path, d.content,
-          d.title, d.description, d.author, d.created_at, d.updated_at, d.meta_json,
-          (SELECT GROUP_CONCAT(tag) FROM document_tags WHERE document_id = d.id) as tags
-        FROM documents d
-        WHERE 1=1
+          d.title, d.description, d.author, d.created_at, d.updated_at, d.meta_json, d.content_hash,
+          (SELECT GROUP_CONCAT(tag) FROM document_tags WHERE document_id = d.id) as tags,
+          -bm25(documents_fts, ${FTS_COLUMN_WEIGHTS.join(', ')}) as score
+        FROM documents_fts
+        JOIN documents d ON d.id = documents_fts.rowid
+        WHERE documents_fts MATCH ?
       `;
       
-      const whereConditions: string[] = [];
-      const params: any[] = [];
-      
-      // Build content search conditions
-      const contentConditions = searchTerms.map(() => {
-        return "(d.content LIKE ? OR d.title LIKE ? OR d.description LIKE ? OR EXISTS (SELECT 1 FROM document_tags dt WHERE dt.document_id = d.id AND dt.tag LIKE ?))";
-      });
-      
-      if (contentConditions.length > 0) {
-        whereConditions.push(contentConditions.join(' AND '));
-        searchTerms.forEach(term => {
-          const likePattern = `%${term}%`;
-          params.push(likePattern, likePattern, likePattern, likePattern);
-        });
-      }
-      
-      // Apply type filter
-      if (type) {
-        whereConditions.push('d.type = ?');
-        params.push(type);
-      }
-
-      // Apply language filter for stdlib documents
-      if (language) {
-        whereConditions.push("(d.type = 'stdlib' AND d.path LIKE ?)");
-        params.push(`${language}/%`);
-      }
-
-      // Apply project filter for spec documents
-      if (project) {
-        whereConditions.push("(d.type = 'spec' AND d.path LIKE ?)");
-        params.push(`${project}/%`);
-      }
+      const scope = this.scopeConditions(type, language, project);
+      const whereConditions = scope.conditions;
+      const params: string[] = [matchExpression, ...scope.params];
 
       // Add WHERE clause
       if (whereConditions.length > 0) {
         sql += ' AND ' + whereConditions.join(' AND ');
       }
       
-      // Order by most matches in content and title
-      sql += ' ORDER BY d.title';
+      // Order by relevance, using the title to keep ties stable
+      sql += ' ORDER BY score DESC, d.title';
       
-      logger.debug(`Using simple SQL search: ${sql}`);
+      logger.debug(`Using FTS search: ${sql} (MATCH ${matchExpression})`);
       
       // Execute query
-      const rows = this.db.prepare(sql).all(...params) as any[];
+      const rows = allowed(this.db.prepare(sql).all(...params) as any[]);
       
       // Create a map for highlight matches
       const matchesById = new Map();
@@ -478,7 +634,7 @@ export class SQLiteDocumentIndex {
               // Highlight the terms in the matched line
               let highlightedLine = matchedLine;
               searchTerms.forEach(term => {
-                const regex = new RegExp(`(${term})`, 'gi');
+                const regex = new RegExp(`(${escapeRegExp(term)})`, 'gi');
                 highlightedLine = highlightedLine.replace(regex, '**$1**');
               });
               matchInfo.content_match = highlightedLine;
@@ -491,7 +647,7 @@ export class SQLiteDocumentIndex {
             if (searchTerms.some(term => lowerTitle.includes(term.toLowerCase()))) {
               let highlightedTitle = row.title;
               searchTerms.forEach(term => {
-                const regex = new RegExp(`(${term})`, 'gi');
+                const regex = new RegExp(`(${escapeRegExp(term)})`, 'gi');
                 highlightedTitle = highlightedTitle.replace(regex, '**$1**');
               });
               matchInfo.title_match = highlightedTitle;
@@ -504,7 +660,7 @@ export class SQLiteDocumentIndex {
             if (searchTerms.some(term => lowerDesc.includes(term.toLowerCase()))) {
               let highlightedDesc = row.description;
               searchTerms.forEach(term => {
-                const regex = new RegExp(`(${term})`, 'gi');
+                const regex = new RegExp(`(${escapeRegExp(term)})`, 'gi');
                 highlightedDesc = highlightedDesc.replace(regex, '**$1**');
               });
               matchInfo.desc_match = highlightedDesc;
@@ -529,11 +685,243 @@ export class SQLiteDocumentIndex {
       
       return results;
     } catch (error) {
+      // Malformed queries are the caller's problem, not an index failure
+      if (error instanceof QueryParseError) {
+        throw error;
+      }
       logger.error(`Error searching in SQLite index: ${error instanceof Error ? error.message : String(error)}`);
       return [];
+    } finally {
+      stopTimer();
     }
   }
 
+  /**
+   * Search for the passages of documents matching the query
+   * Documents are matched as a whole through documents_fts, exactly as by
+   * search(), so terms may sit in different sections and excluded terms
+   * exclude the whole document. The heading-bounded chunks of each matching
+   * document (see document-chunks.ts) that contain any of the query's
+   * unscoped terms are then ranked by bm25 in chunks_fts. A document
+   * matched only through its metadata, or with no chunks, is returned
+   * whole as a single passage.
+   * Passages are ordered by the relevance of their document, then by their
+   * own. A wildcard query has no passages and returns none.
+   * Documents rejected by options.filter are skipped.
+   * @param options limit: the most passages to return (default 10)
+   * @throws {QueryParseError} If the query is malformed
+   */
+  async searchPassages(
+    query: string,
+    options: {
+      type?: DocumentType;
+      language?: string;
+      project?: string;
+      limit?: number;
+      filter?: (type: DocumentType, path: string) => boolean;
+    } = {}
+  ): Promise<PassageResult[]> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const { type, language, project, limit = 10, filter } = options;
+    logger.debug(`Passage search query: "${query}" (Options: ${JSON.stringify(options)})`);
+
+    if (query.trim() === '*' || query.trim() === '') {
+      return [];
+    }
+
+    const stopTimer = searchDuration.startTimer({ kind: 'passage' });
+
+    try {
+      const { matchExpression, contentExpression } = parseSearchQuery(query);
+      if (!matchExpression) {
+        logger.debug(`Search query "${query}" contains no searchable terms`);
+        return [];
+      }
+
+      const scope = this.scopeConditions(type, language, project);
+      const documentStmt = this.db.prepare(`
+        SELECT
+          d.id, d.type, d.path, d.content,
+          d.title, d.description, d.author, d.created_at, d.updated_at, d.meta_json, d.content_hash,
+          (SELECT GROUP_CONCAT(tag) FROM document_tags WHERE document_id = d.id) as tags,
+          -bm25(documents_fts, ${FTS_COLUMN_WEIGHTS.join(', ')}) as score
+        FROM documents_fts
+        JOIN documents d ON d.id = documents_fts.rowid
+        WHERE documents_fts MATCH ?
+        ${scope.conditions.map(condition => `AND ${condition}`).join(' ')}
+        ORDER BY score DESC, d.title
+      `);
+      const chunkStmt = this.db.prepare(`
+        SELECT
+          c.heading_path, c.start_line, c.end_line, c.content,
+          -bm25(chunks_fts, ${CHUNK_FTS_COLUMN_WEIGHTS.join(', ')}) as score
+        FROM chunks_fts
+        JOIN document_chunks c ON c.id = chunks_fts.rowid
+        WHERE chunks_fts MATCH ? AND c.document_id = ?
+        ORDER BY score DESC, c.chunk_index
+      `);
+
+      // Read ranked documents until enough passages are found
+      const passages: PassageResult[] = [];
+      const documentRows = documentStmt.iterate(matchExpression, ...scope.params) as Iterable<DocumentRow & { score: number }>;
+      for (const row of documentRows) {
+        if (passages.length >= limit) break;
+        if (filter && !filter(row.type, row.path)) continue;
+
+        const document = this.rowToDocument(row, false);
+        const revision = row.content_hash ? toRevision(row.content_hash) : undefined;
+        const chunks = contentExpression
+          ? chunkStmt.all(contentExpression, row.id) as ChunkRow[]
+          : [];
+
+        if (chunks.length === 0) {
+          const lines = splitLines(row.content ?? '');
+          while (lines.length > 1 && lines[lines.length - 1].trim() === '') lines.pop();
+          passages.push({
+            document,
+            headingPath: [],
+            startLine: 1,
+            endLine: lines.length,
+            text: lines.join('\n'),
+            score: row.score,
+            revision,
+            wholeDocument: true
+          });
+          continue;
+        }
+
+        for (const chunk of chunks.slice(0, limit - passages.length)) {
+          passages.push({
+            document,
+            headingPath: JSON.parse(chunk.heading_path),
+            startLine: chunk.start_line + 1,
+            endLine: chunk.end_line,
+            text: chunk.content,
+            score: chunk.score,
+            revision
+          });
+        }
+      }
+
+      logger.debug(`Passage search found ${passages.length} passages`);
+      return passages;
+    } catch (error) {
+      // Malformed queries are the caller's problem, not an index failure
+      if (error instanceof QueryParseError) {
+        throw error;
+      }
+      logger.error(`Error searching passages in SQLite index: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    } finally {
+      stopTimer();
+    }
+  }
+
+  /**
+   * Build the WHERE conditions, on documents aliased as d, that limit a
+   * search to a document type, language or project
+   */
+  private scopeConditions(
+    type: DocumentType | undefined,
+    language: string | undefined,
+    project: string | undefined
+  ): { conditions: string[]; params: string[] } {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    // Apply type filter
+    if (type) {
+      conditions.push('d.type = ?');
+      params.push(type);
+    }
+
+    // Apply language filter for stdlib documents
+    if (language) {
+      conditions.push("(d.type = 'stdlib' AND d.path LIKE ?)");
+      params.push(`${language}/%`);
+    }
+
+    // Apply project filter for spec documents
+    if (project) {
+      conditions.push("(d.type = 'spec' AND d.path LIKE ?)");
+      params.push(`${project}/%`);
+    }
+
+    return { conditions, params };
+  }
+
+  /**
+   * Split a document's content into chunks and store them in document_chunks
+   * Adding the chunks to chunks_fts is left to the caller, so the index can
+   * be rebuilt in one statement at startup
+   */
+  private insertChunks(db: Database.Database, documentId: number, content: string): void {
+    const insertChunkStmt = db.prepare(`
+      INSERT INTO document_chunks (
+        document_id, chunk_index, heading, heading_path, start_line, end_line, content
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const chunk of chunkDocument(content)) {
+      insertChunkStmt.run(
+        documentId,
+        chunk.index,
+        chunk.headingPath.join(HEADING_PATH_SEPARATOR),
+        JSON.stringify(chunk.headingPath),
+        chunk.startLine,
+        chunk.endLine,
+        chunk.content
+      );
+    }
+  }
+
+  /**
+   * Delete a document's chunks and their full-text rows
+   */
+  private deleteChunks(db: Database.Database, documentId: number): void {
+    db.prepare('DELETE FROM chunks_fts WHERE rowid IN (SELECT id FROM document_chunks WHERE document_id = ?)')
+      .run(documentId);
+    db.prepare('DELETE FROM document_chunks WHERE document_id = ?').run(documentId);
+  }
+
+  /**
+   * Convert a row of the documents table to a Document
+   */
+  private rowToDocument(row: DocumentRow, includeContent: boolean): Document {
+    // Parse metadata
+    let meta: any;
+    try {
+      meta = JSON.parse(row.meta_json || '{}');
+    } catch (e) {
+      // Fallback to constructing metadata from individual fields
+      meta = {
+        title: row.title,
+        description: row.description,
+        author: row.author,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+      };
+    }
+
+    // Add tags if they exist
+    if (row.tags) {
+      meta.tags = row.tags.split(',');
+    }
+
+    return {
+      path: row.path,
+      type: row.type as DocumentType,
+      content: includeContent ? row.content ?? '' : '',
+      meta
+    };
+  }
+
   /**
    * Convert database rows to SearchResult objects
    */
@@ -544,32 +932,7 @@ export class SQLiteDocumentIndex {
     matchesById: Map<number, any> = new Map()
   ): SearchResult[] {
     return rows.map(row => {
-      // Parse metadata
-      let meta: any;
-      try {
-        meta = JSON.parse(row.meta_json || '{}');
-      } catch (e) {
-        // Fallback to constructing metadata from individual fields
-        meta = {
-          title: row.title,
-          description: row.description,
-          author: row.author,
-          createdAt: row.created_at,
-          updatedAt: row.updated_at
-        };
-      }
-
-      // Add tags if they exist
-      if (row.tags) {
-        meta.tags = row.tags.split(',');
-      }
-
-      const document: Document = {
-        path: row.path,
-        type: row.type as DocumentType,
-        content: includeContent ? row.content : '',
-        meta
-      };
+      const document = this.rowToDocument(row, includeContent);
 
       const result: SearchResult = { document };
 
@@ -628,8 +991,12 @@ export class SQLiteDocumentIndex {
       }
       
       // Add score if available
-      if (row.rank !== undefined) {
-        result.score = row.rank;
+      if (row.score !== undefined && row.score !== null) {
+        result.score = row.score;
+      }
+
+      if (row.content_hash) {
+        result.revision = toRevision(row.content_hash);
       }
 
       return result;
@@ -638,7 +1005,7 @@ export class SQLiteDocumentIndex {
 
   /**
    * Get document metadata from the database
-   * Used to check if a document exists and get its update timestamp
+   * Used to check if a document exists and get its update timestamp and content hash
    * @param type The document type (stdlib or spec)
    * @param path The document path
    * @returns Document metadata or null if not found
@@ -646,6 +1013,7 @@ export class SQLiteDocumentIndex {
   async getDocumentMetadata(type: DocumentType, path: string): Promise<{
     id: number;
     updatedAt: string | null;
+    contentHash: string | null;
   } | null> {
     if (!this.db) {
       await this.initialize();
@@ -658,13 +1026,14 @@ export class SQLiteDocumentIndex {
     try {
       // Query for document metadata
       const result = this.db.prepare(
-        'SELECT id, updated_at FROM documents WHERE type = ? AND path = ?'
-      ).get(type, path) as { id: number; updated_at: string | null } | undefined;
+        'SELECT id, updated_at, content_hash FROM documents WHERE type = ? AND path = ?'
+      ).get(type, path) as { id: number; updated_at: string | null; content_hash: string | null } | undefined;
       
       if (result) {
         return {
           id: result.id,
-          updatedAt: result.updated_at
+          updatedAt: result.updated_at,
+          contentHash: result.content_hash
         };
       }
       return null;
@@ -682,6 +1051,7 @@ export class SQLiteDocumentIndex {
     id: number;
     type: DocumentType;
     updatedAt: string | null;
+    contentHash: string | null;
   }>> {
     if (!this.db) {
       await this.initialize();
@@ -695,13 +1065,20 @@ export class SQLiteDocumentIndex {
       id: number;
       type: DocumentType;
       updatedAt: string | null;
+      contentHash: string | null;
     }>();
 
     try {
       // Query for all documents metadata
       const results = this.db.prepare(
-        'SELECT id, type, path, updated_at FROM documents'
-      ).all() as { id: number; type: DocumentType; path: string; updated_at: string | null }[];
+        'SELECT id, type, path, updated_at, content_hash FROM documents'
+      ).all() as {
+        id: number;
+        type: DocumentType;
+        path: string;
+        updated_at: string | null;
+        content_hash: string | null;
+      }[];
       
       for (const doc of results) {
         // Use type+path as key for efficient lookups
@@ -709,7 +1086,8 @@ export class SQLiteDocumentIndex {
         documentsMap.set(key, {
           id: doc.id,
           type: doc.type,
-          updatedAt: doc.updated_at
+          updatedAt: doc.updated_at,
+          contentHash: doc.content_hash
         });
       }
       
@@ -720,12 +1098,121 @@ export class SQLiteDocumentIndex {
     }
   }
 
+  /**
+   * List indexed documents ordered by type and path, one page at a time
+   * Uses keyset pagination, so a page is not shifted by documents that are
+   * added or removed while a client is paging through the list
+   * @param options after: the last document of the previous page; limit: the page size;
+   *   filter: documents to include (the page is filled from the following documents)
+   * @returns Summaries of the documents in the page
+   */
+  async listDocumentSummaries(options: {
+    after?: { type: DocumentType; path: string };
+    limit?: number;
+    filter?: (type: DocumentType, path: string) => boolean;
+  } = {}): Promise<DocumentSummary[]> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const { after, limit = 100, filter } = options;
+    const statement = this.db.prepare(`
+      SELECT type, path, title, description FROM documents
+      ${after ? 'WHERE (type, path) > (?, ?)' : ''}
+      ORDER BY type, path
+      ${filter ? '' : 'LIMIT ?'}
+    `);
+    const params = [...(after ? [after.type, after.path] : []), ...(filter ? [] : [limit])];
+
+    // With a filter the page size is unknown up front, so read rows until the page is full
+    const rows: { type: DocumentType; path: string; title: string; description: string | null }[] = [];
+    for (const row of statement.iterate(...params) as Iterable<typeof rows[number]>) {
+      if (rows.length >= limit) break;
+      if (!filter || filter(row.type, row.path)) {
+        rows.push(row);
+      }
+    }
+
+    return rows.map(row => ({
+      type: row.type,
+      path: row.path,
+      title: row.title,
+      description: row.description || undefined
+    }));
+  }
+
+  /**
+   * Count the indexed documents of each project (specs) and language (stdlib)
+   * @returns The count for every type and first path segment with documents
+   */
+  async countDocuments(): Promise<{ type: DocumentType; directory: string; count: number }[]> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    return this.db.prepare(`
+      SELECT type, substr(path, 1, instr(path, '/') - 1) AS directory, COUNT(*) AS count
+      FROM documents
+      GROUP BY type, directory
+      ORDER BY type, directory
+    `).all() as { type: DocumentType; directory: string; count: number }[];
+  }
+
+  /**
+   * Check the database for corruption and the full-text index for rows that
+   * are missing or left over
+   * @param options Set quick to run SQLite's quick check, which skips checking
+   *   that indexes match their tables, instead of the full integrity check
+   * @returns The problems reported by SQLite's integrity check (none if it
+   *   passed) and the number of rows in documents and documents_fts
+   */
+  async checkIntegrity(options: { quick?: boolean } = {}): Promise<{ problems: string[]; documents: number; ftsRows: number }> {
+    const db = await this.getDatabase();
+
+    const pragma = options.quick ? 'quick_check' : 'integrity_check';
+    const problems = (db.pragma(pragma) as Record<string, string>[])
+      .map(row => row[pragma])
+      .filter(result => result !== 'ok');
+    const count = (table: string) =>
+      (db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+
+    return { problems, documents: count('documents'), ftsRows: count('documents_fts') };
+  }
+
+  /**
+   * Get the database connection, initializing the index if needed
+   * Lets other stores, such as the HTTP event store, keep their tables in the
+   * same database file
+   */
+  async getDatabase(): Promise<Database.Database> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    return this.db;
+  }
+
   /**
    * Close the database connection
+   * Checkpoints the WAL first, so the database file is complete on its own
+   * once the server has stopped
    */
   async close(): Promise<void> {
     if (this.db) {
       try {
+        this.db.pragma('wal_checkpoint(TRUNCATE)');
         this.db.close();
         this.db = null;
         this.initialized = false;
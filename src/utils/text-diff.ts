@@ -0,0 +1,188 @@
+/**
+ * Line-based diff of two texts
+ */
+
+/**
+ * A line kept, removed from the old text or added in the new text
+ */
+export interface DiffLine {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+/**
+ * Find the middle snake of the shortest edit script between two ranges of
+ * lines: the run of equal lines in the middle of the path, found by searching
+ * from both ends until the searches overlap
+ * @returns The start and end of the snake, as [oldStart, newStart, oldEnd, newEnd]
+ */
+function middleSnake(
+  oldLines: string[], oldLo: number, oldHi: number,
+  newLines: string[], newLo: number, newHi: number
+): [number, number, number, number] {
+  const n = oldHi - oldLo;
+  const m = newHi - newLo;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+
+  // forward[k + offset] is the furthest x reached on diagonal k from the
+  // start; backward[c + offset] the furthest reached from the end on the
+  // reversed diagonal c, which is diagonal delta - c from the start
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      const startX = k === -d || (k !== d && forward[k - 1 + offset] < forward[k + 1 + offset])
+        ? forward[k + 1 + offset]
+        : forward[k - 1 + offset] + 1;
+      const startY = startX - k;
+      let x = startX;
+      let y = startY;
+      while (x < n && y < m && oldLines[oldLo + x] === newLines[newLo + y]) {
+        x++;
+        y++;
+      }
+      forward[k + offset] = x;
+      const c = delta - k;
+      if (odd && c >= -(d - 1) && c <= d - 1 && x + backward[c + offset] >= n) {
+        return [oldLo + startX, newLo + startY, oldLo + x, newLo + y];
+      }
+    }
+
+    for (let c = -d; c <= d; c += 2) {
+      const startX = c === -d || (c !== d && backward[c - 1 + offset] < backward[c + 1 + offset])
+        ? backward[c + 1 + offset]
+        : backward[c - 1 + offset] + 1;
+      const startY = startX - c;
+      let x = startX;
+      let y = startY;
+      while (x < n && y < m && oldLines[oldHi - 1 - x] === newLines[newHi - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[c + offset] = x;
+      const k = delta - c;
+      if (!odd && k >= -d && k <= d && forward[k + offset] + x >= n) {
+        return [oldHi - x, newHi - y, oldHi - startX, newHi - startY];
+      }
+    }
+  }
+
+  throw new Error('Diff search did not converge');
+}
+
+/**
+ * Diff two ranges of lines, appending the result
+ */
+function diffRange(
+  oldLines: string[], oldLo: number, oldHi: number,
+  newLines: string[], newLo: number, newHi: number,
+  result: DiffLine[]
+): void {
+  // Lines shared at the start and end are kept as they are
+  while (oldLo < oldHi && newLo < newHi && oldLines[oldLo] === newLines[newLo]) {
+    result.push({ type: 'equal', line: oldLines[oldLo++] });
+    newLo++;
+  }
+  let suffix = 0;
+  while (oldLo < oldHi - suffix && newLo < newHi - suffix &&
+    oldLines[oldHi - 1 - suffix] === newLines[newHi - 1 - suffix]) {
+    suffix++;
+  }
+  oldHi -= suffix;
+  newHi -= suffix;
+
+  if (oldLo === oldHi) {
+    for (let y = newLo; y < newHi; y++) result.push({ type: 'insert', line: newLines[y] });
+  } else if (newLo === newHi) {
+    for (let x = oldLo; x < oldHi; x++) result.push({ type: 'delete', line: oldLines[x] });
+  } else {
+    // Both ranges differ at their first and last lines, so the edit script
+    // has at least two edits and the snake splits it into two smaller ones
+    const [x, y, u, v] = middleSnake(oldLines, oldLo, oldHi, newLines, newLo, newHi);
+    diffRange(oldLines, oldLo, x, newLines, newLo, y, result);
+    for (let i = x; i < u; i++) result.push({ type: 'equal', line: oldLines[i] });
+    diffRange(oldLines, u, oldHi, newLines, v, newHi, result);
+  }
+
+  for (let i = oldHi; i < oldHi + suffix; i++) result.push({ type: 'equal', line: oldLines[i] });
+}
+
+/**
+ * Diff two lists of lines using the linear space variant of Myers' algorithm,
+ * which finds the shortest edit script in O((n + m) * d) time for d differing
+ * lines and O(n + m) memory
+ * @returns The lines of both texts in order, marked as kept, removed or added
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const result: DiffLine[] = [];
+  diffRange(oldLines, 0, oldLines.length, newLines, 0, newLines.length, result);
+  return result;
+}
+
+/**
+ * Format the differences between two texts as a unified diff
+ * @param oldText The old text
+ * @param newText The new text
+ * @param labels Names of the old and new text for the --- and +++ lines
+ * @param context Number of unchanged lines shown around each change
+ * @returns The diff, or an empty string if the texts are equal
+ */
+export function formatUnifiedDiff(
+  oldText: string,
+  newText: string,
+  labels: { old: string; new: string },
+  context = 3
+): string {
+  const diff = diffLines(oldText.split('\n'), newText.split('\n'));
+
+  // Number the lines of both texts
+  let oldLine = 1;
+  let newLine = 1;
+  const lines = diff.map(entry => {
+    const numbered = { ...entry, oldLine, newLine };
+    if (entry.type !== 'insert') oldLine++;
+    if (entry.type !== 'delete') newLine++;
+    return numbered;
+  });
+
+  const output = [`--- ${labels.old}`, `+++ ${labels.new}`];
+  let index = 0;
+  while (index < lines.length) {
+    const start = lines.findIndex((line, i) => i >= index && line.type !== 'equal');
+    if (start === -1) break;
+
+    // Changes separated by fewer unchanged lines than twice the context
+    // share a hunk
+    let end = start;
+    let next = start + 1;
+    while (next < lines.length) {
+      if (lines[next].type !== 'equal') {
+        end = next++;
+        continue;
+      }
+      let unchanged = next;
+      while (unchanged < lines.length && lines[unchanged].type === 'equal') unchanged++;
+      if (unchanged === lines.length || unchanged - next > 2 * context) break;
+      next = unchanged;
+    }
+
+    const hunk = lines.slice(Math.max(index, start - context), Math.min(lines.length, end + context + 1));
+    const oldCount = hunk.filter(line => line.type !== 'insert').length;
+    const newCount = hunk.filter(line => line.type !== 'delete').length;
+    // An empty range is numbered by the line before it, as in diff -u
+    const oldStart = oldCount === 0 ? hunk[0].oldLine - 1 : hunk[0].oldLine;
+    const newStart = newCount === 0 ? hunk[0].newLine - 1 : hunk[0].newLine;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.type === 'equal' ? ' ' : line.type === 'delete' ? '-' : '+'}${line.line}`);
+    }
+    index = Math.min(lines.length, end + context + 1);
+  }
+
+  return output.length > 2 ? output.join('\n') : '';
+}
@@ -0,0 +1,122 @@
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { AccessControl, AccessControlError } from '../src/utils/access-control.js';
+
+const acl = {
+  principals: {
+    'payments-team': {
+      projects: { payments: 'write', '*': 'read' },
+      languages: { '*': 'read' }
+    },
+    'docs-bot': {
+      projects: { '*': 'write' }
+    },
+    '*': {
+      projects: { '*': 'read', payments: 'none' },
+      languages: { '*': 'read', python: 'write' }
+    }
+  }
+};
+
+function principal(clientId: string) {
+  return { token: 'token', clientId, scopes: ['read', 'write'] };
+}
+
+describe('Access Control', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jane-acl-test-'));
+  });
+
+  afterAll(async () => {
+    await fs.remove(tempDir);
+  });
+
+  async function loadAcl(content: unknown): Promise<AccessControl> {
+    const aclPath = path.join(tempDir, `acl-${Math.random().toString(36).slice(2)}.json`);
+    await fs.writeFile(aclPath, typeof content === 'string' ? content : JSON.stringify(content));
+
+    const accessControl = new AccessControl();
+    await accessControl.load(aclPath);
+    return accessControl;
+  }
+
+  test('should allow everything when there is no ACL file', async () => {
+    const accessControl = new AccessControl();
+    await accessControl.load(path.join(tempDir, 'missing.json'));
+
+    expect(accessControl.enabled).toBe(false);
+    expect(accessControl.getAccessLevel(principal('anyone'), 'spec', 'payments')).toBe('write');
+    expect(accessControl.readFilter(principal('anyone'))).toBeUndefined();
+  });
+
+  test('should allow everything for requests that are not authenticated', async () => {
+    const accessControl = await loadAcl(acl);
+
+    expect(accessControl.enabled).toBe(true);
+    expect(accessControl.getAccessLevel(undefined, 'spec', 'payments')).toBe('write');
+    expect(accessControl.readFilter(undefined)).toBeUndefined();
+  });
+
+  test('should resolve levels for named principals', async () => {
+    const accessControl = await loadAcl(acl);
+    const team = principal('payments-team');
+
+    expect(accessControl.getAccessLevel(team, 'spec', 'payments')).toBe('write');
+    expect(accessControl.getAccessLevel(team, 'spec', 'billing')).toBe('read');
+    expect(accessControl.getAccessLevel(team, 'stdlib', 'python')).toBe('read');
+  });
+
+  test('should fall back to the "*" principal and deny anything not granted', async () => {
+    const accessControl = await loadAcl(acl);
+
+    expect(accessControl.getAccessLevel(principal('someone'), 'spec', 'payments')).toBe('none');
+    expect(accessControl.getAccessLevel(principal('someone'), 'spec', 'billing')).toBe('read');
+    expect(accessControl.getAccessLevel(principal('someone'), 'stdlib', 'python')).toBe('write');
+
+    // Named principals do not inherit from "*"
+    expect(accessControl.getAccessLevel(principal('docs-bot'), 'stdlib', 'python')).toBe('none');
+
+    const noDefault = await loadAcl({ principals: { 'payments-team': acl.principals['payments-team'] } });
+    expect(noDefault.getAccessLevel(principal('someone'), 'spec', 'billing')).toBe('none');
+  });
+
+  test('should not treat Object properties as project names', async () => {
+    const accessControl = await loadAcl({ principals: { '*': { projects: { payments: 'read' } } } });
+
+    expect(accessControl.getAccessLevel(principal('someone'), 'spec', 'constructor')).toBe('none');
+    expect(accessControl.getAccessLevel(principal('someone'), 'spec', '__proto__')).toBe('none');
+  });
+
+  test('should check access to documents by their first path segment', async () => {
+    const accessControl = await loadAcl(acl);
+    const team = principal('payments-team');
+
+    expect(accessControl.canAccess(team, 'spec', 'payments/api/refunds.md', 'write')).toBe(true);
+    expect(accessControl.canAccess(team, 'spec', 'billing/invoices.md', 'read')).toBe(true);
+    expect(accessControl.canAccess(team, 'spec', 'billing/invoices.md', 'write')).toBe(false);
+    expect(accessControl.canAccess(principal('someone'), 'spec', 'payments/api.md', 'read')).toBe(false);
+  });
+
+  test('should build a read filter for authenticated principals', async () => {
+    const accessControl = await loadAcl(acl);
+    const filter = accessControl.readFilter(principal('someone'))!;
+
+    expect(filter('spec', 'billing/invoices.md')).toBe(true);
+    expect(filter('spec', 'payments/api.md')).toBe(false);
+  });
+
+  test.each([
+    ['{ not json', 'Failed to read ACL file'],
+    [{}, 'expected a "principals" object'],
+    [{ principals: { ci: 'read' } }, 'principal "ci": expected an object'],
+    [{ principals: { ci: { projects: ['payments'] } } }, 'principal "ci" projects: expected an object'],
+    [{ principals: { ci: { languages: { python: 'admin' } } } }, 'invalid access level "admin" for "python"']
+  ])('should reject invalid ACL file %#', async (content, message) => {
+    await expect(loadAcl(content)).rejects.toThrow(AccessControlError);
+    await expect(loadAcl(content)).rejects.toThrow(message);
+  });
+});
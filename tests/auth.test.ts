@@ -0,0 +1,170 @@
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import {
+  Authenticator,
+  AuthError,
+  createAuthToken,
+  hasScope,
+  loadApiKeys
+} from '../src/utils/auth.js';
+
+const SECRET = 'test-secret-that-is-long-enough-to-use';
+const READ_KEY = 'read-only-key-0123456789';
+const WRITE_KEY = 'read-write-key-0123456789';
+
+describe('Authentication', () => {
+  describe('loadApiKeys', () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jane-auth-test-'));
+    });
+
+    afterAll(async () => {
+      await fs.remove(tempDir);
+    });
+
+    async function writeKeysFile(content: unknown): Promise<string> {
+      const filePath = path.join(tempDir, `keys-${Math.random().toString(36).slice(2)}.json`);
+      await fs.writeFile(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+      return filePath;
+    }
+
+    test('should load keys and add "read" to write scopes', async () => {
+      const filePath = await writeKeysFile({
+        keys: [
+          { key: READ_KEY, principal: 'reader', scopes: ['read'] },
+          { key: WRITE_KEY, principal: 'writer', scopes: ['write'] }
+        ]
+      });
+
+      expect(await loadApiKeys(filePath)).toEqual([
+        { key: READ_KEY, principal: 'reader', scopes: ['read'] },
+        { key: WRITE_KEY, principal: 'writer', scopes: ['read', 'write'] }
+      ]);
+    });
+
+    test('should keep the metrics scope apart from document access', async () => {
+      const filePath = await writeKeysFile({
+        keys: [
+          { key: READ_KEY, principal: 'prometheus', scopes: ['metrics'] },
+          { key: WRITE_KEY, principal: 'admin', scopes: ['metrics', 'write'] }
+        ]
+      });
+
+      expect(await loadApiKeys(filePath)).toEqual([
+        { key: READ_KEY, principal: 'prometheus', scopes: ['metrics'] },
+        { key: WRITE_KEY, principal: 'admin', scopes: ['read', 'write', 'metrics'] }
+      ]);
+    });
+
+    test.each([
+      ['not json', 'Failed to read API keys file'],
+      [{ keys: 'abc' }, 'expected a "keys" array'],
+      [{ keys: [{ key: 'short', principal: 'p', scopes: ['read'] }] }, 'at least 16 characters'],
+      [{ keys: [{ key: READ_KEY, principal: '', scopes: ['read'] }] }, 'principal must be a non-empty string'],
+      [{ keys: [{ key: READ_KEY, principal: 'p', scopes: [] }] }, 'scopes must be a non-empty array'],
+      [{ keys: [{ key: READ_KEY, principal: 'p', scopes: ['admin'] }] }, 'unknown scope "admin"'],
+      [
+        { keys: [{ key: READ_KEY, principal: 'a', scopes: ['read'] }, { key: READ_KEY, principal: 'b', scopes: ['read'] }] },
+        'entry 1: duplicate key'
+      ]
+    ])('should reject invalid file %#', async (content, message) => {
+      const filePath = await writeKeysFile(content);
+
+      await expect(loadApiKeys(filePath)).rejects.toThrow(AuthError);
+      await expect(loadApiKeys(filePath)).rejects.toThrow(message);
+    });
+
+    test('should reject a missing file', async () => {
+      await expect(loadApiKeys(path.join(tempDir, 'missing.json'))).rejects.toThrow('Failed to read API keys file');
+    });
+  });
+
+  describe('Authenticator', () => {
+    const authenticator = new Authenticator({
+      apiKeys: [
+        { key: READ_KEY, principal: 'reader', scopes: ['read'] },
+        { key: WRITE_KEY, principal: 'writer', scopes: ['read', 'write'] }
+      ],
+      tokenSecret: SECRET
+    });
+
+    test('should only be enabled when credentials are configured', () => {
+      expect(new Authenticator().enabled).toBe(false);
+      expect(new Authenticator({ tokenSecret: SECRET }).enabled).toBe(true);
+      expect(authenticator.enabled).toBe(true);
+    });
+
+    test('should authenticate API keys', () => {
+      expect(authenticator.authenticate(`Bearer ${READ_KEY}`)).toEqual({
+        token: READ_KEY,
+        clientId: 'reader',
+        scopes: ['read']
+      });
+      expect(authenticator.authenticate(`bearer ${WRITE_KEY}`).scopes).toEqual(['read', 'write']);
+    });
+
+    test('should authenticate signed tokens', () => {
+      const now = Date.UTC(2025, 0, 1);
+      const token = createAuthToken(SECRET, { principal: 'ci', scopes: ['read'], expiresIn: 60 }, now);
+
+      expect(authenticator.authenticate(`Bearer ${token}`, now + 1000)).toEqual({
+        token,
+        clientId: 'ci',
+        scopes: ['read'],
+        expiresAt: now / 1000 + 60
+      });
+    });
+
+    test('should reject expired tokens', () => {
+      const now = Date.UTC(2025, 0, 1);
+      const token = createAuthToken(SECRET, { principal: 'ci', scopes: ['read'], expiresIn: 60 }, now);
+
+      expect(() => authenticator.authenticate(`Bearer ${token}`, now + 60_000)).toThrow('Token has expired');
+    });
+
+    test('should reject tokens signed with another secret or modified', () => {
+      const forged = createAuthToken('another-secret-that-is-long-enough', { principal: 'ci', scopes: ['write'] });
+      expect(() => authenticator.authenticate(`Bearer ${forged}`)).toThrow('Invalid credentials');
+
+      const token = createAuthToken(SECRET, { principal: 'ci', scopes: ['read'] });
+      const [, signature] = token.split('.');
+      const escalated = Buffer.from(JSON.stringify({ sub: 'ci', scopes: ['read', 'write'], iat: 0 })).toString('base64url');
+      expect(() => authenticator.authenticate(`Bearer ${escalated}.${signature}`)).toThrow('Invalid credentials');
+    });
+
+    test('should reject tokens when no secret is configured', () => {
+      const keysOnly = new Authenticator({ apiKeys: [{ key: READ_KEY, principal: 'reader', scopes: ['read'] }] });
+      const token = createAuthToken(SECRET, { principal: 'ci', scopes: ['read'] });
+
+      expect(() => keysOnly.authenticate(`Bearer ${token}`)).toThrow('Invalid credentials');
+    });
+
+    test.each([
+      [undefined, 'Missing bearer token'],
+      ['', 'Missing bearer token'],
+      [`Basic ${READ_KEY}`, 'Missing bearer token'],
+      ['Bearer unknown-key-0123456789', 'Invalid credentials']
+    ])('should reject authorization header %j', (header, message) => {
+      expect(() => authenticator.authenticate(header)).toThrow(AuthError);
+      expect(() => authenticator.authenticate(header)).toThrow(message);
+    });
+  });
+
+  describe('hasScope', () => {
+    test('should trust requests without auth info', () => {
+      expect(hasScope(undefined, 'write')).toBe(true);
+    });
+
+    test('should check the granted scopes', () => {
+      const reader = { token: 't', clientId: 'reader', scopes: ['read'] };
+
+      expect(hasScope(reader, 'read')).toBe(true);
+      expect(hasScope(reader, 'write')).toBe(false);
+      expect(hasScope(reader, 'metrics')).toBe(false);
+    });
+  });
+});
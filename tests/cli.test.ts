@@ -0,0 +1,203 @@
+import { describe, test, expect, beforeAll, afterAll } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import {
+  parseCliOptions,
+  CliUsageError,
+  DEFAULT_PORT,
+  DEFAULT_HOST,
+  DEFAULT_SESSION_IDLE_TIMEOUT,
+  DEFAULT_MAX_SESSIONS,
+  DEFAULT_EVENT_RETENTION,
+  DEFAULT_MAX_EVENTS,
+  DEFAULT_SHUTDOWN_TIMEOUT,
+  DEFAULT_MAX_REMOVAL_RATIO
+} from '../src/cli.js';
+
+describe('CLI Options', () => {
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jane-cli-test-'));
+    await fs.writeFile(path.join(tempDir, 'not-a-dir'), '');
+  });
+
+  afterAll(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test('should default to the stdio transport', () => {
+    expect(parseCliOptions([], {})).toEqual({
+      transport: 'stdio',
+      port: DEFAULT_PORT,
+      host: DEFAULT_HOST,
+      janeDir: undefined,
+      dbPath: undefined,
+      sessionIdleTimeout: DEFAULT_SESSION_IDLE_TIMEOUT,
+      maxSessions: DEFAULT_MAX_SESSIONS,
+      eventRetention: DEFAULT_EVENT_RETENTION,
+      maxEvents: DEFAULT_MAX_EVENTS,
+      shutdownTimeout: DEFAULT_SHUTDOWN_TIMEOUT,
+      logLevel: undefined,
+      logFormat: 'text',
+      logFile: undefined,
+      readinessCheck: 'full',
+      watch: false,
+      forceReindex: false,
+      maxRemovalRatio: DEFAULT_MAX_REMOVAL_RATIO,
+      dryRun: false,
+      help: false
+    });
+  });
+
+  test('should parse flags with separate and inline values', () => {
+    const options = parseCliOptions(
+      ['--transport', 'http', '--port=8080', '--host', '127.0.0.1', '--jane-dir', tempDir, '--db-path=index.db', '--watch', '--force', '--dry-run'],
+      {}
+    );
+
+    expect(options).toEqual({
+      transport: 'http',
+      port: 8080,
+      host: '127.0.0.1',
+      janeDir: tempDir,
+      dbPath: path.resolve('index.db'),
+      sessionIdleTimeout: DEFAULT_SESSION_IDLE_TIMEOUT,
+      maxSessions: DEFAULT_MAX_SESSIONS,
+      eventRetention: DEFAULT_EVENT_RETENTION,
+      maxEvents: DEFAULT_MAX_EVENTS,
+      shutdownTimeout: DEFAULT_SHUTDOWN_TIMEOUT,
+      logLevel: undefined,
+      logFormat: 'text',
+      logFile: undefined,
+      readinessCheck: 'full',
+      watch: true,
+      forceReindex: true,
+      maxRemovalRatio: DEFAULT_MAX_REMOVAL_RATIO,
+      dryRun: true,
+      help: false
+    });
+  });
+
+  test('should read environment variables and let flags override them', () => {
+    const env = { JANE_TRANSPORT: 'http', JANE_PORT: '7000', JANE_HOST: 'localhost', JANE_DIR: tempDir };
+
+    expect(parseCliOptions([], env)).toEqual(expect.objectContaining({
+      transport: 'http',
+      port: 7000,
+      host: 'localhost',
+      janeDir: tempDir
+    }));
+    expect(parseCliOptions(['--port', '7001'], env).port).toBe(7001);
+  });
+
+  test('should read session limits', () => {
+    expect(parseCliOptions(['--session-idle-timeout', '0', '--max-sessions=5'], {})).toEqual(
+      expect.objectContaining({ sessionIdleTimeout: 0, maxSessions: 5 })
+    );
+    expect(parseCliOptions([], { JANE_SESSION_IDLE_TIMEOUT: '60', JANE_MAX_SESSIONS: '10' })).toEqual(
+      expect.objectContaining({ sessionIdleTimeout: 60, maxSessions: 10 })
+    );
+  });
+
+  test('should read event retention limits', () => {
+    expect(parseCliOptions(['--event-retention', '600', '--max-events=500'], {})).toEqual(
+      expect.objectContaining({ eventRetention: 600, maxEvents: 500 })
+    );
+    expect(parseCliOptions([], { JANE_EVENT_RETENTION: '60', JANE_MAX_EVENTS: '100' })).toEqual(
+      expect.objectContaining({ eventRetention: 60, maxEvents: 100 })
+    );
+  });
+
+  test('should read the shutdown timeout', () => {
+    expect(parseCliOptions(['--shutdown-timeout', '0'], {}).shutdownTimeout).toBe(0);
+    expect(parseCliOptions([], { JANE_SHUTDOWN_TIMEOUT: '30' }).shutdownTimeout).toBe(30);
+  });
+
+  test('should read logging settings', () => {
+    expect(parseCliOptions(['--log-level', 'warning', '--log-format=json', '--log-file', 'jane.log'], {})).toEqual(
+      expect.objectContaining({ logLevel: 'warning', logFormat: 'json', logFile: path.resolve('jane.log') })
+    );
+    expect(parseCliOptions([], { JANE_LOG_LEVEL: 'debug', JANE_LOG_FORMAT: 'json' })).toEqual(
+      expect.objectContaining({ logLevel: 'debug', logFormat: 'json' })
+    );
+  });
+
+  test('should read the readiness check', () => {
+    expect(parseCliOptions(['--readiness-check', 'quick'], {}).readinessCheck).toBe('quick');
+    expect(parseCliOptions([], { JANE_READINESS_CHECK: 'quick' }).readinessCheck).toBe('quick');
+  });
+
+  test('should enable watching with --watch or JANE_WATCH', () => {
+    expect(parseCliOptions(['--watch'], {}).watch).toBe(true);
+    expect(parseCliOptions([], { JANE_WATCH: 'TRUE' }).watch).toBe(true);
+    expect(parseCliOptions([], { JANE_WATCH: '1' }).watch).toBe(true);
+    expect(parseCliOptions([], { JANE_WATCH: 'no' }).watch).toBe(false);
+  });
+
+  test('should read the maximum removal ratio', () => {
+    expect(parseCliOptions(['--max-removal-ratio', '1'], {}).maxRemovalRatio).toBe(1);
+    expect(parseCliOptions(['--max-removal-ratio=0'], {}).maxRemovalRatio).toBe(0);
+    expect(parseCliOptions([], { JANE_MAX_REMOVAL_RATIO: '.8' }).maxRemovalRatio).toBe(0.8);
+  });
+
+  test('should recognise --help', () => {
+    expect(parseCliOptions(['-h'], {}).help).toBe(true);
+    expect(parseCliOptions(['--help'], {}).help).toBe(true);
+  });
+
+  test.each([
+    [['--verbose'], 'Unknown option: --verbose'],
+    [['--port'], 'Option --port requires a value'],
+    [['--host', '--port', '80'], 'Option --host requires a value'],
+    [['--transport', 'websocket'], 'Invalid transport "websocket"'],
+    [['--port', '0'], 'Invalid port "0"'],
+    [['--port', '70000'], 'Invalid port "70000"'],
+    [['--port', '80abc'], 'Invalid port "80abc"'],
+    [['--session-idle-timeout', '-1'], 'Invalid session idle timeout "-1"'],
+    [['--session-idle-timeout', '1.5'], 'Invalid session idle timeout "1.5"'],
+    [['--max-sessions', '0'], 'Invalid maximum sessions "0"'],
+    [['--event-retention', '0'], 'Invalid event retention "0"'],
+    [['--max-events', 'many'], 'Invalid maximum events "many"'],
+    [['--shutdown-timeout', '-5'], 'Invalid shutdown timeout "-5"'],
+    [['--log-level', 'verbose'], 'Invalid log level "verbose"'],
+    [['--log-format', 'xml'], 'Invalid log format "xml"'],
+    [['--readiness-check', 'fast'], 'Invalid readiness check "fast"'],
+    [['--max-removal-ratio', '1.5'], 'Invalid maximum removal ratio "1.5"'],
+    [['--max-removal-ratio', '-0.1'], 'Invalid maximum removal ratio "-0.1"'],
+    [['--max-removal-ratio', 'half'], 'Invalid maximum removal ratio "half"']
+  ])('should reject %j', (argv, message) => {
+    expect(() => parseCliOptions(argv, {})).toThrow(CliUsageError);
+    expect(() => parseCliOptions(argv, {})).toThrow(message);
+  });
+
+  test('should reject invalid values from the environment', () => {
+    expect(() => parseCliOptions([], { JANE_TRANSPORT: 'sse' })).toThrow('Invalid transport "sse"');
+  });
+
+  test('should validate the Jane directory and database path', () => {
+    expect(() => parseCliOptions(['--jane-dir', path.join(tempDir, 'not-a-dir')], {}))
+      .toThrow('not a directory');
+    expect(() => parseCliOptions(['--db-path', tempDir], {}))
+      .toThrow('is a directory');
+    expect(() => parseCliOptions(['--log-file', tempDir], {}))
+      .toThrow('Invalid log file');
+  });
+
+  test('should read authentication settings', () => {
+    const apiKeysFile = path.join(tempDir, 'not-a-dir');
+    const tokenSecret = 'x'.repeat(32);
+
+    expect(parseCliOptions(['--api-keys', apiKeysFile], { JANE_TOKEN_SECRET: tokenSecret })).toEqual(
+      expect.objectContaining({ apiKeysFile, tokenSecret })
+    );
+    expect(parseCliOptions([], { JANE_API_KEYS_FILE: apiKeysFile }).apiKeysFile).toBe(apiKeysFile);
+  });
+
+  test('should validate authentication settings', () => {
+    expect(() => parseCliOptions(['--api-keys', tempDir], {})).toThrow('Invalid API keys file');
+    expect(() => parseCliOptions(['--api-keys', path.join(tempDir, 'missing.json')], {})).toThrow('not a file');
+    expect(() => parseCliOptions([], { JANE_TOKEN_SECRET: 'too-short' })).toThrow('at least 32 characters');
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, test, expect } from 'vitest';
+import { chunkDocument } from '../src/utils/document-chunks.js';
+
+describe('Document Chunks', () => {
+  test('should split content at every heading, keeping text before the first', () => {
+    const content = 'Intro text.\n\n# Guide\n\n## Setup\n\nInstall it.\n\n\n### Linux\nUse apt.\n';
+
+    expect(chunkDocument(content)).toEqual([
+      { index: 0, headingPath: [], startLine: 0, endLine: 1, content: 'Intro text.' },
+      { index: 1, headingPath: ['Guide'], startLine: 2, endLine: 3, content: '# Guide' },
+      { index: 2, headingPath: ['Guide', 'Setup'], startLine: 4, endLine: 7, content: '## Setup\n\nInstall it.' },
+      { index: 3, headingPath: ['Guide', 'Setup', 'Linux'], startLine: 9, endLine: 11, content: '### Linux\nUse apt.' }
+    ]);
+  });
+
+  test('should leave out blank chunks', () => {
+    expect(chunkDocument('\n\n# Title\n')).toEqual([
+      { index: 0, headingPath: ['Title'], startLine: 2, endLine: 3, content: '# Title' }
+    ]);
+    expect(chunkDocument('')).toEqual([]);
+  });
+
+  test('should split long sections between paragraphs', () => {
+    const content = ['# Long', 'one', 'two', '', 'three', 'four', 'five', 'six', 'seven'].join('\n');
+
+    const chunks = chunkDocument(content, 4);
+
+    expect(chunks.map(chunk => [chunk.startLine, chunk.endLine])).toEqual([[0, 3], [4, 8], [8, 9]]);
+    expect(chunks.every(chunk => chunk.headingPath[0] === 'Long')).toBe(true);
+  });
+});
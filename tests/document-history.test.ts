@@ -0,0 +1,106 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { DocumentHistory } from '../src/utils/document-history.js';
+import { PathValidationError } from '../src/utils/path-validation.js';
+
+describe('DocumentHistory', () => {
+  let tempDir: string;
+  let history: DocumentHistory;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jane-history-test-'));
+    history = new DocumentHistory(tempDir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test('should number versions per document', async () => {
+    const first = await history.record('spec', 'project1/api.md', {
+      action: 'create',
+      author: 'alice',
+      content: '# API',
+      meta: { title: 'API' }
+    });
+    const second = await history.record('spec', 'project1/api.md', {
+      action: 'update',
+      content: '# API v2',
+      meta: { title: 'API v2' }
+    });
+    const other = await history.record('stdlib', 'python/intro.md', {
+      action: 'create',
+      content: '# Intro',
+      meta: { title: 'Intro' }
+    });
+
+    expect([first.version, second.version, other.version]).toEqual([1, 2, 1]);
+    expect(await fs.pathExists(path.join(tempDir, 'spec/project1/api.md/000002.json'))).toBe(true);
+    expect(await history.get('spec', 'project1/api.md', 1)).toEqual({
+      version: 1,
+      timestamp: first.timestamp,
+      author: 'alice',
+      action: 'create',
+      content: '# API',
+      meta: { title: 'API' }
+    });
+    expect((await history.latest('spec', 'project1/api.md'))?.content).toBe('# API v2');
+  });
+
+  test('should give concurrent records distinct numbers', async () => {
+    const recorded = await Promise.all([1, 2, 3, 4].map(n =>
+      history.record('spec', 'project1/api.md', { action: 'update', content: `# Draft ${n}`, meta: { title: 'API' } })
+    ));
+
+    expect(recorded.map(version => version.version).sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  test('should list versions without their content', async () => {
+    await history.record('spec', 'project1/api.md', { action: 'create', content: '# API', meta: { title: 'API' } });
+    await history.record('spec', 'project1/api.md', {
+      action: 'restore',
+      restoredFrom: 1,
+      author: 'bob',
+      timestamp: '2025-01-01T00:00:00.000Z',
+      content: '# API',
+      meta: { title: 'API' }
+    });
+
+    const versions = await history.list('spec', 'project1/api.md');
+
+    expect(versions).toHaveLength(2);
+    expect(versions[1]).toEqual({
+      version: 2,
+      timestamp: '2025-01-01T00:00:00.000Z',
+      author: 'bob',
+      action: 'restore',
+      restoredFrom: 1,
+      title: 'API'
+    });
+  });
+
+  test('should report missing history and versions', async () => {
+    expect(await history.hasHistory('spec', 'project1/api.md')).toBe(false);
+    expect(await history.list('spec', 'project1/api.md')).toEqual([]);
+    expect(await history.latest('spec', 'project1/api.md')).toBeNull();
+    expect(await history.get('spec', 'project1/api.md', 1)).toBeNull();
+  });
+
+  test('should move history unless the target has its own', async () => {
+    await history.record('spec', 'project1/api.md', { action: 'create', content: '# API', meta: { title: 'API' } });
+    await history.record('spec', 'project2/api.md', { action: 'create', content: '# Other', meta: { title: 'Other' } });
+
+    expect(await history.move('spec', 'project1/api.md', 'project3/api.md')).toBe(true);
+    expect(await history.hasHistory('spec', 'project1/api.md')).toBe(false);
+    expect((await history.latest('spec', 'project3/api.md'))?.content).toBe('# API');
+
+    expect(await history.move('spec', 'project3/api.md', 'project2/api.md')).toBe(false);
+    expect((await history.latest('spec', 'project2/api.md'))?.content).toBe('# Other');
+  });
+
+  test('should reject paths outside the history directory', async () => {
+    await expect(history.list('spec', '../../etc/passwd.md')).rejects.toThrow(PathValidationError);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'vitest';
+import { applyPatch, PatchError } from '../src/utils/document-patch.js';
+
+const document = [
+  '# Guide',
+  '',
+  'Overview.',
+  '',
+  '## Setup',
+  '',
+  'Install it.',
+  '',
+  '### Linux',
+  '',
+  'Use apt.',
+  '',
+  '## Usage',
+  '',
+  'Run it. Run it again.',
+  ''
+].join('\n');
+
+describe('Document Patch', () => {
+  test('should replace a section body including its subsections', () => {
+    const patched = applyPatch(document, [{ op: 'replace_section', heading: 'Setup', content: 'Download the binary.\n' }]);
+
+    expect(patched).toBe([
+      '# Guide', '', 'Overview.', '',
+      '## Setup', '', 'Download the binary.', '',
+      '## Usage', '', 'Run it. Run it again.', ''
+    ].join('\n'));
+  });
+
+  test('should keep the final newline when replacing the last section', () => {
+    const patched = applyPatch(document, [{ op: 'replace_section', heading: 'Usage', content: 'Start it.' }]);
+
+    expect(patched.endsWith('## Usage\n\nStart it.\n')).toBe(true);
+  });
+
+  test('should append to the end of a section, after its subsections', () => {
+    const patched = applyPatch(document, [{ op: 'append_to_section', heading: 'Setup', content: 'Restart afterwards.' }]);
+
+    expect(patched).toContain('Use apt.\n\nRestart afterwards.\n\n## Usage');
+  });
+
+  test('should insert content directly below a heading', () => {
+    const patched = applyPatch(document, [{ op: 'insert_after_heading', heading: 'Guide > Usage', content: '> Note: needs Node 18.' }]);
+
+    expect(patched).toContain('## Usage\n\n> Note: needs Node 18.\n\nRun it.');
+  });
+
+  test('should find and replace the expected number of occurrences', () => {
+    expect(applyPatch(document, [{ op: 'find_replace', find: 'Use apt.', replace: 'Use apt or dnf.' }]))
+      .toContain('Use apt or dnf.');
+    expect(applyPatch(document, [{ op: 'find_replace', find: 'Run it', replace: 'Start it', expectedCount: 2 }]))
+      .toContain('Start it. Start it again.');
+  });
+
+  test('should limit find and replace to a section', () => {
+    const patched = applyPatch(document, [{ op: 'find_replace', find: 'it', replace: 'them', heading: 'Usage', expectedCount: 2 }]);
+
+    expect(patched).toContain('Run them. Run them again.');
+    expect(patched).toContain('Install it.');
+  });
+
+  test('should fail without changing anything when an operation cannot be applied', () => {
+    const operations = [
+      { op: 'append_to_section' as const, heading: 'Setup', content: 'Added.' },
+      { op: 'find_replace' as const, find: 'Run it', replace: 'Start it' }
+    ];
+
+    expect(() => applyPatch(document, operations)).toThrow(PatchError);
+    expect(() => applyPatch(document, operations)).toThrow('Operation 2 (find_replace) failed: Found 2 occurrences of "Run it", expected 1');
+    expect(() => applyPatch(document, [{ op: 'replace_section', heading: 'Missing', content: '' }]))
+      .toThrow('Operation 1 (replace_section) failed: Heading "Missing" not found');
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import path from 'path';
-import { scanAndIndexDocuments } from '../src/utils/document-scanner';
+import { scanAndIndexDocuments, getLastScan, formatDryRunReport } from '../src/utils/document-scanner';
+import { computeDocumentHash } from '../src/utils/document-hash';
+import { PathValidationError } from '../src/utils/path-validation';
 
 // Mock dependencies
 vi.mock('../src/utils/filesystem.js', () => ({
@@ -11,14 +13,14 @@ vi.mock('../src/utils/filesystem.js', () => ({
 }));
 
 // Mock fs-extra properly with a default export
-const mockStat = vi.fn();
-const mockPathExists = vi.fn();
+// (hoisted so the mock factory below can reference the mock function)
+const { mockPathExists } = vi.hoisted(() => ({
+  mockPathExists: vi.fn()
+}));
 vi.mock('fs-extra', () => ({
   default: {
-    stat: mockStat,
     pathExists: mockPathExists
   },
-  stat: mockStat,
   pathExists: mockPathExists
 }));
 
@@ -52,10 +54,6 @@ describe('Document Scanner', () => {
     // Default mocks
     vi.mocked(getDocumentPath).mockImplementation((type, docPath) => 
       `/mock/jane/${type}/${docPath}`);
-    
-    mockStat.mockResolvedValue({
-      mtime: new Date('2023-01-01T12:00:00Z')
-    } as any);
   });
 
   afterEach(() => {
@@ -108,63 +106,92 @@ describe('Document Scanner', () => {
     
     // Verify documents were added to index
     expect(documentIndex.addOrUpdateDocument).toHaveBeenCalledTimes(3);
+    
+    // The scan is recorded for the metrics
+    expect(getLastScan()?.result).toBe(result);
   });
 
-  it('should skip unchanged documents that are already in the database', async () => {
-    // Setup database with existing documents
-    const existingDocs = new Map([
-      ['stdlib://javascript/array.md', {
-        id: 1,
-        type: 'stdlib',
-        updatedAt: '2023-01-02T12:00:00Z'  // Newer than file's mtime
-      }],
-      ['stdlib://python/list.md', {
-        id: 2,
-        type: 'stdlib',
-        updatedAt: '2022-12-01T12:00:00Z'  // Older than file's mtime
-      }],
-      ['spec://project1/api.md', {
-        id: 3,
-        type: 'spec',
-        updatedAt: '2023-01-01T12:00:00Z'  // Same as file's mtime
-      }]
-    ]);
-    
-    vi.mocked(documentIndex.getAllDocumentsMetadata).mockResolvedValue(existingDocs);
-    
-    // Mock document listings
-    vi.mocked(listDocuments).mockImplementation(async (type) => {
-      if (type === 'stdlib') {
-        return ['javascript/array.md', 'python/list.md'];
-      } else {
-        return ['project1/api.md'];
+  describe('content hash change detection', () => {
+    const makeDocument = (type: string, path: string) => ({
+      type: type as any,
+      path,
+      content: `# Test content for ${path}`,
+      meta: { 
+        title: `Test ${path}`, 
+        tags: ['test'],
+        updatedAt: new Date('2023-01-01T12:00:00Z').toISOString()
       }
     });
 
-    // Mock document reading
-    vi.mocked(readDocument).mockImplementation(async (type, path) => {
-      return {
-        type,
-        path,
-        content: `# Test content for ${path}`,
-        meta: { 
-          title: `Test ${path}`, 
-          tags: ['test'],
-          updatedAt: new Date('2023-01-01T12:00:00Z').toISOString()
+    beforeEach(() => {
+      // Mock document listings
+      vi.mocked(listDocuments).mockImplementation(async (type) => {
+        if (type === 'stdlib') {
+          return ['javascript/array.md', 'python/list.md'];
+        } else {
+          return ['project1/api.md'];
         }
-      };
+      });
+
+      // Mock document reading
+      vi.mocked(readDocument).mockImplementation(async (type, path) => makeDocument(type, path));
+
+      // Setup database with existing documents
+      vi.mocked(documentIndex.getAllDocumentsMetadata).mockResolvedValue(new Map([
+        ['stdlib://javascript/array.md', {
+          id: 1,
+          type: 'stdlib',
+          updatedAt: '2023-01-01T12:00:00Z',
+          contentHash: computeDocumentHash(makeDocument('stdlib', 'javascript/array.md'))  // Unchanged
+        }],
+        ['stdlib://python/list.md', {
+          id: 2,
+          type: 'stdlib',
+          updatedAt: '2023-01-01T12:00:00Z',
+          contentHash: 'outdated-hash'  // Content changed since indexing
+        }],
+        ['spec://project1/api.md', {
+          id: 3,
+          type: 'spec',
+          updatedAt: '2099-01-01T12:00:00Z',  // Timestamps are ignored
+          contentHash: null  // Indexed before hashes were stored
+        }]
+      ]));
     });
 
-    const result = await scanAndIndexDocuments();
+    it('should skip only documents whose content hash is unchanged', async () => {
+      const result = await scanAndIndexDocuments();
 
-    // First document should be skipped (DB newer), second updated (DB older), third skipped (same timestamp)
-    expect(result.indexed).toBe(1);
-    expect(result.skipped).toBe(2);
-    expect(result.failed).toBe(0);
-    
-    // Only python/list.md should be updated (DB older than file)
-    expect(documentIndex.addOrUpdateDocument).toHaveBeenCalledTimes(1);
-    expect(readDocument).toHaveBeenCalledWith('stdlib', 'python/list.md');
+      expect(result.indexed).toBe(2);
+      expect(result.skipped).toBe(1);
+      expect(result.failed).toBe(0);
+      
+      expect(documentIndex.addOrUpdateDocument).toHaveBeenCalledTimes(2);
+      expect(documentIndex.addOrUpdateDocument).toHaveBeenCalledWith(makeDocument('stdlib', 'python/list.md'));
+      expect(documentIndex.addOrUpdateDocument).toHaveBeenCalledWith(makeDocument('spec', 'project1/api.md'));
+    });
+
+    it('should re-index a document when only its frontmatter changes', async () => {
+      vi.mocked(readDocument).mockImplementation(async (type, path) => {
+        const document = makeDocument(type, path);
+        return path === 'javascript/array.md'
+          ? { ...document, meta: { ...document.meta, tags: ['test', 'arrays'] } }
+          : document;
+      });
+
+      const result = await scanAndIndexDocuments();
+
+      expect(result.indexed).toBe(3);
+      expect(result.skipped).toBe(0);
+    });
+
+    it('should re-index every document when forced', async () => {
+      const result = await scanAndIndexDocuments({ force: true });
+
+      expect(result.indexed).toBe(3);
+      expect(result.skipped).toBe(0);
+      expect(documentIndex.addOrUpdateDocument).toHaveBeenCalledTimes(3);
+    });
   });
 
   it('should handle errors during document listing', async () => {
@@ -235,27 +262,20 @@ describe('Document Scanner', () => {
     expect(documentIndex.addOrUpdateDocument).toHaveBeenCalledTimes(2);
   });
 
-  it('should handle errors during file stat retrieval', async () => {
+  it('should handle exceptions thrown while reading a document', async () => {
     // Setup empty database
     vi.mocked(documentIndex.getAllDocumentsMetadata).mockResolvedValue(new Map());
     
     // Mock document listings
-    vi.mocked(listDocuments).mockImplementation(async () => {
-      return ['good.md', 'bad.md'];
-    });
-
-    // Mock fs.stat to fail for the second file
-    mockStat.mockImplementation(async (filepath: string) => {
-      if (filepath.includes('bad.md')) {
-        throw new Error('Stat failed');
-      }
-      return {
-        mtime: new Date('2023-01-01T12:00:00Z')
-      } as any;
+    vi.mocked(listDocuments).mockImplementation(async (type) => {
+      return type === 'stdlib' ? ['good.md', 'bad.md'] : [];
     });
 
-    // Mock document reading
+    // Mock document reading to throw for the second file
     vi.mocked(readDocument).mockImplementation(async (type, path) => {
+      if (path === 'bad.md') {
+        throw new Error('Read failed');
+      }
       return {
         type,
         path,
@@ -270,9 +290,130 @@ describe('Document Scanner', () => {
     expect(result.indexed).toBe(1);
     expect(result.failed).toBe(1);
     expect(result.errors.length).toBe(1);
-    expect(result.errors[0].message).toContain('Stat failed');
+    expect(result.errors[0].message).toContain('Read failed');
     
     // Verify only the good document was added to index
     expect(documentIndex.addOrUpdateDocument).toHaveBeenCalledTimes(1);
   });
-});
\ No newline at end of file
+
+  describe('deletion reconciliation', () => {
+    const testDocument = (type: string, path: string) => ({
+      type: type as any,
+      path,
+      content: `# Test content for ${path}`,
+      meta: { title: `Test ${path}` }
+    });
+    const indexedRow = (id: number, type: string, path: string) =>
+      [`${type}://${path}`, { id, type, updatedAt: null, contentHash: computeDocumentHash(testDocument(type, path)) }] as const;
+    const indexedDocs = () => new Map([
+      indexedRow(1, 'stdlib', 'javascript/array.md'),
+      indexedRow(2, 'stdlib', 'python/list.md'),
+      indexedRow(3, 'spec', 'project1/api.md'),
+      indexedRow(4, 'spec', 'project1/old.md')
+    ]);
+
+    beforeEach(() => {
+      vi.mocked(documentIndex.getAllDocumentsMetadata).mockResolvedValue(indexedDocs() as any);
+      vi.mocked(readDocument).mockImplementation(async (type, path) => testDocument(type, path));
+      mockPathExists.mockResolvedValue(false);
+    });
+
+    it('should remove index rows for documents that no longer exist', async () => {
+      vi.mocked(listDocuments).mockImplementation(async (type) =>
+        type === 'stdlib' ? ['javascript/array.md', 'python/list.md'] : ['project1/api.md']);
+
+      const result = await scanAndIndexDocuments();
+
+      expect(result.orphaned).toEqual(['spec://project1/old.md']);
+      expect(result.removed).toBe(1);
+      expect(documentIndex.removeDocument).toHaveBeenCalledWith('spec', 'project1/old.md');
+    });
+
+    it('should only report orphaned rows in a dry run', async () => {
+      vi.mocked(listDocuments).mockImplementation(async (type) =>
+        type === 'stdlib' ? ['javascript/array.md'] : ['project1/api.md', 'project1/new.md']);
+
+      const result = await scanAndIndexDocuments({ dryRun: true });
+
+      expect(getLastScan()?.result).not.toBe(result);
+      expect(result.orphaned.sort()).toEqual(['spec://project1/old.md', 'stdlib://python/list.md']);
+      expect(result.removed).toBe(0);
+      expect(result.indexed).toBe(1);
+      expect(documentIndex.removeDocument).not.toHaveBeenCalled();
+      expect(documentIndex.addOrUpdateDocument).not.toHaveBeenCalled();
+      expect(formatDryRunReport(result)).toBe(
+        '1 documents would be indexed, 2 are unchanged, 0 failed\n' +
+        '2 orphaned index rows would be removed:\n' +
+        '  spec://project1/old.md\n' +
+        '  stdlib://python/list.md\n'
+      );
+    });
+
+    it('should abort removal when too large a share of the index would be removed', async () => {
+      vi.mocked(listDocuments).mockResolvedValue([]);
+
+      const result = await scanAndIndexDocuments();
+
+      expect(result.orphaned.length).toBe(4);
+      expect(result.removed).toBe(0);
+      expect(result.errors.length).toBe(1);
+      expect(result.errors[0].message).toContain('Refusing to remove 4 of 4 indexed documents');
+      expect(documentIndex.removeDocument).not.toHaveBeenCalled();
+    });
+
+    it('should honour a custom removal threshold', async () => {
+      vi.mocked(listDocuments).mockImplementation(async (type) =>
+        type === 'stdlib' ? ['javascript/array.md'] : ['project1/api.md']);
+
+      const strict = await scanAndIndexDocuments({ maxRemovalRatio: 0.25 });
+      expect(strict.removed).toBe(0);
+
+      const lenient = await scanAndIndexDocuments({ maxRemovalRatio: 1 });
+      expect(lenient.removed).toBe(2);
+    });
+
+    it('should not treat documents of a type that failed to list as orphaned', async () => {
+      vi.mocked(listDocuments).mockImplementation(async (type) => {
+        if (type === 'stdlib') {
+          throw new Error('Listing failed');
+        }
+        return ['project1/api.md', 'project1/old.md'];
+      });
+
+      const result = await scanAndIndexDocuments();
+
+      expect(result.orphaned).toEqual([]);
+      expect(result.removed).toBe(0);
+      expect(documentIndex.removeDocument).not.toHaveBeenCalled();
+    });
+
+    it('should report and drop documents whose paths fail validation', async () => {
+      vi.mocked(listDocuments).mockImplementation(async (type) =>
+        type === 'stdlib' ? ['javascript/array.md', 'python/list.md'] : ['project1/api.md', 'project1/old.md']);
+      vi.mocked(getDocumentPath).mockImplementation((type, docPath) => {
+        if (docPath === 'project1/old.md') {
+          throw new PathValidationError(docPath, 'path resolves outside the Jane directory');
+        }
+        return `/mock/jane/${type}/${docPath}`;
+      });
+
+      const result = await scanAndIndexDocuments();
+
+      expect(result.failed).toBe(1);
+      expect(result.errors[0]).toBeInstanceOf(PathValidationError);
+      expect(result.orphaned).toEqual(['spec://project1/old.md']);
+      expect(documentIndex.removeDocument).toHaveBeenCalledWith('spec', 'project1/old.md');
+    });
+
+    it('should keep rows whose files still exist on disk', async () => {
+      vi.mocked(listDocuments).mockImplementation(async (type) =>
+        type === 'stdlib' ? ['javascript/array.md', 'python/list.md'] : ['project1/api.md']);
+      mockPathExists.mockResolvedValue(true);
+
+      const result = await scanAndIndexDocuments();
+
+      expect(result.orphaned).toEqual([]);
+      expect(result.removed).toBe(0);
+    });
+  });
+});
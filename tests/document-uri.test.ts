@@ -0,0 +1,22 @@
+import { describe, test, expect } from 'vitest';
+import { toDocumentUri, decodeUriPath } from '../src/utils/document-uri.js';
+import { PathValidationError } from '../src/utils/path-validation.js';
+
+describe('Document URIs', () => {
+  test('should build URIs for nested document paths', () => {
+    expect(toDocumentUri('spec', 'project1/api/v2/users.md')).toBe('spec://project1/api/v2/users.md');
+    expect(toDocumentUri('stdlib', 'javascript/array methods#1.md')).toBe('stdlib://javascript/array%20methods%231.md');
+  });
+
+  test('should decode paths captured from URIs', () => {
+    expect(decodeUriPath('api/v2/array%20methods%231.md')).toBe('api/v2/array methods#1.md');
+    expect(() => decodeUriPath('api/%E0%A4%A.md')).toThrow(PathValidationError);
+  });
+
+  test('should round-trip paths through a URI', () => {
+    const documentPath = 'project1/notes/résumé & cv.md';
+    const uri = new URL(toDocumentUri('spec', documentPath));
+
+    expect(`${uri.host}${decodeUriPath(uri.pathname)}`).toBe(documentPath);
+  });
+});
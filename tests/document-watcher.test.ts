@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs-extra';
+
+// Point the watched directories at a temporary Jane directory
+vi.mock('../src/utils/filesystem.js', async () => {
+  const os = await import('os');
+  const nodePath = await import('path');
+  const janeDir = nodePath.join(os.tmpdir(), `jane-watcher-test-${process.pid}`);
+  return {
+    JANE_DIR: janeDir,
+    STDLIB_DIR: nodePath.join(janeDir, 'stdlib'),
+    SPECS_DIR: nodePath.join(janeDir, 'specs'),
+    readDocument: vi.fn(async (type: string, docPath: string) => ({
+      type,
+      path: docPath,
+      content: `# Content for ${docPath}`,
+      meta: { title: docPath }
+    }))
+  };
+});
+
+vi.mock('../src/utils/search.js', () => ({
+  documentIndex: {
+    addOrUpdateDocument: vi.fn(),
+    removeDocument: vi.fn()
+  }
+}));
+
+vi.mock('../src/utils/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    error: vi.fn(),
+    success: vi.fn(),
+    warning: vi.fn()
+  }
+}));
+
+import { DocumentWatcher, DocumentChange, isWatchEnabled } from '../src/utils/document-watcher.js';
+import { JANE_DIR, STDLIB_DIR, SPECS_DIR } from '../src/utils/filesystem.js';
+import { documentIndex } from '../src/utils/search.js';
+
+/**
+ * Wait until the watcher has reported at least the given number of changes
+ */
+async function waitForChanges(changes: DocumentChange[], count: number): Promise<void> {
+  await vi.waitFor(() => {
+    if (changes.length < count) {
+      throw new Error(`Expected ${count} changes, got ${changes.length}`);
+    }
+  }, { timeout: 5000, interval: 50 });
+}
+
+describe('Document Watcher', () => {
+  let watcher: DocumentWatcher;
+  let changes: DocumentChange[];
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await fs.ensureDir(path.join(STDLIB_DIR, 'javascript'));
+    await fs.ensureDir(path.join(SPECS_DIR, 'project1'));
+
+    changes = [];
+    watcher = new DocumentWatcher({ debounceMs: 50 });
+    watcher.onChange(batch => changes.push(...batch));
+    await watcher.start();
+  });
+
+  afterEach(async () => {
+    await watcher.close();
+    await fs.remove(JANE_DIR);
+  });
+
+  test('should index added and edited documents', async () => {
+    await fs.writeFile(path.join(STDLIB_DIR, 'javascript/array.md'), '# Array');
+    await waitForChanges(changes, 1);
+
+    expect(changes[0]).toEqual({ type: 'stdlib', path: 'javascript/array.md', action: 'indexed' });
+    expect(documentIndex.addOrUpdateDocument).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'stdlib', path: 'javascript/array.md' })
+    );
+
+    await fs.appendFile(path.join(STDLIB_DIR, 'javascript/array.md'), '\n\nMore content');
+    await waitForChanges(changes, 2);
+
+    expect(changes[1]).toEqual({ type: 'stdlib', path: 'javascript/array.md', action: 'indexed' });
+  });
+
+  test('should remove deleted documents and re-index renamed ones', async () => {
+    const original = path.join(SPECS_DIR, 'project1/api.md');
+    await fs.writeFile(original, '# API');
+    await waitForChanges(changes, 1);
+
+    await fs.move(original, path.join(SPECS_DIR, 'project1/api-v2.md'));
+    await waitForChanges(changes, 3);
+
+    expect(changes.slice(1)).toEqual(expect.arrayContaining([
+      { type: 'spec', path: 'project1/api.md', action: 'removed' },
+      { type: 'spec', path: 'project1/api-v2.md', action: 'indexed' }
+    ]));
+    expect(documentIndex.removeDocument).toHaveBeenCalledWith('spec', 'project1/api.md');
+  });
+
+  test('should ignore files that are not markdown documents', async () => {
+    await fs.writeFile(path.join(STDLIB_DIR, 'javascript/notes.txt'), 'not a document');
+    await fs.writeFile(path.join(STDLIB_DIR, 'javascript/array.md'), '# Array');
+    await waitForChanges(changes, 1);
+    await watcher.flush();
+
+    expect(changes).toEqual([{ type: 'stdlib', path: 'javascript/array.md', action: 'indexed' }]);
+  });
+
+  test('should debounce rapid edits into a single update', async () => {
+    const filePath = path.join(STDLIB_DIR, 'javascript/array.md');
+    await fs.writeFile(filePath, '# Array');
+    await fs.appendFile(filePath, '\nOne');
+    await fs.appendFile(filePath, '\nTwo');
+    await waitForChanges(changes, 1);
+    await watcher.flush();
+
+    expect(changes.length).toBe(1);
+    expect(documentIndex.addOrUpdateDocument).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('isWatchEnabled', () => {
+  afterEach(() => {
+    delete process.env.JANE_WATCH;
+  });
+
+  test('should be disabled unless JANE_WATCH is set to a truthy value', () => {
+    expect(isWatchEnabled()).toBe(false);
+
+    process.env.JANE_WATCH = 'true';
+    expect(isWatchEnabled()).toBe(true);
+
+    process.env.JANE_WATCH = '0';
+    expect(isWatchEnabled()).toBe(false);
+  });
+});
@@ -1,6 +1,11 @@
-import { vi, describe, test, expect } from 'vitest';
+import { vi, describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
 import { parseFrontmatter, generateFrontmatter } from '../src/utils/frontmatter.js';
 import { DocumentMeta } from '../src/types.js';
+import { PathValidationError } from '../src/utils/path-validation.js';
+import { computeDocumentRevision } from '../src/utils/document-hash.js';
 
 // Just test the frontmatter parsing and generation directly
 describe('Frontmatter Helper Functions', () => {
@@ -88,4 +93,259 @@ Content`;
       expect(result).toContain('updatedAt:');
     });
   });
-});
\ No newline at end of file
+});
+
+// Document file operations run against a temporary Jane directory. The
+// filesystem module resolves JANE_DIR when it is loaded, so it is imported
+// only after the environment variable points at the temporary directory.
+describe('Document File Operations', () => {
+  let tempDir: string;
+  let originalJaneDir: string | undefined;
+  let filesystem: typeof import('../src/utils/filesystem.js');
+
+  beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jane-fs-test-'));
+    originalJaneDir = process.env.JANE_DIR;
+    process.env.JANE_DIR = tempDir;
+    filesystem = await import('../src/utils/filesystem.js');
+  });
+
+  afterAll(async () => {
+    if (originalJaneDir === undefined) {
+      delete process.env.JANE_DIR;
+    } else {
+      process.env.JANE_DIR = originalJaneDir;
+    }
+    await fs.remove(tempDir);
+  });
+
+  beforeEach(async () => {
+    await fs.emptyDir(tempDir);
+    await filesystem.writeDocument('spec', 'project1/api.md', '# API', { title: 'API' });
+    await filesystem.writeDocument('spec', 'project2/api.md', '# Other API', { title: 'Other API' });
+  });
+
+  describe('deleteDocument', () => {
+    test('should delete an existing document', async () => {
+      const result = await filesystem.deleteDocument('spec', 'project1/api.md');
+
+      expect(result.success).toBe(true);
+      expect(await fs.pathExists(path.join(tempDir, 'specs/project1/api.md'))).toBe(false);
+    });
+
+    test('should fail for a missing document', async () => {
+      const result = await filesystem.deleteDocument('spec', 'project1/missing.md');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Document not found');
+    });
+  });
+
+  describe('moveDocument', () => {
+    test('should move a document into another project', async () => {
+      const result = await filesystem.moveDocument('spec', 'project1/api.md', 'project3/v2/api.md');
+
+      expect(result.success).toBe(true);
+      expect(await fs.pathExists(path.join(tempDir, 'specs/project1/api.md'))).toBe(false);
+      const moved = await filesystem.readDocument('spec', 'project3/v2/api.md');
+      expect(moved?.meta.title).toBe('API');
+    });
+
+    test('should refuse to overwrite an existing target unless asked to', async () => {
+      const refused = await filesystem.moveDocument('spec', 'project1/api.md', 'project2/api.md');
+
+      expect(refused.success).toBe(false);
+      expect(refused.error).toContain('Document already exists');
+      expect((await filesystem.readDocument('spec', 'project2/api.md'))?.meta.title).toBe('Other API');
+
+      const forced = await filesystem.moveDocument('spec', 'project1/api.md', 'project2/api.md', { overwrite: true });
+
+      expect(forced.success).toBe(true);
+      expect((await filesystem.readDocument('spec', 'project2/api.md'))?.meta.title).toBe('API');
+    });
+  });
+
+  describe('updateDocument', () => {
+    test('should return the document as written', async () => {
+      const updated = await filesystem.updateDocument('spec', 'project1/api.md', { content: '# API v2' });
+
+      expect(updated).toEqual(await filesystem.readDocument('spec', 'project1/api.md'));
+      expect(updated?.content.trim()).toBe('# API v2');
+    });
+
+    test('should update a document still at the expected revision', async () => {
+      const current = await filesystem.readDocument('spec', 'project1/api.md');
+      const expectedRevision = computeDocumentRevision(current!);
+
+      const updated = await filesystem.updateDocument('spec', 'project1/api.md', { content: '# API v2' }, { expectedRevision });
+
+      expect(updated?.content.trim()).toBe('# API v2');
+      expect(computeDocumentRevision(updated!)).not.toBe(expectedRevision);
+    });
+
+    test('should refuse to update a document that changed since the expected revision', async () => {
+      const stale = computeDocumentRevision((await filesystem.readDocument('spec', 'project1/api.md'))!);
+      await filesystem.updateDocument('spec', 'project1/api.md', { content: '# Edited elsewhere' });
+
+      const update = filesystem.updateDocument('spec', 'project1/api.md', { content: '# Mine' }, { expectedRevision: stale });
+
+      await expect(update).rejects.toThrow(filesystem.RevisionConflictError);
+      await expect(update).rejects.toThrow(`has changed since revision ${stale}`);
+      const error = await update.catch(e => e as InstanceType<typeof filesystem.RevisionConflictError>);
+      expect(error.current.content.trim()).toBe('# Edited elsewhere');
+      expect((await filesystem.readDocument('spec', 'project1/api.md'))?.content.trim()).toBe('# Edited elsewhere');
+    });
+
+    test('should let only one of two concurrent updates from the same revision win', async () => {
+      const expectedRevision = computeDocumentRevision((await filesystem.readDocument('spec', 'project1/api.md'))!);
+
+      const results = await Promise.allSettled([
+        filesystem.updateDocument('spec', 'project1/api.md', { content: '# First' }, { expectedRevision }),
+        filesystem.updateDocument('spec', 'project1/api.md', { content: '# Second' }, { expectedRevision })
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect((await filesystem.readDocument('spec', 'project1/api.md'))?.content.trim()).toBe('# First');
+    });
+
+    test('should compute updates from the current document one update at a time', async () => {
+      const append = (line: string) => (current: { content: string }) => ({ content: `${current.content.trim()}\n${line}` });
+
+      await Promise.all([
+        filesystem.updateDocument('spec', 'project1/api.md', append('First')),
+        filesystem.updateDocument('spec', 'project1/api.md', append('Second'))
+      ]);
+
+      expect((await filesystem.readDocument('spec', 'project1/api.md'))?.content.trim()).toBe('# API\nFirst\nSecond');
+    });
+
+    test('should queue writes with updates so a stale revision cannot overwrite a restore', async () => {
+      const expectedRevision = computeDocumentRevision((await filesystem.readDocument('spec', 'project1/api.md'))!);
+
+      const results = await Promise.allSettled([
+        filesystem.writeDocument('spec', 'project1/api.md', '# Restored', { title: 'API' }, { restoredFrom: 1 }),
+        filesystem.updateDocument('spec', 'project1/api.md', { content: '# Stale' }, { expectedRevision })
+      ]);
+
+      expect(results[0]).toEqual({ status: 'fulfilled', value: { success: true } });
+      expect(results[1].status).toBe('rejected');
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(filesystem.RevisionConflictError);
+      expect((await filesystem.readDocument('spec', 'project1/api.md'))?.content.trim()).toBe('# Restored');
+    });
+
+    test('should not delete a document while it is being moved', async () => {
+      const [moved, deleted] = await Promise.all([
+        filesystem.moveDocument('spec', 'project1/api.md', 'project3/api.md'),
+        filesystem.deleteDocument('spec', 'project1/api.md')
+      ]);
+
+      expect(moved.success).toBe(true);
+      expect(deleted).toEqual({ success: false, error: 'Document not found at spec://project1/api.md' });
+      expect(await filesystem.readDocument('spec', 'project3/api.md')).not.toBeNull();
+    });
+  });
+
+  describe('history', () => {
+    test('should record a version for every write', async () => {
+      await filesystem.updateDocument('spec', 'project1/api.md', { content: '# API v2' }, { author: 'alice' });
+
+      const versions = await filesystem.documentHistory.list('spec', 'project1/api.md');
+      expect(versions.map(version => version.action)).toEqual(['create', 'update']);
+      expect(versions[1].author).toBe('alice');
+      expect((await filesystem.documentHistory.get('spec', 'project1/api.md', 1))?.content.trim()).toBe('# API');
+      expect((await filesystem.documentHistory.latest('spec', 'project1/api.md'))?.content.trim()).toBe('# API v2');
+      expect(await fs.pathExists(path.join(tempDir, '.history/spec/project1/api.md'))).toBe(true);
+    });
+
+    test('should keep a document written without history before overwriting it', async () => {
+      await fs.outputFile(path.join(tempDir, 'specs/project1/manual.md'), '---\ntitle: Manual\nauthor: carol\n---\nWritten by hand');
+
+      await filesystem.writeDocument('spec', 'project1/manual.md', 'Overwritten', { title: 'Manual' });
+
+      const [initial, update] = await filesystem.documentHistory.list('spec', 'project1/manual.md');
+      expect(initial).toEqual(expect.objectContaining({ version: 1, action: 'initial', author: 'carol' }));
+      expect(update).toEqual(expect.objectContaining({ version: 2, action: 'update' }));
+      expect((await filesystem.documentHistory.get('spec', 'project1/manual.md', 1))?.content).toBe('Written by hand');
+    });
+
+    test('should record a restore with the version it restores', async () => {
+      await filesystem.writeDocument('spec', 'project1/api.md', '# API', { title: 'API' }, { restoredFrom: 1 });
+
+      expect(await filesystem.documentHistory.latest('spec', 'project1/api.md')).toEqual(
+        expect.objectContaining({ version: 2, action: 'restore', restoredFrom: 1 })
+      );
+    });
+
+    test('should move history with the document and keep overwritten documents', async () => {
+      await filesystem.moveDocument('spec', 'project1/api.md', 'project3/api.md');
+      expect(await filesystem.documentHistory.hasHistory('spec', 'project1/api.md')).toBe(false);
+      expect(await filesystem.documentHistory.hasHistory('spec', 'project3/api.md')).toBe(true);
+
+      await filesystem.moveDocument('spec', 'project3/api.md', 'project2/api.md', { overwrite: true });
+      const overwritten = await filesystem.documentHistory.get('spec', 'project2/api.md', 1);
+      expect(overwritten?.meta.title).toBe('Other API');
+    });
+
+    test('should record a document moved over one with history as a new version of the target', async () => {
+      await filesystem.moveDocument('spec', 'project1/api.md', 'project2/api.md', { overwrite: true, author: 'alice' });
+
+      const versions = await filesystem.documentHistory.list('spec', 'project2/api.md');
+      expect(versions.map(version => version.action)).toEqual(['create', 'update']);
+      expect(versions[1].author).toBe('alice');
+      expect((await filesystem.documentHistory.latest('spec', 'project2/api.md'))?.meta.title).toBe('API');
+    });
+
+    test('should keep history when a document is deleted', async () => {
+      await filesystem.deleteDocument('spec', 'project1/api.md', { author: 'alice' });
+
+      const versions = await filesystem.documentHistory.list('spec', 'project1/api.md');
+      expect(versions.map(version => version.action)).toEqual(['create', 'delete']);
+      expect(versions[1].author).toBe('alice');
+    });
+
+    test('should record a document without history before deleting it', async () => {
+      await fs.outputFile(path.join(tempDir, 'specs/project1/manual.md'), '---\ntitle: Manual\n---\nWritten by hand');
+
+      await filesystem.deleteDocument('spec', 'project1/manual.md');
+
+      const versions = await filesystem.documentHistory.list('spec', 'project1/manual.md');
+      expect(versions.map(version => version.action)).toEqual(['initial', 'delete']);
+      expect((await filesystem.documentHistory.latest('spec', 'project1/manual.md'))?.content).toBe('Written by hand');
+      expect(await fs.pathExists(path.join(tempDir, 'specs/project1/manual.md'))).toBe(false);
+    });
+  });
+
+  describe('path validation', () => {
+    test('should reject paths that escape the Jane directory', async () => {
+      expect(() => filesystem.getDocumentPath('spec', '../../etc/passwd.md')).toThrow(PathValidationError);
+      await expect(filesystem.readDocument('spec', '../stdlib/javascript/array.md')).rejects.toThrow('".." segments');
+      await expect(filesystem.writeDocument('spec', '/tmp/evil.md', '# Evil', { title: 'Evil' }))
+        .rejects.toThrow('absolute paths are not allowed');
+      await expect(filesystem.listDocuments('spec', '..')).rejects.toThrow(PathValidationError);
+    });
+
+    test('should reject symlinks that resolve outside the Jane directory', async () => {
+      const outsideDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jane-outside-'));
+      try {
+        await fs.writeFile(path.join(outsideDir, 'secret.md'), '# Secret');
+        await fs.symlink(outsideDir, path.join(tempDir, 'specs/linked'));
+        await fs.symlink(path.join(outsideDir, 'secret.md'), path.join(tempDir, 'specs/project1/secret.md'));
+
+        await expect(filesystem.readDocument('spec', 'linked/secret.md')).rejects.toThrow('outside the Jane directory');
+        await expect(filesystem.readDocument('spec', 'project1/secret.md')).rejects.toThrow('outside the Jane directory');
+        await expect(filesystem.writeDocument('spec', 'linked/new.md', '# New', { title: 'New' }))
+          .rejects.toThrow('outside the Jane directory');
+        expect(await fs.pathExists(path.join(outsideDir, 'new.md'))).toBe(false);
+      } finally {
+        await fs.remove(outsideDir);
+      }
+    });
+
+    test('should allow symlinks that stay inside the Jane directory', async () => {
+      await fs.symlink(path.join(tempDir, 'specs/project1'), path.join(tempDir, 'specs/alias'));
+
+      const document = await filesystem.readDocument('spec', 'alias/api.md');
+      expect(document?.meta.title).toBe('API');
+    });
+  });
+});
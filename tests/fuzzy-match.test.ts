@@ -0,0 +1,50 @@
+import { describe, test, expect } from 'vitest';
+import { fuzzyScore, fuzzyRank } from '../src/utils/fuzzy-match.js';
+
+describe('Fuzzy Matching', () => {
+  describe('fuzzyScore', () => {
+    test('should match characters in order, ignoring case', () => {
+      expect(fuzzyScore('amd', 'Array-Methods.md')).not.toBeNull();
+      expect(fuzzyScore('dma', 'array-methods.md')).toBeNull();
+    });
+
+    test('should give an empty query a neutral score', () => {
+      expect(fuzzyScore('', 'anything.md')).toBe(0);
+    });
+
+    test('should prefer substring and word-start matches', () => {
+      expect(fuzzyScore('users', 'api/v2/users.md')!).toBeGreaterThan(fuzzyScore('users', 'api/u-s-e-r-s.md')!);
+      expect(fuzzyScore('am', 'array-methods.md')!).toBeGreaterThan(fuzzyScore('am', 'diagram.md')!);
+    });
+  });
+
+  describe('fuzzyRank', () => {
+    const paths = [
+      'README.md',
+      'api/v1/users.md',
+      'api/v2/users.md',
+      'api/v2/user-roles.md',
+      'architecture.md',
+      'guides/using-the-api.md'
+    ];
+
+    test('should rank the best matches first and drop non-matches', () => {
+      const ranked = fuzzyRank('users', paths, 10);
+
+      expect(ranked.slice(0, 2)).toEqual(['api/v1/users.md', 'api/v2/users.md']);
+      expect(ranked).not.toContain('README.md');
+    });
+
+    test('should match across nested directories', () => {
+      expect(fuzzyRank('v2ur', paths, 10)).toEqual(['api/v2/users.md', 'api/v2/user-roles.md']);
+    });
+
+    test('should return every candidate alphabetically for an empty query', () => {
+      expect(fuzzyRank('', paths, 10)).toEqual([...paths].sort((a, b) => a.localeCompare(b)));
+    });
+
+    test('should cap the number of results', () => {
+      expect(fuzzyRank('', paths, 2).length).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,541 @@
+import { vi, describe, test, expect, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import Database from 'better-sqlite3';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+// Listeners registered with the mocked document watcher
+const { watcherListeners } = vi.hoisted(() => ({
+  watcherListeners: new Set<() => void>()
+}));
+
+// Mock dependencies
+vi.mock('../src/utils/filesystem.js', () => ({
+  ensureJaneStructure: vi.fn().mockResolvedValue(true),
+  listDocuments: vi.fn(),
+  listLanguages: vi.fn().mockResolvedValue(['javascript', 'python']),
+  listProjects: vi.fn().mockResolvedValue(['project1']),
+  readDocument: vi.fn(),
+  writeDocument: vi.fn()
+}));
+
+vi.mock('../src/utils/search.js', () => ({
+  documentIndex: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    listDocumentSummaries: vi.fn().mockResolvedValue([]),
+    search: vi.fn().mockResolvedValue([]),
+    searchPassages: vi.fn().mockResolvedValue([])
+  }
+}));
+
+vi.mock('../src/utils/document-watcher.js', () => ({
+  isWatchEnabled: () => false,
+  documentWatcher: {
+    onChange: (listener: () => void) => {
+      watcherListeners.add(listener);
+      return () => watcherListeners.delete(listener);
+    }
+  }
+}));
+
+vi.mock('../src/utils/readiness.js', () => ({
+  checkReadiness: vi.fn()
+}));
+
+import { startHttpServer, HttpServerOptions } from '../src/http-server.js';
+import { createMcpServer } from '../src/server.js';
+import { listDocuments, listProjects, readDocument, writeDocument } from '../src/utils/filesystem.js';
+import { documentIndex } from '../src/utils/search.js';
+import { Authenticator } from '../src/utils/auth.js';
+import { accessControl } from '../src/utils/access-control.js';
+import { SQLiteEventStore } from '../src/utils/sqlite-event-store.js';
+import { ShutdownCoordinator, EXIT_CODES } from '../src/utils/shutdown.js';
+import { checkReadiness } from '../src/utils/readiness.js';
+
+const READ_KEY = 'read-only-key-0123456789';
+const WRITE_KEY = 'read-write-key-0123456789';
+const METRICS_KEY = 'metrics-only-key-0123456789';
+
+describe('HTTP Server', () => {
+  let httpServer: Server;
+  let url: URL;
+  let createServer: ReturnType<typeof vi.fn>;
+  const clients: Client[] = [];
+
+  async function connectClient(name: string, apiKey?: string, sessionId?: string): Promise<Client> {
+    const client = new Client({ name, version: '1.0.0' });
+    const requestInit = apiKey ? { headers: { Authorization: `Bearer ${apiKey}` } } : undefined;
+    await client.connect(new StreamableHTTPClientTransport(url, { requestInit, sessionId }));
+    clients.push(client);
+    return client;
+  }
+
+  async function startServer(options: HttpServerOptions = {}): Promise<void> {
+    createServer = vi.fn(createMcpServer);
+    httpServer = startHttpServer(createServer, { port: 0, host: '127.0.0.1', ...options });
+    await new Promise<void>(resolve => httpServer.once('listening', () => resolve()));
+
+    const { port } = httpServer.address() as AddressInfo;
+    url = new URL(`http://127.0.0.1:${port}/mcp`);
+  }
+
+  async function stopServer(): Promise<void> {
+    await Promise.all(clients.splice(0).map(client => client.close()));
+    if (!httpServer.listening) return;
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    watcherListeners.clear();
+
+    // Resolve slowly so requests from different sessions overlap
+    vi.mocked(listDocuments).mockImplementation(async (type, language) => {
+      await new Promise(resolve => setTimeout(resolve, language === 'javascript' ? 50 : 10));
+      return [`${language}/${language}-guide.md`];
+    });
+  });
+
+  afterEach(async () => {
+    await stopServer();
+  });
+
+  describe('sessions', () => {
+    beforeEach(async () => {
+      await startServer();
+    });
+
+    test('should create a separate server for each session', async () => {
+      await connectClient('client-a');
+      await connectClient('client-b');
+
+      expect(createServer).toHaveBeenCalledTimes(2);
+      expect(createServer.mock.results[0].value).not.toBe(createServer.mock.results[1].value);
+    });
+
+    test('should run tools for concurrent sessions independently', async () => {
+      const [clientA, clientB] = await Promise.all([connectClient('client-a'), connectClient('client-b')]);
+
+      const [resultA, resultB] = await Promise.all([
+        clientA.callTool({ name: 'list_stdlibs', arguments: { language: 'javascript' } }),
+        clientB.callTool({ name: 'list_stdlibs', arguments: { language: 'python' } })
+      ]);
+
+      expect(resultA.content[0].text).toContain('javascript-guide.md');
+      expect(resultA.content[0].text).not.toContain('python');
+      expect(resultB.content[0].text).toContain('python-guide.md');
+      expect(resultB.content[0].text).not.toContain('javascript');
+    });
+
+    test('should keep other sessions working when one session ends', async () => {
+      const clientA = await connectClient('client-a');
+      const clientB = await connectClient('client-b');
+      expect(watcherListeners.size).toBe(2);
+
+      await (clientA.transport as StreamableHTTPClientTransport).terminateSession();
+
+      expect(watcherListeners.size).toBe(1);
+      const result = await clientB.callTool({ name: 'list_stdlibs', arguments: { language: 'python' } });
+      expect(result.content[0].text).toContain('python-guide.md');
+    });
+
+    test('should notify every session when the document list changes', async () => {
+      const clientA = await connectClient('client-a');
+      const clientB = await connectClient('client-b');
+
+      const notified = new Set<string>();
+      clientA.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+        notified.add('client-a');
+      });
+      clientB.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+        notified.add('client-b');
+      });
+
+      // Notifications only arrive once each client has opened its SSE stream
+      await vi.waitFor(() => {
+        watcherListeners.forEach(listener => listener());
+        expect([...notified].sort()).toEqual(['client-a', 'client-b']);
+      }, { timeout: 2000, interval: 50 });
+    });
+  });
+
+  describe('session limits', () => {
+    const listTool = { name: 'list_stdlibs', arguments: { language: 'python' } };
+
+    async function health() {
+      const response = await fetch(new URL('/health', url));
+      return response.json();
+    }
+
+    test('should report session counts and ages in the health check', async () => {
+      await startServer({ maxSessions: 5, sessionIdleTimeout: 60_000 });
+      await connectClient('client-a');
+      await connectClient('client-b');
+
+      const { transportCount, sessions } = await health();
+
+      expect(transportCount).toBe(2);
+      expect(sessions).toEqual(expect.objectContaining({
+        active: 2,
+        max: 5,
+        idleTimeoutSeconds: 60,
+        expired: 0,
+        evicted: 0
+      }));
+      expect(sessions.oldestAgeSeconds).toBeGreaterThanOrEqual(0);
+    });
+
+    test('should expire idle sessions', async () => {
+      await startServer({ sessionIdleTimeout: 200 });
+      const client = await connectClient('client-a');
+
+      await vi.waitFor(async () => {
+        expect((await health()).sessions.expired).toBe(1);
+      }, { timeout: 2000, interval: 50 });
+
+      await expect(client.callTool(listTool)).rejects.toThrow('HTTP 404');
+    });
+
+    test('should report tool calls and sessions as metrics', async () => {
+      await startServer();
+      const client = await connectClient('client-a');
+      await client.callTool(listTool);
+
+      const response = await fetch(new URL('/metrics', url));
+      const body = await response.text();
+
+      expect(response.headers.get('content-type')).toContain('text/plain');
+      expect(body).toMatch(/^jane_tool_calls_total\{tool="list_stdlibs",status="success"\} \d+$/m);
+      expect(body).toContain('jane_tool_call_duration_seconds_count{tool="list_stdlibs"}');
+      expect(body).toContain('jane_http_sessions_active 1');
+    });
+
+    test('should not exceed the session limit when sessions are opened concurrently', async () => {
+      await startServer({ maxSessions: 2 });
+      // Hold the servers back until every initialize request has arrived
+      let releaseServers!: () => void;
+      const serversReleased = new Promise<void>(resolve => { releaseServers = resolve; });
+      createServer.mockImplementation(async (...args: Parameters<typeof createMcpServer>) => {
+        await serversReleased;
+        return createMcpServer(...args);
+      });
+
+      const connecting = Promise.allSettled(['client-a', 'client-b', 'client-c', 'client-d'].map(name => connectClient(name)));
+      await new Promise(resolve => setTimeout(resolve, 100));
+      releaseServers();
+      const results = await connecting;
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(2);
+      expect(results.filter(result => result.status === 'rejected').map(result => String((result as PromiseRejectedResult).reason)))
+        .toEqual([expect.stringContaining('HTTP 503'), expect.stringContaining('HTTP 503')]);
+      expect((await health()).sessions).toEqual(expect.objectContaining({ active: 2, evicted: 0 }));
+    });
+
+    test('should evict the least recently used session to make room', async () => {
+      await startServer({ maxSessions: 2 });
+      const clientA = await connectClient('client-a');
+      const clientB = await connectClient('client-b');
+
+      // Let both SSE streams open before making client B the least recently used
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await clientA.callTool(listTool);
+
+      await connectClient('client-c');
+
+      expect((await health()).sessions).toEqual(expect.objectContaining({ active: 2, evicted: 1 }));
+      await expect(clientB.callTool(listTool)).rejects.toThrow('HTTP 404');
+      expect((await clientA.callTool(listTool)).isError).toBeFalsy();
+    });
+  });
+
+  describe('readiness', () => {
+    beforeEach(async () => {
+      await startServer();
+    });
+
+    test('should report ready when every check passes', async () => {
+      const checks = [{ name: 'database', ok: true, message: 'Integrity check passed' }];
+      vi.mocked(checkReadiness).mockResolvedValue({ ready: true, checks });
+
+      const response = await fetch(new URL('/ready', url));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ status: 'ready', checks });
+    });
+
+    test('should answer 503 when a check fails', async () => {
+      const checks = [
+        { name: 'database', ok: true, message: 'Integrity check passed' },
+        { name: 'last_scan', ok: false, message: 'No document scan has completed yet' }
+      ];
+      vi.mocked(checkReadiness).mockResolvedValue({ ready: false, checks });
+
+      const response = await fetch(new URL('/ready', url));
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({ status: 'not ready', checks });
+    });
+  });
+
+  describe('event store', () => {
+    const listTool = { name: 'list_stdlibs', arguments: { language: 'python' } };
+    let eventStore: SQLiteEventStore;
+
+    beforeEach(() => {
+      eventStore = new SQLiteEventStore(new Database(':memory:'));
+    });
+
+    const sessionIdOf = (client: Client) => (client.transport as StreamableHTTPClientTransport).sessionId!;
+
+    test('should restore sessions after a restart', async () => {
+      await startServer({ eventStore });
+      const sessionId = sessionIdOf(await connectClient('client-a'));
+      expect(eventStore.getSession(sessionId)).not.toBeNull();
+
+      await stopServer();
+      await startServer({ eventStore });
+
+      const client = await connectClient('client-a', undefined, sessionId);
+      const result = await client.callTool(listTool);
+
+      expect(result.content[0].text).toContain('python-guide.md');
+      expect(createServer).toHaveBeenCalledTimes(1);
+      // The restored server was initialized by the client's own request
+      const restored = await createServer.mock.results[0].value;
+      expect(restored.server.getClientVersion()).toEqual({ name: 'client-a', version: '1.0.0' });
+    });
+
+    test('should not restore a session recorded without its initialize request', async () => {
+      eventStore.saveSession('legacy-session');
+      await startServer({ eventStore });
+
+      const client = await connectClient('client-a', undefined, 'legacy-session');
+
+      await expect(client.callTool(listTool)).rejects.toThrow('HTTP 404');
+      expect(createServer).not.toHaveBeenCalled();
+    });
+
+    test('should forget sessions the client terminates', async () => {
+      await startServer({ eventStore });
+      const client = await connectClient('client-a');
+      const sessionId = sessionIdOf(client);
+
+      await (client.transport as StreamableHTTPClientTransport).terminateSession();
+
+      expect(eventStore.getSession(sessionId)).toBeNull();
+    });
+
+    test('should not restore a session for another principal', async () => {
+      const auth = new Authenticator({
+        apiKeys: [
+          { key: READ_KEY, principal: 'reader', scopes: ['read'] },
+          { key: WRITE_KEY, principal: 'writer', scopes: ['read', 'write'] }
+        ]
+      });
+      await startServer({ eventStore, auth });
+      const sessionId = sessionIdOf(await connectClient('reader', READ_KEY));
+
+      await stopServer();
+      await startServer({ eventStore, auth });
+
+      const client = await connectClient('writer', WRITE_KEY, sessionId);
+      await expect(client.callTool(listTool)).rejects.toThrow('HTTP 404');
+      expect(createServer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shutdown', () => {
+    let shutdown: ShutdownCoordinator;
+
+    beforeEach(() => {
+      shutdown = new ShutdownCoordinator();
+    });
+
+    test('should stop listening and close sessions but keep persisted ones', async () => {
+      const eventStore = new SQLiteEventStore(new Database(':memory:'));
+      await startServer({ eventStore, shutdown });
+      const client = await connectClient('client-a');
+      const sessionId = (client.transport as StreamableHTTPClientTransport).sessionId!;
+      expect(watcherListeners.size).toBe(1);
+
+      expect(await shutdown.shutdown('test')).toBe(EXIT_CODES.ok);
+
+      expect(httpServer.listening).toBe(false);
+      expect(watcherListeners.size).toBe(0);
+      expect(eventStore.getSession(sessionId)).not.toBeNull();
+    });
+
+    test('should refuse requests while shutting down', async () => {
+      await startServer({ shutdown });
+      const client = await connectClient('client-a');
+
+      // Keep shutdown waiting for an operation in progress
+      let finish!: () => void;
+      shutdown.track(() => new Promise<void>(resolve => { finish = resolve; }));
+      const stopped = shutdown.shutdown('test', 1000);
+
+      await expect(client.callTool({ name: 'list_stdlibs', arguments: {} })).rejects.toThrow();
+      expect(createServer).toHaveBeenCalledTimes(1);
+
+      finish();
+      expect(await stopped).toBe(EXIT_CODES.ok);
+    });
+  });
+
+  describe('authentication', () => {
+    beforeEach(async () => {
+      vi.mocked(writeDocument).mockResolvedValue({ success: true });
+      await startServer({
+        auth: new Authenticator({
+          apiKeys: [
+            { key: READ_KEY, principal: 'reader', scopes: ['read'] },
+            { key: WRITE_KEY, principal: 'writer', scopes: ['read', 'write'] },
+            { key: METRICS_KEY, principal: 'prometheus', scopes: ['metrics'] }
+          ]
+        })
+      });
+    });
+
+    const createArguments = {
+      type: 'stdlib',
+      language: 'python',
+      path: 'new.md',
+      title: 'New',
+      content: '# New'
+    };
+
+    test('should reject requests without valid credentials', async () => {
+      await expect(connectClient('anonymous')).rejects.toThrow('HTTP 401');
+      await expect(connectClient('guesser', 'unknown-key-0123456789')).rejects.toThrow('HTTP 401');
+      expect(createServer).not.toHaveBeenCalled();
+    });
+
+    test('should require the metrics scope for metrics', async () => {
+      const metricsUrl = new URL('/metrics', url);
+
+      expect((await fetch(metricsUrl)).status).toBe(401);
+      expect((await fetch(metricsUrl, { headers: { Authorization: `Bearer ${READ_KEY}` } })).status).toBe(403);
+      expect((await fetch(metricsUrl, { headers: { Authorization: `Bearer ${WRITE_KEY}` } })).status).toBe(403);
+      expect((await fetch(metricsUrl, { headers: { Authorization: `Bearer ${METRICS_KEY}` } })).status).toBe(200);
+    });
+
+    test('should not let metrics credentials use MCP', async () => {
+      await expect(connectClient('prometheus', METRICS_KEY)).rejects.toThrow('HTTP 403');
+      expect(createServer).not.toHaveBeenCalled();
+    });
+
+    test('should let read-only clients read but not change documents', async () => {
+      const client = await connectClient('reader', READ_KEY);
+
+      const list = await client.callTool({ name: 'list_stdlibs', arguments: { language: 'python' } });
+      expect(list.isError).toBeFalsy();
+
+      const create = await client.callTool({ name: 'create_document', arguments: createArguments });
+      expect(create.isError).toBe(true);
+      expect(create.content[0].text).toContain('Permission denied: "reader" has read-only access');
+      expect(writeDocument).not.toHaveBeenCalled();
+    });
+
+    test('should let read-write clients change documents', async () => {
+      const client = await connectClient('writer', WRITE_KEY);
+
+      const create = await client.callTool({ name: 'create_document', arguments: createArguments });
+      expect(create.isError).toBeFalsy();
+      expect(writeDocument).toHaveBeenCalled();
+    });
+
+    test('should not let another principal use a session', async () => {
+      const client = await connectClient('reader', READ_KEY);
+      const sessionId = (client.transport as StreamableHTTPClientTransport).sessionId!;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${WRITE_KEY}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json, text/event-stream',
+          'Mcp-Session-Id': sessionId
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('access control', () => {
+    let aclDir: string;
+
+    beforeEach(async () => {
+      aclDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jane-http-acl-'));
+      const aclPath = path.join(aclDir, '.jane-acl.json');
+      await fs.writeJson(aclPath, {
+        principals: {
+          writer: { projects: { '*': 'write', confidential: 'none', archive: 'read' }, languages: { '*': 'read' } }
+        }
+      });
+      await accessControl.load(aclPath);
+
+      vi.mocked(listProjects).mockResolvedValue(['archive', 'confidential', 'public']);
+      await startServer({
+        auth: new Authenticator({ apiKeys: [{ key: WRITE_KEY, principal: 'writer', scopes: ['read', 'write'] }] })
+      });
+    });
+
+    afterEach(async () => {
+      await accessControl.load(path.join(aclDir, 'missing.json'));
+      await fs.remove(aclDir);
+    });
+
+    const text = (result: Awaited<ReturnType<Client['callTool']>>) => (result.content as { text: string }[])[0].text;
+
+    test('should only list projects the principal can read', async () => {
+      const client = await connectClient('writer', WRITE_KEY);
+
+      const all = await client.callTool({ name: 'list_specs', arguments: {} });
+      expect(text(all)).toBe('Available spec projects:\\narchive\\npublic');
+
+      const denied = await client.callTool({ name: 'list_specs', arguments: { project: 'confidential' } });
+      expect(denied.isError).toBe(true);
+      expect(text(denied)).toBe('Access denied: "writer" does not have read access to project "confidential"');
+    });
+
+    test('should deny reading documents in projects the principal cannot read', async () => {
+      const client = await connectClient('writer', WRITE_KEY);
+
+      const result = await client.callTool({ name: 'get_spec', arguments: { project: 'confidential', path: 'plan.md' } });
+
+      expect(result.isError).toBe(true);
+      expect(readDocument).not.toHaveBeenCalled();
+    });
+
+    test('should filter search results by the ACL', async () => {
+      const client = await connectClient('writer', WRITE_KEY);
+
+      await client.callTool({ name: 'search', arguments: { query: 'plan' } });
+
+      const { filter } = vi.mocked(documentIndex.searchPassages).mock.calls[0][1]!;
+      expect(filter!('spec', 'confidential/plan.md')).toBe(false);
+      expect(filter!('spec', 'public/plan.md')).toBe(true);
+    });
+
+    test('should deny changes to projects the principal can only read', async () => {
+      const client = await connectClient('writer', WRITE_KEY);
+
+      const result = await client.callTool({
+        name: 'create_document',
+        arguments: { type: 'spec', project: 'archive', path: 'new.md', title: 'New', content: '# New' }
+      });
+
+      expect(result.isError).toBe(true);
+      expect(text(result)).toBe('Access denied: "writer" does not have write access to project "archive"');
+      expect(writeDocument).not.toHaveBeenCalled();
+    });
+  });
+});
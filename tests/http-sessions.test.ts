@@ -0,0 +1,160 @@
+import { vi, describe, test, expect, beforeEach } from 'vitest';
+import { SessionRegistry } from '../src/http-sessions.js';
+
+function fakeTransport() {
+  return { close: vi.fn().mockResolvedValue(undefined) };
+}
+
+describe('SessionRegistry', () => {
+  let now: number;
+  let registry: SessionRegistry<ReturnType<typeof fakeTransport>>;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    registry = new SessionRegistry({ idleTimeout: 60_000, maxSessions: 2 }, () => now);
+  });
+
+  test('should register and forget sessions', () => {
+    const transport = fakeTransport();
+    registry.add('a', transport, 'alice');
+
+    expect(registry.get('a')).toBe(transport);
+    expect(registry.getPrincipal('a')).toBe('alice');
+    expect(registry.size).toBe(1);
+
+    registry.remove('a');
+    expect(registry.get('a')).toBeUndefined();
+    expect(registry.size).toBe(0);
+  });
+
+  test('should expire sessions idle for longer than the timeout', async () => {
+    const idle = fakeTransport();
+    const active = fakeTransport();
+    registry.add('idle', idle);
+    registry.add('active', active);
+
+    now += 45_000;
+    registry.touch('active');
+    now += 15_000;
+
+    expect(await registry.expireIdle()).toBe(1);
+    expect(idle.close).toHaveBeenCalled();
+    expect(active.close).not.toHaveBeenCalled();
+    expect(registry.get('idle')).toBeUndefined();
+    expect(registry.stats().expired).toBe(1);
+  });
+
+  test('should not expire sessions with requests in progress', async () => {
+    const transport = fakeTransport();
+    registry.add('busy', transport);
+
+    let finish!: () => void;
+    const request = registry.track('busy', () => new Promise<void>(resolve => { finish = resolve; }));
+
+    now += 120_000;
+    expect(await registry.expireIdle()).toBe(0);
+
+    finish();
+    await request;
+    now += 60_000;
+    expect(await registry.expireIdle()).toBe(1);
+  });
+
+  test('should never expire sessions when the timeout is 0', async () => {
+    registry = new SessionRegistry({ idleTimeout: 0, maxSessions: 2 }, () => now);
+    registry.add('a', fakeTransport());
+
+    now += 24 * 60 * 60 * 1000;
+    expect(await registry.expireIdle()).toBe(0);
+    expect(registry.size).toBe(1);
+  });
+
+  test('should evict the least recently used idle session when full', async () => {
+    const older = fakeTransport();
+    const newer = fakeTransport();
+    registry.add('older', older);
+    now += 1000;
+    registry.add('newer', newer);
+
+    // Using the older session makes the newer one the least recently used
+    now += 1000;
+    registry.touch('older');
+
+    expect(await registry.makeRoom('new')).toBe(true);
+    expect(newer.close).toHaveBeenCalled();
+    expect(registry.get('older')).toBeDefined();
+    expect(registry.stats().evicted).toBe(1);
+  });
+
+  test('should refuse new sessions when every session is busy', async () => {
+    registry.add('a', fakeTransport());
+    registry.add('b', fakeTransport());
+
+    const pending: Promise<void>[] = [];
+    const finishers: (() => void)[] = [];
+    for (const id of ['a', 'b']) {
+      pending.push(registry.track(id, () => new Promise<void>(resolve => { finishers.push(resolve); })));
+    }
+
+    expect(await registry.makeRoom('c')).toBe(false);
+    expect(registry.size).toBe(2);
+
+    finishers.forEach(finish => finish());
+    await Promise.all(pending);
+    expect(await registry.makeRoom('c')).toBe(true);
+  });
+
+  test('should count room reserved for sessions still initializing against the limit', async () => {
+    const reservations = await Promise.all(['a', 'b', 'c'].map(id => registry.makeRoom(id)));
+    expect(reservations).toEqual([true, true, false]);
+
+    // A session that fails to initialize gives its room back
+    registry.release('b');
+    expect(await registry.makeRoom('c')).toBe(true);
+
+    registry.add('a', fakeTransport());
+    registry.add('c', fakeTransport());
+    expect(registry.size).toBe(2);
+    expect(await registry.makeRoom('d')).toBe(true);
+    expect(registry.stats().evicted).toBe(1);
+  });
+
+  test('should report session counts and ages', () => {
+    expect(registry.stats()).toEqual({
+      active: 0,
+      max: 2,
+      idleTimeoutSeconds: 60,
+      oldestAgeSeconds: 0,
+      longestIdleSeconds: 0,
+      expired: 0,
+      evicted: 0
+    });
+
+    registry.add('a', fakeTransport());
+    now += 30_000;
+    registry.add('b', fakeTransport());
+    now += 10_000;
+    registry.touch('a');
+    now += 5_000;
+
+    expect(registry.stats()).toEqual(expect.objectContaining({
+      active: 2,
+      oldestAgeSeconds: 45,
+      longestIdleSeconds: 15
+    }));
+  });
+
+  test('should close every session', async () => {
+    const a = fakeTransport();
+    const b = fakeTransport();
+    b.close.mockRejectedValue(new Error('already closed'));
+    registry.add('a', a);
+    registry.add('b', b);
+
+    await registry.closeAll();
+
+    expect(a.close).toHaveBeenCalled();
+    expect(b.close).toHaveBeenCalled();
+    expect(registry.size).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { logger, configureLogger } from '../src/utils/logger.js';
+
+describe('Logger', () => {
+  let tempDir: string;
+  let stderr: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jane-logger-test-'));
+    stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    configureLogger({ level: 'info', format: 'text' });
+    stderr.mockRestore();
+    await fs.remove(tempDir);
+  });
+
+  /**
+   * Parse the JSON entries written to stderr
+   */
+  function jsonEntries(): Record<string, unknown>[] {
+    return stderr.mock.calls.map(([line]) => JSON.parse(line as string));
+  }
+
+  test('should write colored text to stderr by default', () => {
+    logger.warning('Disk almost full');
+
+    expect(stderr).toHaveBeenCalledWith('\x1b[33mDisk almost full\x1b[0m');
+  });
+
+  test('should write JSON entries with a timestamp, level and fields', () => {
+    configureLogger({ format: 'json' });
+
+    logger.success('Index ready', { documents: 3 });
+    logger.error('Write failed', { error: new Error('EACCES') });
+
+    const [ready, failed] = jsonEntries();
+    expect(ready).toEqual({ timestamp: expect.any(String), level: 'info', message: 'Index ready', documents: 3 });
+    expect(Date.parse(ready.timestamp as string)).not.toBeNaN();
+    expect(failed).toEqual(expect.objectContaining({
+      level: 'error',
+      message: 'Write failed',
+      error: expect.objectContaining({ name: 'Error', message: 'EACCES' })
+    }));
+  });
+
+  test('should drop entries below the minimum level', () => {
+    configureLogger({ level: 'warning', format: 'json' });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warning('warning');
+    logger.error('error');
+
+    expect(jsonEntries().map(entry => entry.level)).toEqual(['warning', 'error']);
+  });
+
+  test('should add the component and context of child loggers', () => {
+    configureLogger({ format: 'json' });
+
+    const session = logger.child('http').child({ sessionId: 'abc' });
+    session.info('Session initialized', { requestId: 1, component: undefined });
+    logger.child('tools').info('Tool called', { sessionId: undefined });
+
+    expect(jsonEntries()).toEqual([
+      expect.objectContaining({ component: 'http', sessionId: 'abc', requestId: 1 }),
+      { timestamp: expect.any(String), level: 'info', message: 'Tool called', component: 'tools' }
+    ]);
+  });
+
+  test('should show the component in text mode', () => {
+    logger.child('filesystem').info('Found 3 markdown files');
+
+    expect(stderr).toHaveBeenCalledWith('\x1b[36m[filesystem] Found 3 markdown files\x1b[0m');
+  });
+
+  test('should append entries to the log file instead of stderr', async () => {
+    const file = path.join(tempDir, 'jane.log');
+    await fs.writeFile(file, 'previous run\n');
+
+    configureLogger({ format: 'json', file });
+    logger.info('First');
+    configureLogger({ format: 'text', file });
+    logger.child('http').header('HTTP Server Setup');
+
+    const lines = (await fs.readFile(file, 'utf8')).trimEnd().split('\n');
+    expect(stderr).not.toHaveBeenCalled();
+    expect(lines[0]).toBe('previous run');
+    expect(JSON.parse(lines[1])).toEqual(expect.objectContaining({ message: 'First' }));
+    expect(lines[2]).toMatch(/^\S+ INFO === \[http\] HTTP Server Setup ===$/);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, test, expect } from 'vitest';
+import {
+  parseOutline,
+  findHeading,
+  findHeadingByAnchor,
+  formatHeadingPath,
+  getSectionText,
+  HeadingLookupError
+} from '../src/utils/markdown-outline.js';
+
+const document = [
+  '# API',               // 0
+  '',                    // 1
+  'Intro',               // 2
+  '',                    // 3
+  '## Authentication ##',// 4
+  '',                    // 5
+  '```bash',             // 6
+  '# not a heading',     // 7
+  '```',                 // 8
+  '',                    // 9
+  '### Tokens',          // 10
+  '',                    // 11
+  '## Endpoints',        // 12
+  '',                    // 13
+  '### Tokens',          // 14
+  '#hashtag',            // 15
+  '# C# Notes'           // 16
+].join('\n');
+
+describe('Markdown Outline', () => {
+  test('should parse headings with their sections and paths', () => {
+    const outline = parseOutline(document);
+
+    expect(outline.map(({ level, text, line, endLine }) => ({ level, text, line, endLine }))).toEqual([
+      { level: 1, text: 'API', line: 0, endLine: 16 },
+      { level: 2, text: 'Authentication', line: 4, endLine: 12 },
+      { level: 3, text: 'Tokens', line: 10, endLine: 12 },
+      { level: 2, text: 'Endpoints', line: 12, endLine: 16 },
+      { level: 3, text: 'Tokens', line: 14, endLine: 16 },
+      { level: 1, text: 'C# Notes', line: 16, endLine: 17 }
+    ]);
+    expect(formatHeadingPath(outline[2])).toBe('API > Authentication > Tokens');
+  });
+
+  test('should find headings by text or path, ignoring case and # markers', () => {
+    const outline = parseOutline(document);
+
+    expect(findHeading(outline, 'authentication').line).toBe(4);
+    expect(findHeading(outline, '## Endpoints').line).toBe(12);
+    expect(findHeading(outline, 'Endpoints > Tokens').line).toBe(14);
+    expect(findHeading(outline, 'API > Authentication > Tokens').line).toBe(10);
+  });
+
+  test('should reject missing and ambiguous headings', () => {
+    const outline = parseOutline(document);
+
+    expect(() => findHeading(outline, 'Errors')).toThrow(HeadingLookupError);
+    expect(() => findHeading(outline, 'Errors')).toThrow('headings: "API", "API > Authentication"');
+    expect(() => findHeading(outline, 'Tokens')).toThrow(
+      'is ambiguous; use one of "API > Authentication > Tokens", "API > Endpoints > Tokens"'
+    );
+    expect(() => findHeading(parseOutline('Just text'), 'Intro')).toThrow('the document has no headings');
+  });
+
+  test('should give headings unique GitHub-style anchors', () => {
+    const outline = parseOutline(document);
+
+    expect(outline.map(heading => heading.anchor)).toEqual([
+      'api', 'authentication', 'tokens', 'endpoints', 'tokens-1', 'c-notes'
+    ]);
+    expect(findHeadingByAnchor(outline, '#tokens-1').line).toBe(14);
+    expect(() => findHeadingByAnchor(outline, 'errors')).toThrow('Anchor "errors" not found; anchors: #api, #authentication');
+  });
+
+  test('should extract a section with its subsections', () => {
+    const outline = parseOutline(document);
+
+    expect(getSectionText(document, findHeading(outline, 'Authentication'))).toBe(
+      '## Authentication ##\n\n```bash\n# not a heading\n```\n\n### Tokens'
+    );
+    expect(getSectionText(document, findHeading(outline, 'C# Notes'))).toBe('# C# Notes');
+  });
+});
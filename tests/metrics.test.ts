@@ -0,0 +1,71 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { MetricsRegistry } from '../src/utils/metrics.js';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  test('should render counters by label', async () => {
+    const calls = registry.counter('jane_tool_calls_total', 'Tool calls by tool and outcome');
+    calls.inc({ tool: 'search', status: 'success' });
+    calls.inc({ tool: 'search', status: 'success' });
+    calls.inc({ tool: 'get_spec', status: 'error' });
+
+    expect(calls.get({ status: 'success', tool: 'search' })).toBe(2);
+    expect(await registry.render()).toBe([
+      '# HELP jane_tool_calls_total Tool calls by tool and outcome',
+      '# TYPE jane_tool_calls_total counter',
+      'jane_tool_calls_total{tool="search",status="success"} 2',
+      'jane_tool_calls_total{tool="get_spec",status="error"} 1',
+      ''
+    ].join('\n'));
+  });
+
+  test('should render cumulative histogram buckets', async () => {
+    const duration = registry.histogram('jane_search_duration_seconds', 'Search time', [0.1, 1]);
+    duration.observe({ kind: 'fulltext' }, 0.05);
+    duration.observe({ kind: 'fulltext' }, 0.5);
+    duration.observe({ kind: 'fulltext' }, 3);
+
+    expect(duration.get({ kind: 'fulltext' })).toEqual({ count: 3, sum: 3.55 });
+    expect(await registry.render()).toContain([
+      'jane_search_duration_seconds_bucket{kind="fulltext",le="0.1"} 1',
+      'jane_search_duration_seconds_bucket{kind="fulltext",le="1"} 2',
+      'jane_search_duration_seconds_bucket{kind="fulltext",le="+Inf"} 3',
+      'jane_search_duration_seconds_sum{kind="fulltext"} 3.55',
+      'jane_search_duration_seconds_count{kind="fulltext"} 3'
+    ].join('\n'));
+  });
+
+  test('should time operations', () => {
+    const duration = registry.histogram('jane_tool_call_duration_seconds', 'Tool time');
+
+    const stop = duration.startTimer({ tool: 'search' });
+    stop();
+
+    expect(duration.get({ tool: 'search' }).count).toBe(1);
+  });
+
+  test('should render collected metrics until the collector is removed', async () => {
+    const remove = registry.addCollector(async () => [{
+      name: 'jane_indexed_documents',
+      help: 'Documents in the index',
+      type: 'gauge',
+      samples: [{ labels: { type: 'spec', project: 'payments' }, value: 4 }]
+    }]);
+
+    expect(await registry.render()).toContain('jane_indexed_documents{type="spec",project="payments"} 4');
+
+    remove();
+    expect(await registry.render()).not.toContain('jane_indexed_documents');
+  });
+
+  test('should escape label values', async () => {
+    registry.counter('jane_test_total', 'Test').inc({ path: 'say "hi"\\\n' });
+
+    expect(await registry.render()).toContain('jane_test_total{path="say \\"hi\\"\\\\\\n"} 1');
+  });
+});
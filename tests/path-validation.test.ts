@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest';
+import { validateRelativePath, PathValidationError } from '../src/utils/path-validation.js';
+
+describe('Path Validation', () => {
+  describe('validateRelativePath', () => {
+    test('should accept relative document paths', () => {
+      expect(validateRelativePath('javascript/array-methods.md', { requireMarkdown: true }))
+        .toBe('javascript/array-methods.md');
+      expect(validateRelativePath('project1/v2/api spec.md', { requireMarkdown: true }))
+        .toBe('project1/v2/api spec.md');
+    });
+
+    test('should accept directory paths and drop a trailing slash', () => {
+      expect(validateRelativePath('project1/')).toBe('project1');
+      expect(validateRelativePath('project1/v2')).toBe('project1/v2');
+    });
+
+    test.each([
+      ['', 'must not be empty'],
+      ['/etc/passwd.md', 'absolute paths are not allowed'],
+      ['C:/Windows/win.md', 'absolute paths are not allowed'],
+      ['../../etc/passwd.md', '".." segments'],
+      ['project1/../../secret.md', '".." segments'],
+      ['project1\\..\\secret.md', 'forward slashes'],
+      ['project1//api.md', 'empty segments'],
+      ['project1/./api.md', 'reserved name'],
+      ['.history/api.md', 'reserved name'],
+      ['project1/.hidden.md', 'reserved name'],
+      ['project1/CON.md', 'reserved name'],
+      ['lpt1/api.md', 'reserved name'],
+      ['project1/api?.md', 'characters that are not allowed'],
+      ['project1/api.md\u0000.txt', 'control characters'],
+      ['project1 /api.md', 'must not end with a dot or space'],
+      ['project1/api.txt', 'only .md documents'],
+      ['project1/api.md.bak', 'only .md documents'],
+      ['project1/', 'empty segments']
+    ])('should reject document path %j', (subpath, message) => {
+      expect(() => validateRelativePath(subpath, { requireMarkdown: true })).toThrow(PathValidationError);
+      expect(() => validateRelativePath(subpath, { requireMarkdown: true })).toThrow(message);
+    });
+
+    test('should include the offending path in the error', () => {
+      expect(() => validateRelativePath('../x.md')).toThrow('Invalid document path "../x.md"');
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, test, expect } from 'vitest';
+import { parseSearchQuery, QueryParseError } from '../src/utils/query-parser.js';
+
+describe('Search Query Parser', () => {
+  describe('parseSearchQuery', () => {
+    test('should AND bare terms together', () => {
+      const result = parseSearchQuery('array methods');
+
+      expect(result.matchExpression).toBe('("array") AND ("methods")');
+      expect(result.terms).toEqual(['array', 'methods']);
+    });
+
+    test('should keep quoted phrases together', () => {
+      const result = parseSearchQuery('"array methods" map');
+
+      expect(result.matchExpression).toBe('("array methods") AND ("map")');
+      expect(result.terms).toEqual(['array methods', 'map']);
+    });
+
+    test('should support OR and grouping', () => {
+      const result = parseSearchQuery('(map OR filter) array');
+
+      expect(result.matchExpression).toBe('(("map") OR ("filter")) AND ("array")');
+    });
+
+    test('should translate NOT and -term into FTS5 NOT', () => {
+      expect(parseSearchQuery('methods NOT python').matchExpression).toBe('("methods") NOT ("python")');
+      expect(parseSearchQuery('methods -python').matchExpression).toBe('("methods") NOT ("python")');
+      expect(parseSearchQuery('methods -python').terms).toEqual(['methods']);
+    });
+
+    test('should support prefix matching on terms and phrases', () => {
+      expect(parseSearchQuery('interf*').matchExpression).toBe('"interf" *');
+      expect(parseSearchQuery('"array meth"*').matchExpression).toBe('"array meth" *');
+    });
+
+    test('should map field scopes to FTS columns', () => {
+      expect(parseSearchQuery('title:"api spec"').matchExpression).toBe('title : "api spec"');
+      expect(parseSearchQuery('tag:python').matchExpression).toBe('tags : "python"');
+      expect(parseSearchQuery('author:jane').matchExpression).toBe('author : "jane"');
+      expect(parseSearchQuery('tag:(python OR javascript)').matchExpression)
+        .toBe('(tags : "python") OR (tags : "javascript")');
+    });
+
+    test('should read colons outside field scopes as part of a term', () => {
+      expect(parseSearchQuery('std::vector').matchExpression).toBe('"std::vector"');
+      expect(parseSearchQuery('https://example.com').matchExpression).toBe('"https://example.com"');
+      expect(parseSearchQuery('note: x').matchExpression).toBe('("note:") AND ("x")');
+      expect(parseSearchQuery('color:red').matchExpression).toBe('"color:red"');
+      expect(parseSearchQuery('Title:api').matchExpression).toBe('title : "api"');
+    });
+
+    test('should collect unscoped positive terms into a content expression', () => {
+      expect(parseSearchQuery('oauth "rate limit" interf* -draft title:api').contentExpression)
+        .toBe('"oauth" OR "rate limit" OR "interf" *');
+      expect(parseSearchQuery('tag:python').contentExpression).toBe('');
+    });
+
+    test('should treat lower-case operators as terms', () => {
+      expect(parseSearchQuery('this or that').matchExpression).toBe('("this") AND ("or") AND ("that")');
+    });
+
+    test('should escape double quotes and ignore punctuation-only terms', () => {
+      expect(parseSearchQuery('API & Endpoints').matchExpression).toBe('("API") AND ("Endpoints")');
+      expect(parseSearchQuery('&').matchExpression).toBe('');
+      expect(parseSearchQuery('it\'s').matchExpression).toBe('"it\'s"');
+    });
+
+    test('should return an empty expression for blank queries', () => {
+      expect(parseSearchQuery('   ')).toEqual({ matchExpression: '', terms: [], contentExpression: '' });
+    });
+
+    test.each([
+      ['"unterminated', 'Unterminated quoted phrase'],
+      ['(map OR filter', 'Unbalanced opening parenthesis'],
+      ['map)', 'Unbalanced closing parenthesis'],
+      ['map OR', 'OR must be followed by a term'],
+      ['OR map', 'Expected a search term before "OR"'],
+      ['map NOT', 'NOT must be followed by a term'],
+      ['-python', 'cannot consist only of excluded terms'],
+      ['map OR -python', 'Excluded terms must be combined'],
+      ['map title:', 'must be followed by a term'],
+      ['()', 'Empty parentheses'],
+      ['""', 'Empty quoted phrase']
+    ])('should reject malformed query %s', (query, message) => {
+      expect(() => parseSearchQuery(query)).toThrow(QueryParseError);
+      expect(() => parseSearchQuery(query)).toThrow(message);
+    });
+  });
+});
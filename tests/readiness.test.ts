@@ -0,0 +1,142 @@
+import { vi, describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import fs from 'fs-extra';
+
+// Directories checked by the readiness check, created in a temp directory
+const { dirs } = vi.hoisted(() => {
+  const janeDir = `${process.env.TMPDIR ?? '/tmp'}/jane-ready-test-${process.pid}`;
+  return { dirs: { janeDir, stdlibDir: `${janeDir}/stdlib`, specsDir: `${janeDir}/specs` } };
+});
+
+vi.mock('../src/utils/filesystem.js', () => ({
+  JANE_DIR: dirs.janeDir,
+  STDLIB_DIR: dirs.stdlibDir,
+  SPECS_DIR: dirs.specsDir
+}));
+
+vi.mock('../src/utils/search.js', () => ({
+  documentIndex: {
+    checkIntegrity: vi.fn()
+  }
+}));
+
+vi.mock('../src/utils/document-scanner.js', () => ({
+  getLastScan: vi.fn()
+}));
+
+import { checkReadiness, formatReadinessReport } from '../src/utils/readiness.js';
+import { documentIndex } from '../src/utils/search.js';
+import { getLastScan } from '../src/utils/document-scanner.js';
+
+function scan(overrides: { failed?: number; errors?: Error[] } = {}) {
+  return {
+    result: { indexed: 2, skipped: 3, failed: 0, removed: 0, orphaned: [], errors: [], ...overrides },
+    finishedAt: new Date('2024-01-01T00:00:00Z'),
+    durationMs: 120
+  };
+}
+
+describe('Readiness', () => {
+  beforeAll(async () => {
+    await fs.ensureDir(dirs.stdlibDir);
+    await fs.ensureDir(dirs.specsDir);
+  });
+
+  afterAll(async () => {
+    await fs.remove(dirs.janeDir);
+  });
+
+  beforeEach(() => {
+    vi.mocked(documentIndex.checkIntegrity).mockResolvedValue({ problems: [], documents: 5, ftsRows: 5 });
+    vi.mocked(getLastScan).mockReturnValue(scan());
+  });
+
+  const checkNamed = async (name: string) => (await checkReadiness()).checks.find(check => check.name === name)!;
+
+  test('should be ready when every check passes', async () => {
+    const report = await checkReadiness();
+
+    expect(report.ready).toBe(true);
+    expect(report.checks.map(check => [check.name, check.ok])).toEqual([
+      ['database', true],
+      ['full_text_index', true],
+      ['jane_directory', true],
+      ['last_scan', true]
+    ]);
+    expect(formatReadinessReport(report)).toContain('Server is ready\n\n- database: ok (Integrity check passed)');
+  });
+
+  test('should fail when the integrity check reports problems', async () => {
+    vi.mocked(documentIndex.checkIntegrity).mockResolvedValue({
+      problems: ['row 3 missing from index idx_documents'],
+      documents: 5,
+      ftsRows: 5
+    });
+
+    const report = await checkReadiness();
+
+    expect(report.ready).toBe(false);
+    expect(report.checks[0]).toEqual({
+      name: 'database',
+      ok: false,
+      message: 'Integrity check failed: row 3 missing from index idx_documents'
+    });
+  });
+
+  test('should run the full integrity check unless the quick check is selected', async () => {
+    expect((await checkNamed('database')).message).toBe('Integrity check passed');
+    expect(documentIndex.checkIntegrity).toHaveBeenLastCalledWith({ quick: false });
+
+    vi.stubEnv('JANE_READINESS_CHECK', 'quick');
+    try {
+      expect((await checkNamed('database')).message).toBe('Quick integrity check passed');
+      expect(documentIndex.checkIntegrity).toHaveBeenLastCalledWith({ quick: true });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  test('should fail both index checks when the database does not open', async () => {
+    vi.mocked(documentIndex.checkIntegrity).mockRejectedValue(new Error('unable to open database file'));
+
+    const report = await checkReadiness();
+
+    expect(report.checks.slice(0, 2)).toEqual([
+      { name: 'database', ok: false, message: 'unable to open database file' },
+      { name: 'full_text_index', ok: false, message: 'Database is not available' }
+    ]);
+  });
+
+  test('should fail when the full-text index is out of sync', async () => {
+    vi.mocked(documentIndex.checkIntegrity).mockResolvedValue({ problems: [], documents: 5, ftsRows: 4 });
+
+    const check = await checkNamed('full_text_index');
+
+    expect(check.ok).toBe(false);
+    expect(check.message).toBe('4 full-text rows for 5 documents; restart the server to rebuild the full-text index');
+  });
+
+  test('should fail when a document directory is missing', async () => {
+    await fs.remove(dirs.specsDir);
+    try {
+      expect(await checkNamed('jane_directory')).toEqual({
+        name: 'jane_directory',
+        ok: false,
+        message: 'The specs directory is not writable (ENOENT)'
+      });
+    } finally {
+      await fs.ensureDir(dirs.specsDir);
+    }
+  });
+
+  test('should fail until a scan has completed without failures', async () => {
+    vi.mocked(getLastScan).mockReturnValue(null);
+    expect((await checkNamed('last_scan')).message).toBe('No document scan has completed yet');
+
+    vi.mocked(getLastScan).mockReturnValue(scan({ failed: 1, errors: [new Error('Failed to read document: spec://secret/plan.md')] }));
+    const check = await checkNamed('last_scan');
+
+    expect(check.ok).toBe(false);
+    expect(check.message).toContain('1 failed');
+    expect(check.message).not.toContain('secret');
+  });
+});
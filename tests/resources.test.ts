@@ -0,0 +1,259 @@
+import { vi, describe, test, expect, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { DocumentSummary } from '../src/types.js';
+
+// Mock dependencies
+vi.mock('../src/utils/filesystem.js', () => ({
+  listDocuments: vi.fn(),
+  listLanguages: vi.fn().mockResolvedValue(['javascript', 'python']),
+  listProjects: vi.fn().mockResolvedValue(['project1']),
+  readDocument: vi.fn()
+}));
+
+vi.mock('../src/utils/search.js', () => ({
+  documentIndex: {
+    listDocumentSummaries: vi.fn()
+  }
+}));
+
+import { implementResources } from '../src/resources/index.js';
+import { documentIndex } from '../src/utils/search.js';
+import { listDocuments, listProjects, readDocument } from '../src/utils/filesystem.js';
+import { PathValidationError } from '../src/utils/path-validation.js';
+import { accessControl } from '../src/utils/access-control.js';
+
+// Indexed documents, in the order the index returns them
+const indexedDocuments: DocumentSummary[] = [
+  ...Array.from({ length: 150 }, (_, i) => ({
+    type: 'spec' as const,
+    path: `project1/doc-${String(i).padStart(3, '0')}.md`,
+    title: `Doc ${i}`
+  })),
+  { type: 'stdlib', path: 'javascript/array methods.md', title: 'Array Methods', description: 'Array reference' }
+];
+
+describe('Document Resources', () => {
+  let client: Client;
+  let server: McpServer;
+
+  beforeEach(async () => {
+    vi.mocked(documentIndex.listDocumentSummaries).mockImplementation(async ({ after, limit = 100, filter } = {}) => {
+      const start = after
+        ? indexedDocuments.findIndex(doc => doc.type === after.type && doc.path === after.path) + 1
+        : 0;
+      return indexedDocuments.slice(start).filter(doc => !filter || filter(doc.type, doc.path)).slice(0, limit);
+    });
+
+    server = new McpServer({ name: 'jane-test', version: '1.0.0' });
+    implementResources(server);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  describe('resources/list', () => {
+    test('should page through every indexed document', async () => {
+      const first = await client.listResources();
+
+      expect(first.resources.length).toBe(100);
+      expect(first.nextCursor).toBeDefined();
+      expect(first.resources[0]).toEqual({
+        uri: 'spec://project1/doc-000.md',
+        name: 'project1/doc-000.md',
+        title: 'Doc 0',
+        mimeType: 'text/markdown'
+      });
+
+      const second = await client.listResources({ cursor: first.nextCursor });
+
+      expect(second.resources.length).toBe(51);
+      expect(second.nextCursor).toBeUndefined();
+      expect(second.resources[50]).toEqual({
+        uri: 'stdlib://javascript/array%20methods.md',
+        name: 'javascript/array methods.md',
+        title: 'Array Methods',
+        description: 'Array reference',
+        mimeType: 'text/markdown'
+      });
+      expect(documentIndex.listDocumentSummaries).toHaveBeenLastCalledWith({
+        after: { type: 'spec', path: 'project1/doc-099.md' },
+        limit: 101
+      });
+    });
+
+    test('should reject cursors it did not issue', async () => {
+      await expect(client.listResources({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+    });
+  });
+
+  describe('path completion', () => {
+    const completePath = async (template: string, variable: string, directory: string, value: string) => {
+      const result = await client.complete({
+        ref: { type: 'ref/resource', uri: template },
+        argument: { name: 'path', value },
+        context: { arguments: { [variable]: directory } }
+      });
+      return result.completion.values;
+    };
+
+    beforeEach(() => {
+      vi.mocked(listDocuments).mockImplementation(async (type, subpath) => {
+        if (subpath && subpath.includes('..')) {
+          throw new PathValidationError(subpath, 'path must not contain ".." segments');
+        }
+        if (type === 'spec') {
+          return ['project1/api/v1/users.md', 'project1/api/v2/users.md', 'project1/architecture.md'];
+        }
+        return Array.from({ length: 40 }, (_, i) => `javascript/topic-${i}.md`);
+      });
+    });
+
+    test('should complete real document paths including nested directories', async () => {
+      const values = await completePath('spec://{project}/{+path}', 'project', 'project1', 'users');
+
+      expect(values).toEqual(['api/v1/users.md', 'api/v2/users.md']);
+      expect(listDocuments).toHaveBeenCalledWith('spec', 'project1');
+    });
+
+    test('should rank fuzzy matches', async () => {
+      const values = await completePath('spec://{project}/{+path}', 'project', 'project1', 'arch');
+
+      expect(values[0]).toBe('architecture.md');
+    });
+
+    test('should cap the number of completions', async () => {
+      const values = await completePath('stdlib://{language}/{+path}', 'language', 'javascript', '');
+
+      expect(values.length).toBe(20);
+    });
+
+    test('should return nothing without a valid language or project', async () => {
+      expect(await completePath('stdlib://{language}/{+path}', 'language', '', 'topic')).toEqual([]);
+      expect(await completePath('spec://{project}/{+path}', 'project', '../secrets', 'x')).toEqual([]);
+    });
+  });
+
+  describe('resources/read', () => {
+    beforeEach(() => {
+      vi.mocked(readDocument).mockImplementation(async (type, docPath) => {
+        if (docPath.includes('..')) {
+          throw new PathValidationError(docPath, 'path must not contain ".." segments');
+        }
+        return docPath.endsWith('missing.md')
+          ? null
+          : { type, path: docPath, content: `# ${docPath}`, meta: { title: docPath } };
+      });
+    });
+
+    test('should read documents in nested directories', async () => {
+      const result = await client.readResource({ uri: 'spec://project1/api/v2/users.md' });
+
+      expect(readDocument).toHaveBeenCalledWith('spec', 'project1/api/v2/users.md');
+      expect(result.contents[0].text).toBe('# project1/api/v2/users.md');
+    });
+
+    test('should decode percent-encoded path segments', async () => {
+      await client.readResource({ uri: 'stdlib://javascript/guides/array%20methods.md' });
+
+      expect(readDocument).toHaveBeenCalledWith('stdlib', 'javascript/guides/array methods.md');
+    });
+
+    test('should read documents using URIs returned by resources/list', async () => {
+      const firstPage = await client.listResources();
+      const { resources } = await client.listResources({ cursor: firstPage.nextCursor });
+      const listed = resources.find(resource => resource.name === 'javascript/array methods.md')!;
+      await client.readResource({ uri: listed.uri });
+
+      expect(readDocument).toHaveBeenLastCalledWith('stdlib', 'javascript/array methods.md');
+    });
+
+    test('should report missing documents and invalid paths as errors', async () => {
+      const missing = await client.readResource({ uri: 'spec://project1/missing.md' });
+      expect(missing.isError).toBe(true);
+      expect(missing.contents[0].text).toBe('Document not found: project1/missing.md');
+
+      const invalid = await client.readResource({ uri: 'spec://project1/%E0%A4%A.md' });
+      expect(invalid.isError).toBe(true);
+      expect(invalid.contents[0].text).toContain('Invalid document path');
+    });
+  });
+
+  describe('access control', () => {
+    const authInfo = { token: 'token', clientId: 'contractor', scopes: ['read'] };
+    let aclDir: string;
+    let restrictedClient: Client;
+    let restrictedServer: McpServer;
+
+    beforeEach(async () => {
+      vi.clearAllMocks();
+      aclDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jane-resources-acl-'));
+      const aclPath = path.join(aclDir, '.jane-acl.json');
+      await fs.writeJson(aclPath, {
+        principals: { contractor: { projects: { '*': 'read', project1: 'none' }, languages: { '*': 'read' } } }
+      });
+      await accessControl.load(aclPath);
+
+      vi.mocked(listProjects).mockResolvedValue(['project1', 'project2']);
+      vi.mocked(listDocuments).mockResolvedValue(['project1/secret.md']);
+
+      restrictedServer = new McpServer({ name: 'jane-test', version: '1.0.0' });
+      implementResources(restrictedServer, authInfo);
+
+      // Attach the principal to every request, as the HTTP transport does
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const send = clientTransport.send.bind(clientTransport);
+      clientTransport.send = (message, options) => send(message, { ...options, authInfo });
+
+      restrictedClient = new Client({ name: 'restricted-client', version: '1.0.0' });
+      await Promise.all([restrictedClient.connect(clientTransport), restrictedServer.connect(serverTransport)]);
+    });
+
+    afterEach(async () => {
+      await restrictedClient.close();
+      await restrictedServer.close();
+      await accessControl.load(path.join(aclDir, 'missing.json'));
+      await fs.remove(aclDir);
+    });
+
+    test('should leave documents the principal cannot read out of resources/list', async () => {
+      const { resources } = await restrictedClient.listResources();
+
+      expect(resources.map(resource => resource.uri)).toEqual(['stdlib://javascript/array%20methods.md']);
+    });
+
+    test('should deny reads without touching the file system', async () => {
+      const result = await restrictedClient.readResource({ uri: 'spec://project1/doc-000.md' });
+
+      expect(result.isError).toBe(true);
+      expect(result.contents[0].text).toBe('Access denied: "contractor" cannot read spec://project1/doc-000.md');
+      expect(readDocument).not.toHaveBeenCalled();
+    });
+
+    test('should not complete projects or paths the principal cannot read', async () => {
+      const projects = await restrictedClient.complete({
+        ref: { type: 'ref/resource', uri: 'spec://{project}/{+path}' },
+        argument: { name: 'project', value: 'project' }
+      });
+      expect(projects.completion.values).toEqual(['project2']);
+
+      const paths = await restrictedClient.complete({
+        ref: { type: 'ref/resource', uri: 'spec://{project}/{+path}' },
+        argument: { name: 'path', value: 'secret' },
+        context: { arguments: { project: 'project1' } }
+      });
+      expect(paths.completion.values).toEqual([]);
+      expect(listDocuments).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -20,6 +20,14 @@ vi.mock('../src/utils/search.js', () => {
   };
 });
 
+vi.mock('../src/utils/access-control.js', () => {
+  return {
+    accessControl: {
+      load: vi.fn().mockResolvedValue(undefined)
+    }
+  };
+});
+
 vi.mock('../src/resources/index.js', () => {
   return {
     implementResources: vi.fn()
@@ -34,6 +42,7 @@ vi.mock('../src/tools/index.js', () => {
 
 import { documentIndex } from '../src/utils/search.js';
 import { ensureJaneStructure } from '../src/utils/filesystem.js';
+import { accessControl } from '../src/utils/access-control.js';
 
 describe('Server Creation', () => {
   test('should create and configure server correctly', async () => {
@@ -42,6 +51,9 @@ describe('Server Creation', () => {
     // Ensure Jane directory structure is created
     expect(ensureJaneStructure).toHaveBeenCalled();
     
+    // The ACL should be loaded
+    expect(accessControl.load).toHaveBeenCalled();
+    
     // Document index should be initialized
     expect(documentIndex.initialize).toHaveBeenCalled();
     
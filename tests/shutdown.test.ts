@@ -0,0 +1,81 @@
+import { vi, describe, test, expect, beforeEach } from 'vitest';
+import { ShutdownCoordinator, EXIT_CODES } from '../src/utils/shutdown.js';
+
+describe('ShutdownCoordinator', () => {
+  let coordinator: ShutdownCoordinator;
+
+  beforeEach(() => {
+    coordinator = new ShutdownCoordinator();
+  });
+
+  test('should stop, then close resources in the order they were registered', async () => {
+    const steps: string[] = [];
+    coordinator.onClose('sessions', () => { steps.push('sessions'); });
+    coordinator.onClose('index', async () => { steps.push('index'); });
+    coordinator.onStop('listener', () => { steps.push('listener'); });
+
+    expect(await coordinator.shutdown('test')).toBe(EXIT_CODES.ok);
+    expect(steps).toEqual(['listener', 'sessions', 'index']);
+    expect(coordinator.stopping).toBe(true);
+  });
+
+  test('should wait for operations in flight before closing resources', async () => {
+    const steps: string[] = [];
+    coordinator.onClose('index', () => { steps.push('index'); });
+
+    let finish!: () => void;
+    const operation = coordinator.track(async () => {
+      await new Promise<void>(resolve => { finish = resolve; });
+      steps.push('operation');
+    });
+    expect(coordinator.pending).toBe(1);
+
+    const shutdown = coordinator.shutdown('test', 1000);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(steps).toEqual([]);
+
+    finish();
+    await operation;
+    expect(await shutdown).toBe(EXIT_CODES.ok);
+    expect(steps).toEqual(['operation', 'index']);
+  });
+
+  test('should give up waiting after the timeout', async () => {
+    const close = vi.fn();
+    coordinator.onClose('index', close);
+    coordinator.track(() => new Promise(() => {}));
+
+    expect(await coordinator.shutdown('test', 20)).toBe(EXIT_CODES.error);
+    expect(close).toHaveBeenCalled();
+  });
+
+  test('should keep closing resources after a step fails', async () => {
+    const close = vi.fn();
+    coordinator.onClose('sessions', () => { throw new Error('already closed'); });
+    coordinator.onClose('index', close);
+
+    expect(await coordinator.shutdown('test')).toBe(EXIT_CODES.error);
+    expect(close).toHaveBeenCalled();
+  });
+
+  test('should only shut down once', async () => {
+    const close = vi.fn();
+    coordinator.onClose('index', close);
+
+    const first = coordinator.shutdown('SIGTERM');
+    const second = coordinator.shutdown('SIGINT');
+
+    expect(second).toBe(first);
+    await first;
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not run steps that were removed', async () => {
+    const close = vi.fn();
+    const remove = coordinator.onClose('index', close);
+    remove();
+
+    await coordinator.shutdown('test');
+    expect(close).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { SQLiteEventStore } from '../src/utils/sqlite-event-store.js';
+
+function message(id: number): JSONRPCMessage {
+  return { jsonrpc: '2.0', id, result: { value: id } };
+}
+
+describe('SQLiteEventStore', () => {
+  let db: Database.Database;
+  let now: number;
+  let store: SQLiteEventStore;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    now = 1_000_000;
+    store = new SQLiteEventStore(db, { maxAge: 60_000, maxEvents: 5 }, () => now);
+    store.saveSession('session-a', 'alice');
+    store.saveSession('session-b');
+  });
+
+  async function replay(sessionId: string, lastEventId: string) {
+    const sent: [string, JSONRPCMessage][] = [];
+    const streamId = await store.forSession(sessionId).replayEventsAfter(lastEventId, {
+      send: async (eventId, msg) => { sent.push([eventId, msg]); }
+    });
+    return { streamId, sent };
+  }
+
+  test('should replay the events of a stream after the last event', async () => {
+    const events = store.forSession('session-a');
+    const first = await events.storeEvent('stream-1', message(1));
+    const second = await events.storeEvent('stream-1', message(2));
+    await events.storeEvent('stream-2', message(3));
+    const third = await events.storeEvent('stream-1', message(4));
+
+    const { streamId, sent } = await replay('session-a', first);
+
+    expect(streamId).toBe('stream-1');
+    expect(sent).toEqual([[second, message(2)], [third, message(4)]]);
+  });
+
+  test('should survive reopening the store', async () => {
+    const first = await store.forSession('session-a').storeEvent('stream-1', message(1));
+    const second = await store.forSession('session-a').storeEvent('stream-1', message(2));
+
+    store = new SQLiteEventStore(db, {}, () => now);
+
+    expect(store.getSession('session-a')).toEqual({ principal: 'alice', createdAt: now, lastActivity: now });
+    expect((await replay('session-a', first)).sent).toEqual([[second, message(2)]]);
+  });
+
+  test('should not replay events of another session', async () => {
+    const eventId = await store.forSession('session-a').storeEvent('stream-1', message(1));
+    await store.forSession('session-a').storeEvent('stream-1', message(2));
+
+    expect(await replay('session-b', eventId)).toEqual({ streamId: '', sent: [] });
+    expect(await replay('session-a', 'unknown-event')).toEqual({ streamId: '', sent: [] });
+  });
+
+  test('should keep the initialize request a session was opened with', () => {
+    const initialize: JSONRPCMessage = {
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'client', version: '1.0.0' } }
+    };
+    store.saveSession('session-c', 'carol', initialize);
+    now += 5000;
+    store.saveSession('session-c', 'carol');
+
+    expect(store.getSession('session-c')).toEqual({
+      principal: 'carol',
+      createdAt: 1_000_000,
+      lastActivity: 1_005_000,
+      initializeRequest: initialize
+    });
+    expect(store.getSession('session-a')?.initializeRequest).toBeUndefined();
+  });
+
+  test('should record session activity when events are stored', async () => {
+    now += 5000;
+    await store.forSession('session-a').storeEvent('stream-1', message(1));
+
+    expect(store.getSession('session-a')).toEqual({ principal: 'alice', createdAt: 1_000_000, lastActivity: 1_005_000 });
+    expect(store.getSession('session-b')?.principal).toBeUndefined();
+    expect(store.getSession('session-c')).toBeNull();
+  });
+
+  test('should delete sessions with their events', async () => {
+    const eventId = await store.forSession('session-a').storeEvent('stream-1', message(1));
+
+    store.deleteSession('session-a');
+
+    expect(store.getSession('session-a')).toBeNull();
+    expect(await replay('session-a', eventId)).toEqual({ streamId: '', sent: [] });
+  });
+
+  test('should prune events and sessions older than the retention period', async () => {
+    const old = await store.forSession('session-a').storeEvent('stream-1', message(1));
+    now += 40_000;
+    const recent = await store.forSession('session-a').storeEvent('stream-1', message(2));
+    await store.forSession('session-a').storeEvent('stream-1', message(3));
+    now += 30_000;
+
+    expect(store.prune()).toEqual({ events: 1, sessions: 1 });
+    expect(store.getSession('session-b')).toBeNull();
+    expect(await replay('session-a', old)).toEqual({ streamId: '', sent: [] });
+    expect((await replay('session-a', recent)).sent).toEqual([[expect.any(String), message(3)]]);
+  });
+
+  test('should keep only the newest events beyond the maximum', async () => {
+    const events = store.forSession('session-a');
+    const ids: string[] = [];
+    for (let i = 1; i <= 8; i++) {
+      ids.push(await events.storeEvent('stream-1', message(i)));
+    }
+
+    expect(store.prune()).toEqual({ events: 3, sessions: 0 });
+    expect((await replay('session-a', ids[2])).streamId).toBe('');
+    expect((await replay('session-a', ids[3])).sent.map(([, msg]) => msg)).toEqual([5, 6, 7, 8].map(message));
+  });
+});
@@ -6,6 +6,10 @@ import { Document, DocumentType, SearchResult } from '../src/types.js';
 // Import the SQLiteDocumentIndex class that doesn't exist yet
 // This import will fail until the implementation is created
 import { SQLiteDocumentIndex } from '../src/utils/sqlite-search.js';
+import { groupPassagesByDocument } from '../src/utils/document-chunks.js';
+import { QueryParseError } from '../src/utils/query-parser.js';
+import { computeDocumentHash, computeDocumentRevision } from '../src/utils/document-hash.js';
+import Database from 'better-sqlite3';
 
 // Create a temporary database file for testing
 const TEST_DB_PATH = path.join(process.cwd(), 'test-document-index.db');
@@ -132,6 +136,42 @@ describe('SQLiteDocumentIndex', () => {
       // Clean up
       await newIndex.close();
     });
+
+    test('should add the content hash column to an older database', async () => {
+      await index.close();
+      await fs.unlink(TEST_DB_PATH);
+
+      // Create a documents table without the content_hash column
+      const legacyDb = new Database(TEST_DB_PATH);
+      legacyDb.exec(`
+        CREATE TABLE documents (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          path TEXT NOT NULL,
+          content TEXT NOT NULL,
+          title TEXT NOT NULL,
+          description TEXT,
+          author TEXT,
+          created_at TEXT,
+          updated_at TEXT,
+          meta_json TEXT,
+          UNIQUE (type, path)
+        );
+        INSERT INTO documents (type, path, content, title) VALUES ('spec', 'legacy/doc.md', '# Legacy', 'Legacy');
+      `);
+      legacyDb.close();
+
+      index = new SQLiteDocumentIndex({ dbPath: TEST_DB_PATH });
+      await index.initialize();
+
+      expect(await index.getDocumentMetadata('spec', 'legacy/doc.md')).toEqual(
+        expect.objectContaining({ contentHash: null })
+      );
+
+      await index.addOrUpdateDocument(testDocuments[0]);
+      const metadata = await index.getDocumentMetadata('stdlib', 'javascript/array-methods.md');
+      expect(metadata?.contentHash).toBe(computeDocumentHash(testDocuments[0]));
+    });
   });
 
   describe('Document Management', () => {
@@ -181,6 +221,46 @@ describe('SQLiteDocumentIndex', () => {
       expect(results[0].document.content).toContain('This content has been updated');
     });
 
+    test('should store a content hash for each document', async () => {
+      const metadata = await index.getAllDocumentsMetadata();
+
+      for (const doc of testDocuments) {
+        expect(metadata.get(`${doc.type}://${doc.path}`)?.contentHash).toBe(computeDocumentHash(doc));
+      }
+    });
+
+    test('should list document summaries in pages ordered by type and path', async () => {
+      const firstPage = await index.listDocumentSummaries({ limit: 3 });
+
+      expect(firstPage.map(doc => `${doc.type}://${doc.path}`)).toEqual([
+        'spec://project1/api.md',
+        'spec://project2/architecture.md',
+        'stdlib://javascript/array-methods.md'
+      ]);
+      expect(firstPage[0]).toEqual({
+        type: 'spec',
+        path: 'project1/api.md',
+        title: 'API Specification',
+        description: 'Project 1 API documentation'
+      });
+
+      const last = firstPage[firstPage.length - 1];
+      const secondPage = await index.listDocumentSummaries({ after: { type: last.type, path: last.path }, limit: 3 });
+
+      expect(secondPage.map(doc => doc.path)).toEqual(['python/list-methods.md', 'typescript/interfaces.md']);
+    });
+
+    test('should fill pages of document summaries from documents that pass the filter', async () => {
+      const filter = (type: DocumentType, docPath: string) => type === 'stdlib' || docPath.startsWith('project2/');
+
+      const firstPage = await index.listDocumentSummaries({ limit: 2, filter });
+      expect(firstPage.map(doc => doc.path)).toEqual(['project2/architecture.md', 'javascript/array-methods.md']);
+
+      const last = firstPage[firstPage.length - 1];
+      const secondPage = await index.listDocumentSummaries({ after: { type: last.type, path: last.path }, limit: 2, filter });
+      expect(secondPage.map(doc => doc.path)).toEqual(['python/list-methods.md', 'typescript/interfaces.md']);
+    });
+
     test('should remove a document from the index', async () => {
       // Remove a document
       await index.removeDocument('stdlib', 'javascript/array-methods.md');
@@ -192,6 +272,55 @@ describe('SQLiteDocumentIndex', () => {
       expect(results.length).toBe(4);
       expect(results.some(r => r.document.path === 'javascript/array-methods.md')).toBe(false);
     });
+
+    test('should move a document to a new path', async () => {
+      const moved = await index.renameDocument('spec', 'project1/api.md', 'project3/api.md');
+
+      expect(moved).toBe(true);
+      const results = await index.search('endpoints');
+      expect(results.map(r => r.document.path)).toEqual(['project3/api.md']);
+      expect((await index.search('path:project3')).length).toBe(1);
+      expect(await index.getDocumentMetadata('spec', 'project1/api.md')).toBeNull();
+    });
+
+    test('should replace a document already indexed at the target path', async () => {
+      const moved = await index.renameDocument('spec', 'project1/api.md', 'project2/architecture.md');
+
+      expect(moved).toBe(true);
+      const results = await index.search('*', { type: 'spec' });
+      expect(results.length).toBe(1);
+      expect(results[0].document.meta.title).toBe('API Specification');
+    });
+
+    test('should report when the document to move is not indexed', async () => {
+      expect(await index.renameDocument('spec', 'project1/missing.md', 'project3/missing.md')).toBe(false);
+    });
+  });
+
+  describe('Document Counts', () => {
+    test('should count documents per language and project', async () => {
+      expect(await index.countDocuments()).toEqual([
+        { type: 'spec', directory: 'project1', count: 1 },
+        { type: 'spec', directory: 'project2', count: 1 },
+        { type: 'stdlib', directory: 'javascript', count: 1 },
+        { type: 'stdlib', directory: 'python', count: 1 },
+        { type: 'stdlib', directory: 'typescript', count: 1 }
+      ]);
+    });
+  });
+
+  describe('Integrity', () => {
+    test('should pass the integrity check with a row per document in the full-text index', async () => {
+      expect(await index.checkIntegrity()).toEqual({ problems: [], documents: 5, ftsRows: 5 });
+      expect(await index.checkIntegrity({ quick: true })).toEqual({ problems: [], documents: 5, ftsRows: 5 });
+    });
+
+    test('should report a full-text index out of sync with the documents', async () => {
+      const db = await index.getDatabase();
+      db.prepare("DELETE FROM documents_fts WHERE path = 'project1/api.md'").run();
+
+      expect(await index.checkIntegrity()).toEqual({ problems: [], documents: 5, ftsRows: 4 });
+    });
   });
 
   describe('Search Functionality', () => {
@@ -202,6 +331,17 @@ describe('SQLiteDocumentIndex', () => {
       expect(results.length).toBe(5);
     });
 
+    test('should include the revision of each document', async () => {
+      const wildcard = await index.search('*');
+      const fulltext = await index.search('javascript');
+
+      for (const result of [...wildcard, ...fulltext]) {
+        const doc = testDocuments.find(d => d.type === result.document.type && d.path === result.document.path)!;
+        expect(result.revision).toBe(computeDocumentRevision(doc));
+      }
+      expect(fulltext.length).toBeGreaterThan(0);
+    });
+
     test('should return empty string for content when includeContent is false', async () => {
       const results = await index.search('*', { includeContent: false });
       
@@ -265,6 +405,80 @@ describe('SQLiteDocumentIndex', () => {
       expect(results[0].matches?.[0]).toContain('SQLite');
     });
 
+    test('should rank title matches above body matches', async () => {
+      await index.addOrUpdateDocument({
+        path: 'project3/storage.md',
+        type: 'spec',
+        content: '# Storage\n\nThe cache layer sits in front of the primary database.',
+        meta: { title: 'Storage Layer', tags: ['storage'] }
+      });
+      await index.addOrUpdateDocument({
+        path: 'project3/database.md',
+        type: 'spec',
+        content: '# Schema\n\nTables and indexes used by the service.',
+        meta: { title: 'Database Schema', tags: ['schema'] }
+      });
+
+      const results = await index.search('database');
+
+      expect(results.length).toBe(3);
+      expect(results[0].document.path).toBe('project3/database.md');
+    });
+
+    test('should return results ordered by descending relevance score', async () => {
+      const results = await index.search('methods');
+
+      expect(results.length).toBeGreaterThan(1);
+      results.forEach(result => expect(typeof result.score).toBe('number'));
+      for (let i = 1; i < results.length; i++) {
+        expect(results[i - 1].score!).toBeGreaterThanOrEqual(results[i].score!);
+      }
+    });
+
+    test('should match quoted phrases only when the words are adjacent', async () => {
+      const phraseResults = await index.search('"new array"');
+      const reversedResults = await index.search('"array new"');
+
+      expect(phraseResults.length).toBe(1);
+      expect(phraseResults[0].document.path).toBe('javascript/array-methods.md');
+      expect(reversedResults.length).toBe(0);
+    });
+
+    test('should support OR, NOT and prefix queries', async () => {
+      const orResults = await index.search('append OR endpoints');
+      const notResults = await index.search('methods -python');
+      const prefixResults = await index.search('interf*');
+
+      expect(orResults.map(r => r.document.path).sort()).toEqual(['project1/api.md', 'python/list-methods.md']);
+      expect(notResults.some(r => r.document.path === 'python/list-methods.md')).toBe(false);
+      expect(notResults.some(r => r.document.path === 'javascript/array-methods.md')).toBe(true);
+      expect(prefixResults.length).toBe(1);
+      expect(prefixResults[0].document.path).toBe('typescript/interfaces.md');
+    });
+
+    test('should restrict field-scoped terms to their field', async () => {
+      await index.addOrUpdateDocument({
+        path: 'project1/v2/users.md',
+        type: 'spec',
+        content: '# Users\n\nVersion 2 of the users API.',
+        meta: { title: 'Users v2', author: 'Ada Lovelace', tags: ['users'] }
+      });
+
+      const titleResults = await index.search('title:api');
+      const tagResults = await index.search('tag:components');
+      const authorResults = await index.search('author:lovelace');
+      const pathResults = await index.search('path:"project1/v2"');
+
+      expect(titleResults.map(r => r.document.path)).toEqual(['project1/api.md']);
+      expect(tagResults.map(r => r.document.path)).toEqual(['project2/architecture.md']);
+      expect(authorResults.map(r => r.document.path)).toEqual(['project1/v2/users.md']);
+      expect(pathResults.map(r => r.document.path)).toEqual(['project1/v2/users.md']);
+    });
+
+    test('should throw a QueryParseError for malformed queries', async () => {
+      await expect(index.search('(map OR filter')).rejects.toThrow(QueryParseError);
+    });
+
     test('should apply multiple filters simultaneously', async () => {
       const results = await index.search('methods', { 
         type: 'stdlib',
@@ -277,6 +491,134 @@ describe('SQLiteDocumentIndex', () => {
       expect(results[0].document.type).toBe('stdlib');
       expect(results[0].document.path.startsWith('python/')).toBe(true);
     });
+
+    test('should leave out documents rejected by the filter', async () => {
+      const filter = (type: DocumentType, docPath: string) => !docPath.startsWith('project1/');
+
+      const results = await index.search('users OR architecture', { includeContent: true, filter });
+      expect(results.map(result => result.document.path)).toEqual(['project2/architecture.md']);
+      expect(JSON.stringify(results)).not.toContain('/users');
+
+      const all = await index.search('*', { filter });
+      expect(all.map(result => result.document.path)).not.toContain('project1/api.md');
+      expect(all.length).toBe(testDocuments.length - 1);
+    });
+  });
+
+  describe('Passage Search', () => {
+    test('should return matching passages with their heading path and line numbers', async () => {
+      const passages = await index.searchPassages('"all users"');
+
+      expect(passages).toEqual([{
+        document: expect.objectContaining({ type: 'spec', path: 'project1/api.md', content: '' }),
+        headingPath: ['API Specification', 'Endpoints', 'GET /users'],
+        startLine: 5,
+        endLine: 6,
+        text: '### GET /users\nReturns a list of all users in the system.',
+        score: expect.any(Number),
+        revision: computeDocumentRevision(testDocuments[3])
+      }]);
+    });
+
+    test('should rank the passage that matches above the rest of the document', async () => {
+      const passages = await index.searchPassages('filter', { limit: 1 });
+
+      expect(passages).toHaveLength(1);
+      expect(passages[0].headingPath).toEqual(['JavaScript Array Methods', 'filter()']);
+    });
+
+    test('should apply field scopes, filters and limits to passages', async () => {
+      const tagged = await index.searchPassages('tag:api');
+      expect(new Set(tagged.map(passage => passage.document.path))).toEqual(new Set(['project1/api.md']));
+
+      expect(await index.searchPassages('methods', { limit: 2 })).toHaveLength(2);
+      expect((await index.searchPassages('methods', { language: 'python' })).every(p => p.document.path.startsWith('python/'))).toBe(true);
+      expect(await index.searchPassages('users', { filter: (type, docPath) => !docPath.startsWith('project1/') })).toEqual([]);
+      expect(await index.searchPassages('*')).toEqual([]);
+    });
+
+    test('should match documents whose terms sit in different sections', async () => {
+      await index.addOrUpdateDocument({
+        path: 'project4/gateway.md',
+        type: 'spec',
+        content: '# Auth\nClients sign in with OAuth.\n\n## Limits\nEach client has a rate of 100 requests.',
+        meta: { title: 'Gateway' }
+      });
+
+      const passages = await index.searchPassages('oauth rate');
+
+      expect(passages.map(passage => passage.headingPath)).toEqual(
+        expect.arrayContaining([['Auth'], ['Auth', 'Limits']])
+      );
+      expect(passages).toHaveLength(2);
+      expect(passages.every(passage => passage.document.path === 'project4/gateway.md')).toBe(true);
+    });
+
+    test('should exclude documents containing an excluded term anywhere', async () => {
+      await index.addOrUpdateDocument({
+        path: 'project4/gateway.md',
+        type: 'spec',
+        content: '# Auth\nClients sign in with OAuth.\n\n## Limits\nEach client has a rate of 100 requests.',
+        meta: { title: 'Gateway' }
+      });
+
+      expect(await index.searchPassages('oauth -rate')).toEqual([]);
+      expect(await index.searchPassages('oauth')).toHaveLength(1);
+    });
+
+    test('should return the whole document when only its metadata matches', async () => {
+      await index.addOrUpdateDocument({
+        path: 'project4/placeholder.md',
+        type: 'spec',
+        content: '',
+        meta: { title: 'Placeholder', tags: ['roadmap'] }
+      });
+
+      expect(await index.searchPassages('tag:roadmap')).toEqual([expect.objectContaining({
+        document: expect.objectContaining({ path: 'project4/placeholder.md' }),
+        headingPath: [],
+        text: '',
+        wholeDocument: true
+      })]);
+
+      const [passage] = await index.searchPassages('title:interfaces');
+      expect(passage.wholeDocument).toBe(true);
+      expect(passage.text).toBe(testDocuments[1].content);
+      expect([passage.startLine, passage.endLine]).toEqual([1, 3]);
+    });
+
+    test('should group passages by document, best document first', async () => {
+      const groups = groupPassagesByDocument(await index.searchPassages('users OR storage'));
+
+      expect(groups.map(group => group.document.path).sort()).toEqual(['project1/api.md', 'project2/architecture.md']);
+      const api = groups.find(group => group.document.path === 'project1/api.md')!;
+      expect(api.passages.map(passage => passage.headingPath[2])).toEqual(expect.arrayContaining(['GET /users', 'POST /users']));
+      expect(api.revision).toBe(computeDocumentRevision(testDocuments[3]));
+    });
+
+    test('should keep passages in step with updates, moves and removals', async () => {
+      await index.addOrUpdateDocument({ ...testDocuments[3], content: '# API Specification\n\n## Accounts\nManage accounts.' });
+      expect(await index.searchPassages('users', { type: 'spec' })).toEqual([]);
+      expect((await index.searchPassages('accounts'))[0].headingPath).toEqual(['API Specification', 'Accounts']);
+
+      await index.renameDocument('spec', 'project1/api.md', 'project3/api.md');
+      expect((await index.searchPassages('path:project3')).map(passage => passage.document.path)).toEqual(['project3/api.md']);
+
+      await index.removeDocument('spec', 'project3/api.md');
+      expect(await index.searchPassages('accounts')).toEqual([]);
+    });
+
+    test('should split documents indexed before chunks existed', async () => {
+      await index.close();
+      const db = new Database(TEST_DB_PATH);
+      db.exec('DROP TABLE document_chunks');
+      db.close();
+
+      index = new SQLiteDocumentIndex({ dbPath: TEST_DB_PATH });
+      await index.initialize();
+
+      expect((await index.searchPassages('"all users"'))[0].headingPath).toEqual(['API Specification', 'Endpoints', 'GET /users']);
+    });
   });
 
   describe('Performance and Edge Cases', () => {
@@ -0,0 +1,64 @@
+import { describe, test, expect } from 'vitest';
+import { diffLines, formatUnifiedDiff } from '../src/utils/text-diff.js';
+
+describe('Text Diff', () => {
+  describe('diffLines', () => {
+    test('should find the shortest edit between two texts', () => {
+      const diff = diffLines(['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c']);
+
+      expect(diff.filter(line => line.type !== 'equal')).toHaveLength(5);
+      expect(diff.filter(line => line.type !== 'insert').map(line => line.line)).toEqual(['a', 'b', 'c', 'a', 'b', 'b', 'a']);
+      expect(diff.filter(line => line.type !== 'delete').map(line => line.line)).toEqual(['c', 'b', 'a', 'b', 'a', 'c']);
+    });
+
+    test('should handle empty texts', () => {
+      expect(diffLines([], [])).toEqual([]);
+      expect(diffLines([], ['a'])).toEqual([{ type: 'insert', line: 'a' }]);
+      expect(diffLines(['a'], [])).toEqual([{ type: 'delete', line: 'a' }]);
+    });
+
+    test('should diff long texts that share no lines', () => {
+      const oldLines = Array.from({ length: 5000 }, (_, i) => `old ${i}`);
+      const newLines = Array.from({ length: 5000 }, (_, i) => `new ${i}`);
+      newLines[2500] = oldLines[2500];
+
+      const diff = diffLines(oldLines, newLines);
+
+      expect(diff.filter(line => line.type === 'equal')).toEqual([{ type: 'equal', line: 'old 2500' }]);
+      expect(diff.filter(line => line.type !== 'insert').map(line => line.line)).toEqual(oldLines);
+      expect(diff.filter(line => line.type !== 'delete').map(line => line.line)).toEqual(newLines);
+    });
+  });
+
+  describe('formatUnifiedDiff', () => {
+    const labels = { old: 'version 1', new: 'version 2' };
+
+    test('should return an empty string for equal texts', () => {
+      expect(formatUnifiedDiff('# Title\n\nText', '# Title\n\nText', labels)).toBe('');
+    });
+
+    test('should show changes with surrounding context', () => {
+      const oldText = ['# Title', '', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight'].join('\n');
+      const newText = ['# Title', '', 'one', 'two', 'THREE', 'four', 'five', 'six', 'seven', 'eight', 'nine'].join('\n');
+
+      expect(formatUnifiedDiff(oldText, newText, labels, 1)).toBe([
+        '--- version 1',
+        '+++ version 2',
+        '@@ -4,3 +4,3 @@',
+        ' two',
+        '-three',
+        '+THREE',
+        ' four',
+        '@@ -10,1 +10,2 @@',
+        ' eight',
+        '+nine'
+      ].join('\n'));
+    });
+
+    test('should merge changes whose context overlaps into one hunk', () => {
+      const diff = formatUnifiedDiff('a\nb\nc\nd\ne', 'A\nb\nc\nd\nE', labels, 2);
+
+      expect(diff.split('\n').filter(line => line.startsWith('@@'))).toEqual(['@@ -1,5 +1,5 @@']);
+    });
+  });
+});
@@ -0,0 +1,696 @@
+import { vi, describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import fs from 'fs-extra';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { DocumentMeta, DocumentType } from '../src/types.js';
+
+// The Jane directory and index location are read when the modules load
+const { janeDir } = vi.hoisted(() => {
+  const janeDir = `${process.env.TMPDIR ?? '/tmp'}/jane-tools-test-${process.pid}`;
+  process.env.JANE_DIR = janeDir;
+  process.env.JANE_DB_PATH = `${janeDir}-index.db`;
+  return { janeDir };
+});
+
+// The real file operations, wrapped so a test can make one of them fail
+vi.mock('../src/utils/filesystem.js', async importOriginal => {
+  const actual = await importOriginal<typeof import('../src/utils/filesystem.js')>();
+  return {
+    ...actual,
+    deleteDocument: vi.fn(actual.deleteDocument),
+    moveDocument: vi.fn(actual.moveDocument)
+  };
+});
+
+import { implementTools } from '../src/tools/index.js';
+import * as filesystem from '../src/utils/filesystem.js';
+import { documentIndex } from '../src/utils/search.js';
+import { accessControl } from '../src/utils/access-control.js';
+import { computeDocumentRevision } from '../src/utils/document-hash.js';
+import {
+  deleteDocument,
+  moveDocument,
+  ensureJaneStructure,
+  readDocument,
+  updateDocument,
+  writeDocument
+} from '../src/utils/filesystem.js';
+
+const WRITER: AuthInfo = { token: 'token', clientId: 'writer', scopes: ['read', 'write'] };
+const READER: AuthInfo = { token: 'token', clientId: 'reader', scopes: ['read'] };
+const CONTRACTOR: AuthInfo = { token: 'token', clientId: 'contractor', scopes: ['read', 'write'] };
+
+describe('Tools', () => {
+  const connections: { client: Client; server: McpServer }[] = [];
+
+  /**
+   * Connect a client to a server with Jane's tools, attaching the principal
+   * to every request as the HTTP transport does
+   */
+  async function connect(authInfo?: AuthInfo): Promise<Client> {
+    const server = new McpServer({ name: 'jane-test', version: '1.0.0' });
+    implementTools(server);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    if (authInfo) {
+      const send = clientTransport.send.bind(clientTransport);
+      clientTransport.send = (message, options) => send(message, { ...options, authInfo });
+    }
+
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    connections.push({ client, server });
+    return client;
+  }
+
+  /**
+   * Call a tool, returning the text of its result and whether it is an error
+   */
+  async function call(client: Client, name: string, args: Record<string, unknown>) {
+    const result = await client.callTool({ name, arguments: args });
+    const content = result.content as { type: string; text: string }[];
+    return { text: content.map(part => part.text).join('\n'), isError: result.isError === true };
+  }
+
+  /**
+   * Write a document and index it
+   */
+  async function seed(type: DocumentType, documentPath: string, content: string, meta: DocumentMeta): Promise<void> {
+    await writeDocument(type, documentPath, content, meta);
+    await documentIndex.addOrUpdateDocument((await readDocument(type, documentPath))!);
+  }
+
+  async function indexedPaths(): Promise<string[]> {
+    return [...(await documentIndex.getAllDocumentsMetadata()).keys()].sort();
+  }
+
+  const specFile = (documentPath: string) => path.join(janeDir, 'specs', documentPath);
+
+  beforeAll(async () => {
+    await documentIndex.initialize();
+  });
+
+  afterAll(async () => {
+    await documentIndex.close();
+    await fs.remove(janeDir);
+    await fs.remove(`${janeDir}-index.db`);
+  });
+
+  beforeEach(async () => {
+    await fs.emptyDir(janeDir);
+    await ensureJaneStructure();
+    for (const key of await indexedPaths()) {
+      const separator = key.indexOf('://');
+      await documentIndex.removeDocument(key.slice(0, separator) as DocumentType, key.slice(separator + 3));
+    }
+
+    await seed('spec', 'project1/api.md', '# API\n\nEndpoints', { title: 'API' });
+    await seed('spec', 'project2/api.md', '# Other API', { title: 'Other API' });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    for (const { client, server } of connections.splice(0)) {
+      await client.close();
+      await server.close();
+    }
+  });
+
+  describe('access control', () => {
+    let aclDir: string;
+
+    beforeEach(async () => {
+      aclDir = await fs.mkdtemp(`${janeDir}-acl-`);
+      const aclPath = path.join(aclDir, '.jane-acl.json');
+      await fs.writeJson(aclPath, {
+        principals: { contractor: { projects: { '*': 'read', project1: 'write', project3: 'none' }, languages: { '*': 'read' } } }
+      });
+      await accessControl.load(aclPath);
+    });
+
+    afterEach(async () => {
+      await accessControl.load(path.join(aclDir, 'missing.json'));
+      await fs.remove(aclDir);
+    });
+
+    test('should not let principals without the write scope delete or move documents', async () => {
+      const client = await connect(READER);
+
+      const deleted = await call(client, 'delete_document', { type: 'spec', project: 'project1', path: 'api.md' });
+      const moved = await call(client, 'move_document', { type: 'spec', project: 'project1', path: 'api.md', newPath: 'v2.md' });
+
+      for (const result of [deleted, moved]) {
+        expect(result).toEqual({
+          text: 'Permission denied: "reader" has read-only access and cannot change documents',
+          isError: true
+        });
+      }
+      expect(await fs.pathExists(specFile('project1/api.md'))).toBe(true);
+      expect(deleteDocument).not.toHaveBeenCalled();
+      expect(moveDocument).not.toHaveBeenCalled();
+    });
+
+    test('should not delete documents in projects the ACL does not let the principal write', async () => {
+      const client = await connect(CONTRACTOR);
+
+      const result = await call(client, 'delete_document', { type: 'spec', project: 'project2', path: 'api.md' });
+
+      expect(result).toEqual({
+        text: 'Access denied: "contractor" does not have write access to project "project2"',
+        isError: true
+      });
+      expect(await indexedPaths()).toContain('spec://project2/api.md');
+    });
+
+    test('should not move documents into projects the ACL does not let the principal write', async () => {
+      const client = await connect(CONTRACTOR);
+
+      const result = await call(client, 'move_document', {
+        type: 'spec', project: 'project1', path: 'api.md', newProject: 'project2', newPath: 'moved.md'
+      });
+
+      expect(result).toEqual({
+        text: 'Access denied: "contractor" does not have write access to project "project2"',
+        isError: true
+      });
+      expect(await fs.pathExists(specFile('project1/api.md'))).toBe(true);
+      expect(moveDocument).not.toHaveBeenCalled();
+    });
+
+    test('should not show or diff the history of documents the principal cannot read', async () => {
+      const client = await connect(CONTRACTOR);
+      const target = { type: 'spec', project: 'project3', path: 'secret.md' };
+
+      const history = await call(client, 'get_document_history', target);
+      const diff = await call(client, 'diff_document_versions', { ...target, fromVersion: 1 });
+
+      for (const result of [history, diff]) {
+        expect(result).toEqual({
+          text: 'Access denied: "contractor" does not have read access to project "project3"',
+          isError: true
+        });
+      }
+    });
+
+    test('should not restore versions without write access', async () => {
+      const reader = await connect(READER);
+      const contractor = await connect(CONTRACTOR);
+
+      expect(await call(reader, 'restore_document_version', { type: 'spec', project: 'project1', path: 'api.md', version: 1 }))
+        .toEqual({ text: 'Permission denied: "reader" has read-only access and cannot change documents', isError: true });
+      expect(await call(contractor, 'restore_document_version', { type: 'spec', project: 'project2', path: 'api.md', version: 1 }))
+        .toEqual({ text: 'Access denied: "contractor" does not have write access to project "project2"', isError: true });
+      expect(await filesystem.documentHistory.list('spec', 'project2/api.md')).toHaveLength(1);
+    });
+  });
+
+  describe('delete_document', () => {
+    test('should delete the file, its index row and keep its history', async () => {
+      const client = await connect(WRITER);
+
+      const result = await call(client, 'delete_document', { type: 'spec', project: 'project1', path: 'api.md' });
+
+      expect(result).toEqual({ text: 'Document deleted successfully at spec://project1/api.md', isError: false });
+      expect(await fs.pathExists(specFile('project1/api.md'))).toBe(false);
+      expect(await indexedPaths()).toEqual(['spec://project2/api.md']);
+      expect(deleteDocument).toHaveBeenCalledWith('spec', 'project1/api.md', { author: 'writer' });
+    });
+
+    test('should report a missing document', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'delete_document', { type: 'spec', project: 'project1', path: 'missing.md' });
+
+      expect(result).toEqual({ text: 'Document not found at spec://project1/missing.md', isError: true });
+    });
+
+    test('should keep the file when the document cannot be removed from the index', async () => {
+      vi.spyOn(documentIndex, 'removeDocument').mockRejectedValueOnce(new Error('database is locked'));
+      const client = await connect();
+
+      const result = await call(client, 'delete_document', { type: 'spec', project: 'project1', path: 'api.md' });
+
+      expect(result).toEqual({
+        text: 'Failed to remove spec://project1/api.md from the index: database is locked',
+        isError: true
+      });
+      expect(deleteDocument).not.toHaveBeenCalled();
+      expect(await fs.pathExists(specFile('project1/api.md'))).toBe(true);
+      expect(await indexedPaths()).toContain('spec://project1/api.md');
+    });
+
+    test('should re-index the document when the file cannot be deleted', async () => {
+      vi.mocked(deleteDocument).mockResolvedValueOnce({ success: false, error: 'permission denied' });
+      const client = await connect();
+
+      const result = await call(client, 'delete_document', { type: 'spec', project: 'project1', path: 'api.md' });
+
+      expect(result).toEqual({
+        text: 'Failed to delete document at spec://project1/api.md: permission denied',
+        isError: true
+      });
+      expect(await indexedPaths()).toContain('spec://project1/api.md');
+      expect((await documentIndex.search('endpoints')).map(found => found.document.path)).toEqual(['project1/api.md']);
+    });
+  });
+
+  describe('move_document', () => {
+    test('should move the file and its index row into another project', async () => {
+      const client = await connect(WRITER);
+
+      const result = await call(client, 'move_document', {
+        type: 'spec', project: 'project1', path: 'api.md', newProject: 'project3'
+      });
+
+      expect(result).toEqual({
+        text: 'Document moved successfully from spec://project1/api.md to spec://project3/api.md',
+        isError: false
+      });
+      expect(await fs.pathExists(specFile('project1/api.md'))).toBe(false);
+      expect((await readDocument('spec', 'project3/api.md'))?.meta.title).toBe('API');
+      expect(await indexedPaths()).toEqual(['spec://project2/api.md', 'spec://project3/api.md']);
+    });
+
+    test('should not overwrite an existing document without force', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'move_document', {
+        type: 'spec', project: 'project1', path: 'api.md', newProject: 'project2'
+      });
+
+      expect(result).toEqual({
+        text: 'Failed to move document to spec://project2/api.md: Document already exists at spec://project2/api.md (use force to overwrite)',
+        isError: true
+      });
+      expect((await readDocument('spec', 'project2/api.md'))?.meta.title).toBe('Other API');
+    });
+
+    test('should overwrite an existing document with force', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'move_document', {
+        type: 'spec', project: 'project1', path: 'api.md', newProject: 'project2', force: true
+      });
+
+      expect(result.isError).toBe(false);
+      expect((await readDocument('spec', 'project2/api.md'))?.meta.title).toBe('API');
+      expect(await indexedPaths()).toEqual(['spec://project2/api.md']);
+    });
+
+    test('should move the file back when the index cannot be updated', async () => {
+      vi.spyOn(documentIndex, 'renameDocument').mockRejectedValueOnce(new Error('database is locked'));
+      const client = await connect();
+
+      const result = await call(client, 'move_document', {
+        type: 'spec', project: 'project1', path: 'api.md', newProject: 'project3'
+      });
+
+      expect(result).toEqual({
+        text: 'Failed to update the index when moving spec://project1/api.md: database is locked',
+        isError: true
+      });
+      expect((await readDocument('spec', 'project1/api.md'))?.meta.title).toBe('API');
+      expect(await fs.pathExists(specFile('project3/api.md'))).toBe(false);
+      expect(await indexedPaths()).toEqual(['spec://project1/api.md', 'spec://project2/api.md']);
+    });
+
+    test('should put back an overwritten document when the index cannot be updated', async () => {
+      vi.spyOn(documentIndex, 'renameDocument').mockRejectedValueOnce(new Error('database is locked'));
+      const client = await connect();
+
+      const result = await call(client, 'move_document', {
+        type: 'spec', project: 'project1', path: 'api.md', newProject: 'project2', force: true
+      });
+
+      expect(result.isError).toBe(true);
+      expect(await readDocument('spec', 'project1/api.md')).toEqual(expect.objectContaining({
+        content: expect.stringContaining('Endpoints'),
+        meta: expect.objectContaining({ title: 'API' })
+      }));
+      expect(await readDocument('spec', 'project2/api.md')).toEqual(expect.objectContaining({
+        content: expect.stringContaining('# Other API'),
+        meta: expect.objectContaining({ title: 'Other API' })
+      }));
+      expect(await indexedPaths()).toEqual(['spec://project1/api.md', 'spec://project2/api.md']);
+      expect((await documentIndex.search('other')).map(found => found.document.path)).toEqual(['project2/api.md']);
+    });
+  });
+
+  describe('document history', () => {
+    const api = { type: 'spec', project: 'project1', path: 'api.md' };
+
+    beforeEach(async () => {
+      await updateDocument('spec', 'project1/api.md', {
+        content: '# API\n\nEndpoints and errors',
+        meta: { title: 'API v2' }
+      }, { author: 'alice' });
+    });
+
+    test('should list versions newest first', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'get_document_history', api);
+
+      expect(result.isError).toBe(false);
+      const lines = result.text.split('\n');
+      expect(lines[0]).toBe('History of spec://project1/api.md (2 versions):');
+      expect(lines[2]).toMatch(/^- Version 2: update by alice at \S+ - "API v2"$/);
+      expect(lines[3]).toMatch(/^- Version 1: create at \S+ - "API"$/);
+    });
+
+    test('should limit the versions listed', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'get_document_history', { ...api, limit: 1 });
+
+      expect(result.text).toContain('Version 2: update');
+      expect(result.text).not.toContain('Version 1:');
+      expect(result.text).toMatch(/1 older versions not shown$/);
+    });
+
+    test('should report documents without history', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'get_document_history', { ...api, path: 'missing.md' });
+
+      expect(result).toEqual({ text: 'No history recorded for spec://project1/missing.md', isError: true });
+    });
+
+    test('should validate the document path arguments', async () => {
+      const client = await connect();
+
+      expect(await call(client, 'get_document_history', { type: 'spec', path: 'api.md' }))
+        .toEqual({ text: 'Project is required for spec documents', isError: true });
+      expect((await call(client, 'diff_document_versions', { ...api, path: '../../etc/passwd.md', fromVersion: 1 })).isError)
+        .toBe(true);
+      await expect(client.callTool({ name: 'restore_document_version', arguments: { ...api, version: 0 } }))
+        .rejects.toThrow('Invalid arguments');
+    });
+
+    test('should diff two versions, including metadata changes', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'diff_document_versions', { ...api, fromVersion: 1 });
+
+      expect(result.isError).toBe(false);
+      expect(result.text).toContain('Changes to spec://project1/api.md from version 1 to version 2:');
+      expect(result.text).toContain('Metadata:\n- title: "API" -> "API v2"');
+      expect(result.text).toContain('-Endpoints\n+Endpoints and errors');
+    });
+
+    test('should report unknown versions', async () => {
+      const client = await connect();
+
+      expect(await call(client, 'diff_document_versions', { ...api, fromVersion: 9 }))
+        .toEqual({ text: 'Version 9 of spec://project1/api.md not found', isError: true });
+      expect(await call(client, 'diff_document_versions', { ...api, fromVersion: 1, toVersion: 9 }))
+        .toEqual({ text: 'Version 9 of spec://project1/api.md not found', isError: true });
+      expect(await call(client, 'restore_document_version', { ...api, version: 9 }))
+        .toEqual({ text: 'Version 9 of spec://project1/api.md not found', isError: true });
+    });
+
+    test('should restore an earlier version as a new version and re-index it', async () => {
+      const client = await connect(WRITER);
+
+      const result = await call(client, 'restore_document_version', { ...api, version: 1 });
+
+      expect(result).toEqual({ text: 'Restored spec://project1/api.md to version 1 (recorded as version 3)', isError: false });
+      expect((await readDocument('spec', 'project1/api.md'))?.meta.title).toBe('API');
+      expect(await filesystem.documentHistory.latest('spec', 'project1/api.md')).toEqual(
+        expect.objectContaining({ action: 'restore', restoredFrom: 1, author: 'writer' })
+      );
+      expect((await documentIndex.search('errors')).map(found => found.document.path)).toEqual([]);
+    });
+
+    test('should restore a deleted document', async () => {
+      const client = await connect();
+      await call(client, 'delete_document', api);
+
+      const result = await call(client, 'restore_document_version', { ...api, version: 2 });
+
+      expect(result).toEqual({ text: 'Restored spec://project1/api.md to version 2 (recorded as version 4)', isError: false });
+      expect((await readDocument('spec', 'project1/api.md'))?.meta.title).toBe('API v2');
+      expect((await documentIndex.search('errors')).map(found => found.document.path)).toEqual(['project1/api.md']);
+      const history = await call(client, 'get_document_history', api);
+      expect(history.text).toMatch(/- Version 3: delete at/);
+    });
+  });
+
+  describe('patch_document', () => {
+    const guide = { type: 'spec', project: 'project1', path: 'guide.md' };
+    const content = '# Guide\n\n## Install\n\nRun npm install\n\n## Usage\n\nRun jane\n';
+
+    beforeEach(async () => {
+      await seed('spec', 'project1/guide.md', content, { title: 'Guide' });
+    });
+
+    test('should apply the operations in order and re-index the document', async () => {
+      const client = await connect(WRITER);
+
+      const result = await call(client, 'patch_document', {
+        ...guide,
+        operations: [
+          { op: 'replace_section', heading: 'Guide > Usage', content: 'Run jane --watch\n' },
+          { op: 'find_replace', find: 'npm install', replace: 'npm ci', heading: 'Install' }
+        ]
+      });
+
+      const patched = await readDocument('spec', 'project1/guide.md');
+      expect(result).toEqual({
+        text: `Document patched successfully at spec://project1/guide.md: 2 operations applied (revision ${computeDocumentRevision(patched!)})`,
+        isError: false
+      });
+      expect(patched?.content).toBe('# Guide\n\n## Install\n\nRun npm ci\n\n## Usage\n\nRun jane --watch\n');
+      expect((await documentIndex.search('watch')).map(found => found.document.path)).toEqual(['project1/guide.md']);
+      expect(await filesystem.documentHistory.latest('spec', 'project1/guide.md')).toEqual(
+        expect.objectContaining({ action: 'update', author: 'writer' })
+      );
+    });
+
+    test('should leave the document untouched when an operation fails', async () => {
+      const client = await connect();
+      const before = await fs.readFile(specFile('project1/guide.md'), 'utf8');
+
+      const result = await call(client, 'patch_document', {
+        ...guide,
+        operations: [
+          { op: 'append_to_section', heading: 'Install', content: 'Then build\n' },
+          { op: 'find_replace', find: 'Run', replace: 'Start' }
+        ]
+      });
+
+      expect(result).toEqual({
+        text: 'Failed to patch spec://project1/guide.md: Operation 2 (find_replace) failed: ' +
+          'Found 2 occurrences of "Run", expected 1. The document was not changed',
+        isError: true
+      });
+      expect(await fs.readFile(specFile('project1/guide.md'), 'utf8')).toBe(before);
+      expect(await documentIndex.search('build')).toEqual([]);
+      expect(await filesystem.documentHistory.list('spec', 'project1/guide.md')).toHaveLength(1);
+    });
+
+    test('should report a conflict when the document has changed since the expected revision', async () => {
+      const client = await connect();
+      const stale = computeDocumentRevision({ content, meta: { title: 'Old guide' } });
+      const current = await readDocument('spec', 'project1/guide.md');
+
+      const result = await call(client, 'patch_document', {
+        ...guide,
+        expectedRevision: stale,
+        operations: [{ op: 'insert_after_heading', heading: 'Usage', content: 'Requires Node 20\n' }]
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain(
+        `Conflict: spec://project1/guide.md has changed since revision ${stale} ` +
+        `(current revision ${computeDocumentRevision(current!)})`
+      );
+      expect(result.text).toContain('Run npm install');
+      expect(await readDocument('spec', 'project1/guide.md')).toEqual(current);
+    });
+
+    test('should apply the patch when the expected revision is current', async () => {
+      const client = await connect();
+      const current = await readDocument('spec', 'project1/guide.md');
+
+      const result = await call(client, 'patch_document', {
+        ...guide,
+        expectedRevision: computeDocumentRevision(current!),
+        operations: [{ op: 'insert_after_heading', heading: 'Usage', content: 'Requires Node 20\n' }]
+      });
+
+      expect(result.isError).toBe(false);
+      expect((await readDocument('spec', 'project1/guide.md'))?.content).toContain('## Usage\n\nRequires Node 20\n');
+    });
+
+    test('should not patch missing documents', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'patch_document', {
+        ...guide,
+        path: 'missing.md',
+        operations: [{ op: 'append_to_section', heading: 'Install', content: 'x' }]
+      });
+
+      expect(result).toEqual({ text: 'Document not found at spec://project1/missing.md', isError: true });
+      expect(await fs.pathExists(specFile('project1/missing.md'))).toBe(false);
+    });
+  });
+
+  describe('get_document_outline and get_section', () => {
+    const manual = { type: 'spec', project: 'project1', path: 'manual.md' };
+
+    beforeEach(async () => {
+      await seed('spec', 'project1/manual.md',
+        '# Manual\n\n## Install\n\nRun npm install\n\n### Windows\n\nUse WSL\n\n## Usage\n\n### Windows\n\nRun jane.cmd\n',
+        { title: 'Manual' });
+    });
+
+    test('should list the headings with their anchors and lines', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'get_document_outline', manual);
+
+      expect(result.isError).toBe(false);
+      expect(result.text.split('\n').slice(3)).toEqual([
+        '- Manual (#manual, lines 1-16)',
+        '  - Install (#install, lines 3-10)',
+        '    - Windows (#windows, lines 7-10)',
+        '  - Usage (#usage, lines 11-16)',
+        '    - Windows (#windows-1, lines 13-16)'
+      ]);
+    });
+
+    test('should only list headings up to the maximum depth', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'get_document_outline', { ...manual, maxDepth: 2 });
+
+      expect(result.text).toContain('  - Usage (#usage');
+      expect(result.text).not.toContain('Windows');
+    });
+
+    test('should get a section by anchor', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'get_section', { ...manual, anchor: '#windows-1' });
+
+      expect(result).toEqual({
+        text: expect.stringMatching(/^# Manual: Manual > Usage > Windows\n\*\*Revision:\*\* \S+\n\*\*Lines:\*\* 13-16\n\n### Windows\n\nRun jane\.cmd/),
+        isError: false
+      });
+    });
+
+    test('should get a section by heading path, including its subsections', async () => {
+      const client = await connect();
+
+      const install = await call(client, 'get_section', { ...manual, heading: 'Install' });
+      const windows = await call(client, 'get_section', { ...manual, heading: 'Install > Windows' });
+
+      expect(install.text).toContain('## Install\n\nRun npm install\n\n### Windows\n\nUse WSL');
+      expect(install.text).not.toContain('Usage');
+      expect(windows.text).toContain('# Manual: Manual > Install > Windows\n');
+      expect(windows.text).toContain('Use WSL');
+      expect(windows.text).not.toContain('Run npm install');
+    });
+
+    test('should list the headings when a heading is not found or is ambiguous', async () => {
+      const client = await connect();
+
+      expect(await call(client, 'get_section', { ...manual, heading: 'Uninstall' })).toEqual({
+        text: 'spec://project1/manual.md: Heading "Uninstall" not found; headings: "Manual", "Manual > Install", ' +
+          '"Manual > Install > Windows", "Manual > Usage", "Manual > Usage > Windows"',
+        isError: true
+      });
+      expect(await call(client, 'get_section', { ...manual, heading: 'Windows' })).toEqual({
+        text: 'spec://project1/manual.md: Heading "Windows" is ambiguous; use one of ' +
+          '"Manual > Install > Windows", "Manual > Usage > Windows"',
+        isError: true
+      });
+      expect(await call(client, 'get_section', { ...manual, anchor: '#setup' })).toEqual({
+        text: 'spec://project1/manual.md: Anchor "#setup" not found; anchors: #manual, #install, #windows, #usage, #windows-1',
+        isError: true
+      });
+    });
+
+    test('should require either a heading or an anchor', async () => {
+      const client = await connect();
+
+      for (const args of [manual, { ...manual, heading: 'Install', anchor: '#install' }]) {
+        expect(await call(client, 'get_section', args)).toEqual({ text: 'Provide either heading or anchor', isError: true });
+      }
+    });
+  });
+
+  describe('search', () => {
+    beforeEach(async () => {
+      await seed('spec', 'project1/auth.md',
+        '# Auth\n\n## Tokens\n\nTokens expire after an hour.\n\n## Keys\n\nKeys expire never.\n',
+        { title: 'Auth' });
+      await seed('spec', 'project2/notes.md', 'Sessions expire when idle.\n\n# Details\n\nNothing here.\n', { title: 'Notes' });
+    });
+
+    test('should return passages with their heading path and lines', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'search', { query: 'expire', project: 'project1' });
+
+      expect(result.isError).toBe(false);
+      const [summary, ...passages] = result.text.split('\n\n---\n\n');
+      expect(summary).toMatch(/^Found 2 passages for "expire":\n\n## Auth\n\*\*URI:\*\* spec:\/\/project1\/auth\.md\n\*\*Revision:\*\* \S+\n\n/);
+      expect(summary).toMatch(/\*\*Auth > (Tokens|Keys)\*\* \(lines (3-5|7-9)\)\n\n## (Tokens|Keys)/);
+      expect(passages).toHaveLength(1);
+      expect(passages[0]).toMatch(/^## Auth\n\*\*URI:\*\* spec:\/\/project1\/auth\.md\n/);
+      expect(result.text).toContain('**Auth > Tokens** (lines 3-5)\n\n## Tokens\n\nTokens expire after an hour.');
+      expect(result.text).toContain('**Auth > Keys** (lines 7-9)\n\n## Keys\n\nKeys expire never.');
+    });
+
+    test('should place text before the first heading and metadata matches', async () => {
+      const client = await connect();
+
+      const beforeHeading = await call(client, 'search', { query: 'sessions', project: 'project2' });
+      const titleMatch = await call(client, 'search', { query: 'title:notes' });
+
+      expect(beforeHeading.text).toContain('**(before the first heading)** (lines 1-1)\n\nSessions expire when idle.');
+      expect(titleMatch.text).toContain('**(whole document)** (lines 1-5)\n\nSessions expire when idle.\n\n# Details\n\nNothing here.');
+    });
+
+    test('should group passages under their documents', async () => {
+      const client = await connect();
+
+      const result = await call(client, 'search', { query: 'expire', groupByDocument: true });
+
+      expect(result.isError).toBe(false);
+      expect(result.text).toMatch(/^Found 3 passages for "expire":/);
+      const groups = result.text.split('\n\n---\n\n');
+      expect(groups).toHaveLength(2);
+      const auth = groups.find(group => group.includes('**URI:** spec://project1/auth.md'))!;
+      expect(auth.match(/## Auth\n/g)).toHaveLength(1);
+      expect(auth).toContain('**Auth > Tokens**');
+      expect(auth).toContain('**Auth > Keys**');
+      expect(auth).toMatch(/Tokens expire after an hour\.\n\n\*\*Auth > Keys\*\*|Keys expire never\.\n\n\*\*Auth > Tokens\*\*/);
+      expect(groups.find(group => group.includes('**URI:** spec://project2/notes.md'))).toContain('**(before the first heading)**');
+    });
+
+    test('should not return passages from documents the principal cannot read', async () => {
+      const aclDir = await fs.mkdtemp(`${janeDir}-acl-`);
+      const aclPath = path.join(aclDir, '.jane-acl.json');
+      await fs.writeJson(aclPath, { principals: { contractor: { projects: { '*': 'read', project2: 'none' } } } });
+      await accessControl.load(aclPath);
+      try {
+        const client = await connect(CONTRACTOR);
+
+        const result = await call(client, 'search', { query: 'expire' });
+
+        expect(result.text).toMatch(/^Found 2 passages/);
+        expect(result.text).not.toContain('project2');
+      } finally {
+        await accessControl.load(path.join(aclDir, 'missing.json'));
+        await fs.remove(aclDir);
+      }
+    });
+  });
+});